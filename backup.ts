@@ -0,0 +1,394 @@
+/**
+ * @module
+ * Client-side backup and restore of every memory in a project.
+ *
+ * {@link backup} walks all entities returned by `users()`, pages through
+ * each entity's memories and writes them to a versioned JSONL archive.
+ * {@link restore} replays an archive into another project, for disaster
+ * recovery or for moving data between staging and production.
+ *
+ * An archive has one JSON record per line:
+ *
+ * - `{"type":"header","format":"mem0-backup","version":1,"created_at":...}` first
+ * - `{"type":"entity","entity":{...}}` for each user, agent, app and run
+ * - `{"type":"memory","memory":{...}}` for each memory, once even if it belongs to several entities
+ * - `{"type":"history","memory_id":...,"history":[...]}` after a memory, when history is included
+ * - `{"type":"footer","entities":n,"memories":n,"history":n}` last, so truncated archives are detected
+ *
+ * @example
+ * ```ts
+ * import { backup, MemoryClient, restore } from "sdk-deno-mem0";
+ *
+ * const staging = new MemoryClient({ apiKey: Deno.env.get("MEM0_STAGING_KEY")! });
+ * const production = new MemoryClient({ apiKey: Deno.env.get("MEM0_PRODUCTION_KEY")! });
+ *
+ * await backup(staging, "./staging.jsonl", { includeHistory: true });
+ * const report = await restore("./staging.jsonl", { targetClient: production });
+ * console.log(`${report.restored} restored, ${report.failed.length} failed`);
+ * ```
+ */
+
+import { Mem0Error } from "./error.ts";
+import type { MemoryClient } from "./client.ts";
+import type {
+  AddManyItem,
+  Memory,
+  MemoryHistory,
+  MemoryOptions,
+  RequestOptions,
+  User,
+} from "./types.ts";
+
+/** Archive format identifier written to the header record. */
+const ARCHIVE_FORMAT = "mem0-backup";
+
+/** Current archive format version. */
+const ARCHIVE_VERSION = 1;
+
+/** Entity ID parameter for each entity type returned by `users()`. */
+const ENTITY_PARAMS: Record<string, "user_id" | "agent_id" | "app_id" | "run_id"> = {
+  user: "user_id",
+  agent: "agent_id",
+  app: "app_id",
+  run: "run_id",
+};
+
+type ArchiveRecord =
+  | { type: "header"; format: string; version: number; created_at: string }
+  | { type: "entity"; entity: User }
+  | { type: "memory"; memory: Memory }
+  | { type: "history"; memory_id: string; history: Array<MemoryHistory> }
+  | { type: "footer"; entities: number; memories: number; history: number };
+
+/**
+ * Options for {@link backup}.
+ */
+export interface BackupOptions {
+  /** Also fetch and store the change history of every memory (default: false) */
+  includeHistory?: boolean;
+  /** Number of memories requested per page (default: 100) */
+  pageSize?: number;
+  /** Called after each memory is written */
+  onProgress?: (progress: BackupSummary) => void;
+}
+
+/**
+ * Counts of what a backup archive contains.
+ */
+export interface BackupSummary {
+  /** Number of users, agents, apps and runs */
+  entities: number;
+  /** Number of distinct memories */
+  memories: number;
+  /** Number of history entries */
+  history: number;
+}
+
+/**
+ * Options for {@link restore}.
+ */
+export interface RestoreOptions {
+  /** Client for the project the memories are restored into */
+  targetClient: MemoryClient;
+  /**
+   * Old-to-new IDs of memories restored by an earlier run. These memories are
+   * skipped and carried into the returned map, so an interrupted restore can
+   * be resumed with the map from its report.
+   */
+  idMapping?: Record<string, string>;
+  /** Validate the archive and count what would be restored without adding anything */
+  dryRun?: boolean;
+  /** Maximum number of add requests in flight at once (default: 4) */
+  concurrency?: number;
+  /** Maximum number of add requests started per second (default: unlimited) */
+  rateLimit?: number;
+  /** Called after each memory is restored or fails */
+  onProgress?: (progress: RestoreProgress) => void;
+}
+
+/**
+ * Progress of a restore, reported after each memory.
+ */
+export interface RestoreProgress {
+  /** Number of memories restored in this run */
+  restored: number;
+  /** Number of memories that failed in this run */
+  failed: number;
+  /** Number of memories skipped because `idMapping` already has them */
+  skipped: number;
+}
+
+/**
+ * Outcome of a restore.
+ */
+export interface RestoreReport {
+  /** Old-to-new memory IDs, including those passed in `idMapping` */
+  idMap: Record<string, string>;
+  /** Number of memories restored, or that would be restored in a dry run */
+  restored: number;
+  /** Number of memories skipped because `idMapping` already had them */
+  skipped: number;
+  /** Old IDs of the memories that could not be restored, with their errors */
+  failed: Array<{ id: string; error: Error }>;
+  /** Whether this was a dry run */
+  dryRun: boolean;
+  /** Counts recorded in the archive footer */
+  archive: BackupSummary;
+}
+
+/**
+ * Writes every memory in the client's project to a JSONL archive.
+ *
+ * The archive is written to a temporary file and renamed into place once
+ * complete, so a failed backup never leaves a partial archive at `path`.
+ *
+ * @param client - Client for the project to back up
+ * @param path - Destination archive file; overwritten if it exists
+ * @param options - History, page size and progress callback
+ * @param requestOptions - Per-call options applied to every request
+ * @returns Counts of the entities, memories and history entries written
+ * @throws {APIError} When the API returns a non-OK response
+ */
+export async function backup(
+  client: MemoryClient,
+  path: string,
+  options: BackupOptions = {},
+  requestOptions: RequestOptions = {},
+): Promise<BackupSummary> {
+  const summary: BackupSummary = { entities: 0, memories: 0, history: 0 };
+  // A memory shared by several entities is listed under each, but archived once.
+  const seen = new Set<string>();
+
+  const temporary = `${path}.tmp`;
+  const file = await Deno.open(temporary, { write: true, create: true, truncate: true });
+  const writer = file.writable.getWriter();
+  const encoder = new TextEncoder();
+  const write = (record: ArchiveRecord): Promise<void> =>
+    writer.write(encoder.encode(`${JSON.stringify(record)}\n`));
+
+  try {
+    await write({
+      type: "header",
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      created_at: new Date().toISOString(),
+    });
+
+    for await (const entity of client.iterateUsers(requestOptions)) {
+      await write({ type: "entity", entity });
+      summary.entities++;
+
+      const param = ENTITY_PARAMS[entity.type];
+      if (!param) {
+        continue;
+      }
+      const memories = client.iterateAll(
+        { [param]: entity.name, page_size: options.pageSize },
+        requestOptions,
+      );
+      for await (const memory of memories) {
+        if (seen.has(memory.id)) {
+          continue;
+        }
+        seen.add(memory.id);
+        await write({ type: "memory", memory });
+        summary.memories++;
+
+        if (options.includeHistory) {
+          const history = await client.history(memory.id, requestOptions);
+          await write({ type: "history", memory_id: memory.id, history });
+          summary.history += history.length;
+        }
+        options.onProgress?.({ ...summary });
+      }
+    }
+
+    await write({ type: "footer", ...summary });
+    await writer.close();
+  } catch (error) {
+    await writer.abort(error).catch(() => {});
+    await Deno.remove(temporary).catch(() => {});
+    throw error;
+  }
+
+  await Deno.rename(temporary, path);
+  return summary;
+}
+
+/**
+ * Replays the memories in a backup archive into the target client's project.
+ *
+ * Each memory is added with `infer: false`, so its text is stored verbatim,
+ * together with its entity IDs, metadata and original creation time.
+ * History records are kept in the archive for reference but cannot be
+ * replayed. The archive is checked in full before anything is added.
+ *
+ * @param archive - Path of an archive written by {@link backup}
+ * @param options - Target client, earlier ID map, dry run, concurrency and progress callback
+ * @param requestOptions - Per-call options applied to every add request
+ * @returns Old-to-new ID map, counts and the memories that failed
+ * @throws {Mem0Error} When the archive is unreadable, truncated or of an unsupported version
+ * @throws {InvalidArgumentError} When concurrency or rateLimit is not positive
+ * @throws {AbortError} When the caller aborts the restore
+ */
+export async function restore(
+  archive: string,
+  options: RestoreOptions,
+  requestOptions: RequestOptions = {},
+): Promise<RestoreReport> {
+  const idMap = { ...options.idMapping };
+  const archived = await verifyArchive(archive);
+  const report: RestoreReport = {
+    idMap,
+    restored: 0,
+    skipped: 0,
+    failed: [],
+    dryRun: options.dryRun ?? false,
+    archive: archived,
+  };
+
+  if (report.dryRun) {
+    for await (const record of readArchive(archive)) {
+      if (record.type === "memory" && record.memory.id in idMap) {
+        report.skipped++;
+      } else if (record.type === "memory") {
+        report.restored++;
+      }
+    }
+    return report;
+  }
+
+  // addMany reports results by input position, so keep the old ID of each position.
+  const oldIds: Array<string> = [];
+  async function* items(): AsyncGenerator<AddManyItem> {
+    for await (const record of readArchive(archive)) {
+      if (record.type !== "memory") {
+        continue;
+      }
+      if (record.memory.id in idMap) {
+        report.skipped++;
+        continue;
+      }
+      oldIds.push(record.memory.id);
+      yield toAddItem(record.memory);
+    }
+  }
+
+  const results = options.targetClient.addMany(
+    items(),
+    { concurrency: options.concurrency, rateLimit: options.rateLimit },
+    requestOptions,
+  );
+  for await (const result of results) {
+    const oldId = oldIds[result.index]!;
+    const created = result.status === "succeeded" ? result.memories[0] : undefined;
+    if (created) {
+      idMap[oldId] = created.id;
+      report.restored++;
+    } else {
+      report.failed.push({
+        id: oldId,
+        error: result.status === "failed"
+          ? result.error
+          : new Mem0Error(`Restoring memory ${oldId} did not create a memory`),
+      });
+    }
+    options.onProgress?.({
+      restored: report.restored,
+      failed: report.failed.length,
+      skipped: report.skipped,
+    });
+  }
+  return report;
+}
+
+/**
+ * Builds the add request that recreates an archived memory.
+ */
+function toAddItem(memory: Memory): AddManyItem {
+  const options: MemoryOptions = { infer: false };
+  for (const param of Object.values(ENTITY_PARAMS)) {
+    if (memory[param]) {
+      options[param] = memory[param]!;
+    }
+  }
+  if (memory.metadata) {
+    options.metadata = memory.metadata;
+  }
+  if (memory.created_at) {
+    options.timestamp = Math.floor(new Date(memory.created_at).getTime() / 1000);
+  }
+  return {
+    messages: [{ role: "user", content: memory.memory ?? memory.data?.memory ?? "" }],
+    options,
+  };
+}
+
+/**
+ * Reads an archive end to end, checking its header, record types and footer.
+ *
+ * @returns The counts recorded in the footer
+ */
+async function verifyArchive(path: string): Promise<BackupSummary> {
+  let first = true;
+  let footer: BackupSummary | undefined;
+  for await (const record of readArchive(path)) {
+    if (first) {
+      if (record.type !== "header" || record.format !== ARCHIVE_FORMAT) {
+        throw new Mem0Error(`${path} is not a Mem0 backup archive`);
+      }
+      if (record.version !== ARCHIVE_VERSION) {
+        throw new Mem0Error(`${path} has unsupported archive version ${record.version}`);
+      }
+      first = false;
+    } else if (footer) {
+      throw new Mem0Error(`${path} has records after its footer`);
+    } else if (record.type === "footer") {
+      footer = { entities: record.entities, memories: record.memories, history: record.history };
+    } else if (!["entity", "memory", "history"].includes(record.type)) {
+      throw new Mem0Error(`${path} has an unknown record type "${record.type}"`);
+    }
+  }
+  if (!footer) {
+    throw new Mem0Error(`${path} is truncated: no footer record`);
+  }
+  return footer;
+}
+
+/**
+ * Streams the records of an archive, one line at a time.
+ */
+async function* readArchive(path: string): AsyncGenerator<ArchiveRecord> {
+  let file: Deno.FsFile;
+  try {
+    file = await Deno.open(path);
+  } catch (cause) {
+    throw new Mem0Error(`Backup archive ${path} could not be read`, { cause });
+  }
+
+  let buffered = "";
+  let line = 0;
+  const parse = (text: string): ArchiveRecord => {
+    try {
+      return JSON.parse(text) as ArchiveRecord;
+    } catch (cause) {
+      throw new Mem0Error(`${path} line ${line} is not valid JSON`, { cause });
+    }
+  };
+
+  for await (const chunk of file.readable.pipeThrough(new TextDecoderStream())) {
+    buffered += chunk;
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    for (const text of lines) {
+      line++;
+      if (text.trim() !== "") {
+        yield parse(text);
+      }
+    }
+  }
+  line++;
+  if (buffered.trim() !== "") {
+    yield parse(buffered);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * @module
+ * Concurrency, rate limiting and checkpoint helpers used by bulk client operations.
+ */
+
+import { Mem0Error } from "./error.ts";
+import { sleep } from "./retry.ts";
+
+type Settled<R> =
+  | { key: number; ok: true; value: R }
+  | { key: number; ok: false; error: unknown };
+
+/**
+ * Maps items through an async function with at most `concurrency` calls in flight.
+ *
+ * The source is pulled lazily, so very large or unbounded iterables can be
+ * processed in constant memory. Results are yielded in completion order. If
+ * `fn` rejects, the error is thrown from the generator once it is reached.
+ */
+export async function* mapConcurrent<T, R>(
+  source: Iterable<T> | AsyncIterable<T>,
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): AsyncGenerator<R> {
+  const iterator = Symbol.asyncIterator in source
+    ? source[Symbol.asyncIterator]()
+    : (source as Iterable<T>)[Symbol.iterator]();
+  const running = new Map<number, Promise<Settled<R>>>();
+  let key = 0;
+  let exhausted = false;
+
+  try {
+    while (true) {
+      while (!exhausted && running.size < concurrency) {
+        const next = await iterator.next();
+        if (next.done) {
+          exhausted = true;
+          break;
+        }
+        const current = key++;
+        running.set(
+          current,
+          fn(next.value).then(
+            (value): Settled<R> => ({ key: current, ok: true, value }),
+            (error): Settled<R> => ({ key: current, ok: false, error }),
+          ),
+        );
+      }
+      if (running.size === 0) {
+        return;
+      }
+
+      const settled = await Promise.race(running.values());
+      running.delete(settled.key);
+      if (!settled.ok) {
+        throw settled.error;
+      }
+      yield settled.value;
+    }
+  } finally {
+    if (!exhausted) {
+      await iterator.return?.();
+    }
+  }
+}
+
+/**
+ * Creates a limiter that spaces calls evenly to at most `perSecond` per second.
+ *
+ * Each call to the returned function resolves when the caller may proceed.
+ */
+export function createRateLimiter(perSecond: number): (signal?: AbortSignal) => Promise<void> {
+  const interval = 1000 / perSecond;
+  let nextSlot = 0;
+  return async (signal) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + interval;
+    if (slot > now) {
+      await sleep(slot - now, signal);
+    }
+  };
+}
+
+/**
+ * Tracks which input indices have completed, persisted to a JSON file.
+ *
+ * Indices below `watermark` are all complete; `completed` holds the ones
+ * finished out of order above it, so the file stays small however many
+ * items are processed.
+ */
+export class Checkpoint {
+  #path: string;
+  #watermark: number;
+  #completed: Set<number>;
+  #writing: Promise<void> = Promise.resolve();
+
+  private constructor(path: string, watermark: number, completed: Array<number>) {
+    this.#path = path;
+    this.#watermark = watermark;
+    this.#completed = new Set(completed);
+  }
+
+  /**
+   * Loads a checkpoint file, or starts an empty one if it does not exist.
+   *
+   * @throws {Mem0Error} When the file is not valid JSON or not a checkpoint
+   */
+  static async load(path: string): Promise<Checkpoint> {
+    let text: string;
+    try {
+      text = await Deno.readTextFile(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return new Checkpoint(path, 0, []);
+      }
+      throw error;
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (cause) {
+      throw new Mem0Error(`Checkpoint ${path} could not be read as JSON`, { cause });
+    }
+    const { watermark, completed } = (data ?? {}) as Record<string, unknown>;
+    const isIndex = (value: unknown): value is number =>
+      Number.isInteger(value) && value as number >= 0;
+    if (
+      typeof data !== "object" || data === null || !isIndex(watermark) ||
+      !Array.isArray(completed) || !completed.every(isIndex)
+    ) {
+      throw new Mem0Error(
+        `Checkpoint ${path} is not a checkpoint file: expected a non-negative integer ` +
+          "watermark and an array of completed indices",
+      );
+    }
+    return new Checkpoint(path, watermark, completed);
+  }
+
+  /** Whether the item at `index` completed in an earlier run. */
+  has(index: number): boolean {
+    return index < this.#watermark || this.#completed.has(index);
+  }
+
+  /** Marks the item at `index` as complete and schedules a write. */
+  complete(index: number): Promise<void> {
+    this.#completed.add(index);
+    while (this.#completed.delete(this.#watermark)) {
+      this.#watermark++;
+    }
+    const snapshot = JSON.stringify({
+      version: 1,
+      watermark: this.#watermark,
+      completed: [...this.#completed].sort((a, b) => a - b),
+    });
+    // Writes are chained so an older snapshot never overwrites a newer one.
+    this.#writing = this.#writing.then(async () => {
+      const temporary = `${this.#path}.tmp`;
+      await Deno.writeTextFile(temporary, `${snapshot}\n`);
+      await Deno.rename(temporary, this.#path);
+    });
+    return this.#writing;
+  }
+
+  /** Waits for pending writes to finish. */
+  flush(): Promise<void> {
+    return this.#writing;
+  }
+}
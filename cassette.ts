@@ -0,0 +1,372 @@
+/**
+ * @module
+ * Record-and-replay HTTP fixtures ("cassettes") for MemoryClient tests.
+ *
+ * In `record` mode a {@link Cassette} forwards requests to the real API and
+ * stores every request/response pair, with credentials scrubbed, in a JSON
+ * file. In `replay` mode it answers requests from that file without touching
+ * the network, and fails loudly on any request it has no recording for.
+ *
+ * @example
+ * ```ts
+ * import { MemoryClient } from "sdk-deno-mem0";
+ * import { Cassette } from "sdk-deno-mem0/testing";
+ *
+ * const cassette = await Cassette.open("tests/fixtures/search.json", {
+ *   mode: Deno.env.get("MEM0_RECORD") ? "record" : "replay",
+ *   apiKey: Deno.env.get("MEM0_API_KEY"),
+ * });
+ * const client = new MemoryClient({
+ *   apiKey: Deno.env.get("MEM0_API_KEY") ?? "replay",
+ *   fetch: cassette.fetch,
+ * });
+ *
+ * await client.search("travel plans", { user_id: "alice" });
+ * await cassette.close();
+ * ```
+ */
+
+import { Mem0Error } from "./error.ts";
+import type { FetchFunction } from "./types.ts";
+
+/** Placeholder written in place of scrubbed values. */
+const REDACTED = "[REDACTED]";
+
+/** Headers never written to a cassette. */
+const SENSITIVE_HEADERS = ["authorization", "cookie", "set-cookie"];
+
+/**
+ * A recorded request, stored without its host so it replays against any host.
+ */
+export interface CassetteRequest {
+  /** HTTP method */
+  method: string;
+  /** Path and query string, e.g. `/v1/memories/?user_id=alice` */
+  path: string;
+  /** Parsed JSON body, raw text for non-JSON bodies, or null when empty */
+  body: unknown;
+}
+
+/**
+ * A recorded response.
+ */
+export interface CassetteResponse {
+  /** HTTP status code */
+  status: number;
+  /** Response headers, minus sensitive ones */
+  headers: Record<string, string>;
+  /** Parsed JSON body, raw text for non-JSON bodies, or null when empty */
+  body: unknown;
+}
+
+/**
+ * One request/response pair.
+ */
+export interface CassetteInteraction {
+  /** Request as sent by the client */
+  request: CassetteRequest;
+  /** Response as returned by the server */
+  response: CassetteResponse;
+}
+
+/**
+ * Controls which parts of a request must match a recording during replay.
+ */
+export interface CassetteMatchOptions {
+  /** Compare HTTP methods (default: true) */
+  method?: boolean;
+  /** Compare paths, excluding the query string (default: true) */
+  path?: boolean;
+  /** Compare query strings, ignoring parameter order (default: true) */
+  query?: boolean;
+  /**
+   * How to compare bodies (default: "exact"). `"subset"` matches when every
+   * field of the recorded body appears with the same value in the request.
+   */
+  body?: "exact" | "subset" | false;
+}
+
+/**
+ * Configuration options for {@link Cassette.open}.
+ */
+export interface CassetteOptions {
+  /** `record` calls the real API and saves the interactions; `replay` serves them from the file */
+  mode: "record" | "replay";
+  /** API key to scrub from URLs and bodies when recording */
+  apiKey?: string;
+  /**
+   * JSON fields, query parameters and headers whose values are replaced with
+   * `[REDACTED]`. Scrubbed body fields match any value during replay.
+   */
+  scrub?: Array<string>;
+  /** Request matching rules for replay */
+  match?: CassetteMatchOptions;
+  /** Fetch implementation used to reach the API when recording (default: global `fetch`) */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Thrown during replay when a request has no matching recorded interaction.
+ */
+export class CassetteMismatchError extends Mem0Error {
+  /** The unmatched request, scrubbed like a recording */
+  readonly request: CassetteRequest;
+
+  /**
+   * Creates a new CassetteMismatchError instance.
+   *
+   * @param request - The unmatched request
+   * @param cassettePath - Path of the cassette file
+   */
+  constructor(request: CassetteRequest, cassettePath: string) {
+    super(
+      `No recorded interaction in ${cassettePath} matches ${request.method} ${request.path}` +
+        (request.body === null ? "" : ` with body ${JSON.stringify(request.body)}`),
+      { method: request.method, url: request.path },
+    );
+    this.name = "CassetteMismatchError";
+    this.request = request;
+  }
+}
+
+/**
+ * Records or replays the HTTP interactions of a MemoryClient.
+ *
+ * Pass {@link Cassette.fetch} as `ClientOptions.fetch`. Each recorded
+ * interaction is replayed at most once, in recording order, so repeated
+ * identical requests receive their responses in sequence.
+ */
+export class Cassette {
+  /**
+   * `fetch`-compatible handler to pass as `ClientOptions.fetch`.
+   */
+  readonly fetch: FetchFunction;
+
+  #path: string;
+  #mode: "record" | "replay";
+  #apiKey: string | undefined;
+  #scrub: Set<string>;
+  #match: Required<CassetteMatchOptions>;
+  #upstream: FetchFunction;
+  #interactions: Array<CassetteInteraction>;
+  #played = new Set<number>();
+
+  private constructor(
+    path: string,
+    options: CassetteOptions,
+    interactions: Array<CassetteInteraction>,
+  ) {
+    this.#path = path;
+    this.#mode = options.mode;
+    this.#apiKey = options.apiKey;
+    this.#scrub = new Set((options.scrub ?? []).map((name) => name.toLowerCase()));
+    this.#match = {
+      method: options.match?.method ?? true,
+      path: options.match?.path ?? true,
+      query: options.match?.query ?? true,
+      body: options.match?.body ?? "exact",
+    };
+    this.#upstream = options.fetch ?? ((input, init) => fetch(input, init));
+    this.#interactions = interactions;
+    this.fetch = (input, init) =>
+      this.#mode === "record"
+        ? this.#record(new Request(input, init))
+        : this.#replay(new Request(input, init));
+  }
+
+  /**
+   * Opens a cassette file.
+   *
+   * In `replay` mode the file must exist. In `record` mode it is created, or
+   * overwritten, when the cassette is closed.
+   *
+   * @param path - Path of the JSON cassette file
+   * @param options - Mode, scrubbing and matching rules
+   * @throws {Mem0Error} When replaying a cassette that is missing or malformed
+   */
+  static async open(path: string, options: CassetteOptions): Promise<Cassette> {
+    if (options.mode === "record") {
+      return new Cassette(path, options, []);
+    }
+
+    let text: string;
+    try {
+      text = await Deno.readTextFile(path);
+    } catch (cause) {
+      throw new Mem0Error(`Cassette ${path} could not be read; record it first`, { cause });
+    }
+    let parsed: { interactions?: unknown };
+    try {
+      parsed = JSON.parse(text);
+    } catch (cause) {
+      throw new Mem0Error(`Cassette ${path} is not valid JSON`, { cause });
+    }
+    if (!Array.isArray(parsed?.interactions)) {
+      throw new Mem0Error(`Cassette ${path} has no interactions array`);
+    }
+    return new Cassette(path, options, parsed.interactions as Array<CassetteInteraction>);
+  }
+
+  /**
+   * Recorded interactions, in order.
+   */
+  get interactions(): Array<CassetteInteraction> {
+    return structuredClone(this.#interactions);
+  }
+
+  /**
+   * Finishes the session. In `record` mode, writes the interactions to the cassette file.
+   */
+  async close(): Promise<void> {
+    if (this.#mode === "record") {
+      const content = JSON.stringify({ version: 1, interactions: this.#interactions }, null, 2);
+      await Deno.writeTextFile(this.#path, `${content}\n`);
+    }
+  }
+
+  async #record(request: Request): Promise<Response> {
+    const recorded = await this.#describe(request.clone());
+    const response = await this.#upstream(request);
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!SENSITIVE_HEADERS.includes(name)) {
+        headers[name] = this.#scrub.has(name) ? REDACTED : value;
+      }
+    });
+    this.#interactions.push({
+      request: recorded,
+      response: {
+        status: response.status,
+        headers,
+        body: this.#scrubValue(parseBody(await response.clone().text())),
+      },
+    });
+    return response;
+  }
+
+  async #replay(request: Request): Promise<Response> {
+    const actual = await this.#describe(request);
+    const index = this.#interactions.findIndex((interaction, i) =>
+      !this.#played.has(i) && this.#matches(interaction.request, actual)
+    );
+    if (index === -1) {
+      throw new CassetteMismatchError(actual, this.#path);
+    }
+    this.#played.add(index);
+
+    const { response } = this.#interactions[index]!;
+    const body = response.body === null
+      ? null
+      : typeof response.body === "string"
+      ? response.body
+      : JSON.stringify(response.body);
+    return new Response(body, { status: response.status, headers: response.headers });
+  }
+
+  /**
+   * Converts a request into its scrubbed, host-independent recorded form.
+   */
+  async #describe(request: Request): Promise<CassetteRequest> {
+    const url = new URL(request.url);
+    for (const name of [...url.searchParams.keys()]) {
+      if (this.#scrub.has(name.toLowerCase())) {
+        url.searchParams.set(name, REDACTED);
+      }
+    }
+    return {
+      method: request.method,
+      path: this.#scrubString(`${url.pathname}${url.search}`),
+      body: this.#scrubValue(parseBody(await request.text())),
+    };
+  }
+
+  #matches(recorded: CassetteRequest, actual: CassetteRequest): boolean {
+    const recordedUrl = new URL(recorded.path, "http://cassette");
+    const actualUrl = new URL(actual.path, "http://cassette");
+
+    if (this.#match.method && recorded.method !== actual.method) {
+      return false;
+    }
+    if (this.#match.path && recordedUrl.pathname !== actualUrl.pathname) {
+      return false;
+    }
+    if (this.#match.query && !sameQuery(recordedUrl.searchParams, actualUrl.searchParams)) {
+      return false;
+    }
+    switch (this.#match.body) {
+      case "exact":
+        return isEqual(recorded.body, actual.body);
+      case "subset":
+        return isSubset(recorded.body, actual.body);
+      case false:
+        return true;
+    }
+  }
+
+  #scrubString(value: string): string {
+    return this.#apiKey ? value.split(this.#apiKey).join(REDACTED) : value;
+  }
+
+  #scrubValue(value: unknown): unknown {
+    if (typeof value === "string") {
+      return this.#scrubString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.#scrubValue(item));
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map((
+          [key, item],
+        ) => [key, this.#scrub.has(key.toLowerCase()) ? REDACTED : this.#scrubValue(item)]),
+      );
+    }
+    return value;
+  }
+}
+
+function parseBody(text: string): unknown {
+  if (text === "") {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function sameQuery(recorded: URLSearchParams, actual: URLSearchParams): boolean {
+  const normalize = (params: URLSearchParams): string =>
+    [...params].map(([key, value]) => `${key}=${value}`).sort().join("&");
+  return normalize(recorded) === normalize(actual);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return isSubset(a, b) && isSubset(b, a);
+}
+
+/**
+ * Whether every field of `expected` appears with an equal value in `actual`.
+ * Arrays must have the same length and match element by element.
+ */
+function isSubset(expected: unknown, actual: unknown): boolean {
+  // A scrubbed value was unknown at recording time, so it matches anything.
+  if (expected === REDACTED || actual === REDACTED) {
+    return true;
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.length === actual.length &&
+      expected.every((item, index) => isSubset(item, actual[index]));
+  }
+  if (expected !== null && typeof expected === "object") {
+    if (actual === null || typeof actual !== "object" || Array.isArray(actual)) {
+      return false;
+    }
+    return Object.entries(expected).every(([key, value]) =>
+      isSubset(value, (actual as Record<string, unknown>)[key])
+    );
+  }
+  return Object.is(expected, actual);
+}
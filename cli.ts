@@ -0,0 +1,560 @@
+/**
+ * @module
+ * Command-line tool for everyday memory administration.
+ *
+ * ```bash
+ * export MEM0_API_KEY=m0-...
+ * deno run -A jsr:@yigitkonur/sdk-deno-mem0/cli search "travel plans" --user alice
+ * deno run -A jsr:@yigitkonur/sdk-deno-mem0/cli delete-all --user alice --dry-run
+ * ```
+ *
+ * The client is configured from `MEM0_API_KEY`, `MEM0_HOST`, `MEM0_ORG_ID`
+ * and `MEM0_PROJECT_ID`. Results are printed as tables, or as JSON with
+ * `--json`. Destructive commands ask for confirmation unless `--yes` is given.
+ *
+ * {@link main} runs one command and resolves to its exit code, so the tool
+ * can also be embedded or driven from tests.
+ */
+
+import { MemoryClient } from "./client.ts";
+import { Mem0Error } from "./error.ts";
+import { details, table } from "./format.ts";
+import { McpServer } from "./mcp.ts";
+import { readProjectConfig } from "./project.ts";
+import { runShell } from "./shell.ts";
+import { Feedback } from "./types.ts";
+import type { FetchFunction, MemoryScope, ProjectConfig } from "./types.ts";
+
+const USAGE = `Usage: mem0 <command> [arguments] [options]
+
+Commands:
+  ping                                 check the API key and connection
+  add <text...>                        add a memory from text
+  search <query...>                    search memories
+  list                                 list memories, one page at a time
+  get <memory-id>                      show a memory
+  history <memory-id>                  show a memory's change history
+  delete <memory-id>                   delete a memory
+  delete-all                           delete every memory of an entity, or the whole project
+  users                                list users, agents, apps and runs
+  webhooks list                        list webhooks
+  webhooks create --name --url --events memory_add,memory_update
+  webhooks delete <webhook-id>         delete a webhook
+  project get                          show custom instructions and categories
+  project set --file <config.json>     plan and apply a project config
+  project set --instructions <text>    replace the custom instructions
+  export --filters <json>              export memories; --schema <json>, --out <path>, --format json|jsonl
+  feedback <memory-id> <positive|negative|very-negative> [--reason <text>]
+  shell --user <id>                    explore one user's memories interactively
+  mcp [--user <id>] [--read-only]      serve memory tools over MCP on stdio; --port <n> for HTTP
+
+Options:
+  --user, --agent, --app, --run <id>   entity to work on
+  --limit <n>                          search results to return
+  --page <n>, --page-size <n>          page of memories to list
+  --metadata <json>                    metadata for add
+  --no-infer                           store add text verbatim
+  --dry-run                            show what delete-all would delete
+  --read-only                          only offer mcp tools that read memories
+  --host <address>                     address mcp --port listens on (default: 127.0.0.1)
+  --allow-origin <origin,...>          browser origins mcp --port accepts (default: localhost)
+  --json                               print JSON instead of tables
+  -y, --yes                            do not ask before destructive commands
+  -h, --help                           show this help
+
+Environment: MEM0_API_KEY (required), MEM0_HOST, MEM0_ORG_ID, MEM0_PROJECT_ID,
+  MEM0_HISTORY_FILE (shell history, default ~/.mem0_shell_history)`;
+
+/** Flags that take no value. */
+const BOOLEAN_FLAGS = new Set(["json", "yes", "help", "dry-run", "no-infer", "read-only"]);
+
+/** Single-letter aliases for boolean flags. */
+const SHORT_FLAGS: Record<string, string> = { y: "yes", h: "help" };
+
+/** Entity flags and the memory option each sets. */
+const ENTITY_FLAGS: Record<string, keyof MemoryScope> = {
+  user: "user_id",
+  agent: "agent_id",
+  app: "app_id",
+  run: "run_id",
+};
+
+/**
+ * Environment and I/O used by {@link main}, replaceable for embedding and tests.
+ */
+export interface CliOptions {
+  /** Reads an environment variable (default: `Deno.env.get`) */
+  env?: (name: string) => string | undefined;
+  /** Writes a line of output (default: standard output) */
+  stdout?: (text: string) => void;
+  /** Writes a line of diagnostics (default: standard error) */
+  stderr?: (text: string) => void;
+  /** Asks a yes/no question (default: the global `confirm`) */
+  confirm?: (question: string) => boolean | Promise<boolean>;
+  /** Shows a prompt and reads a line for `shell` (default: the global `prompt`) */
+  readLine?: (prompt: string) => string | null | Promise<string | null>;
+  /** Fetch implementation passed to the client */
+  fetch?: FetchFunction;
+}
+
+/** Thrown for malformed command lines; reported with the usage text. */
+class UsageError extends Error {}
+
+interface Command {
+  client: MemoryClient;
+  args: Array<string>;
+  flags: Map<string, string | true>;
+  options: Required<Omit<CliOptions, "fetch">>;
+  env: (name: string) => string | undefined;
+}
+
+/**
+ * Runs one CLI command.
+ *
+ * @param args - Command-line arguments, e.g. `Deno.args`
+ * @param options - Environment and I/O overrides
+ * @returns The exit code: 0 on success, 1 when the command fails or is
+ * declined, 2 for usage and configuration errors
+ */
+export async function main(args: Array<string>, options: CliOptions = {}): Promise<number> {
+  const resolved: Required<Omit<CliOptions, "fetch">> = {
+    env: options.env ?? ((name) => Deno.env.get(name)),
+    stdout: options.stdout ?? ((text) => writeLine(Deno.stdout, text)),
+    stderr: options.stderr ?? ((text) => writeLine(Deno.stderr, text)),
+    confirm: options.confirm ?? ((question) => confirm(question)),
+    readLine: options.readLine ?? ((text) => prompt(text)),
+  };
+
+  let parsed: { args: Array<string>; flags: Map<string, string | true> };
+  try {
+    parsed = parseArgs(args);
+  } catch (error) {
+    resolved.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (parsed.flags.has("help")) {
+    resolved.stdout(USAGE);
+    return 0;
+  }
+  if (parsed.args.length === 0) {
+    resolved.stderr(USAGE);
+    return 2;
+  }
+
+  const apiKey = resolved.env("MEM0_API_KEY");
+  if (!apiKey) {
+    resolved.stderr("MEM0_API_KEY is not set");
+    return 2;
+  }
+
+  try {
+    const client = new MemoryClient({
+      apiKey,
+      host: resolved.env("MEM0_HOST") || undefined,
+      organizationId: resolved.env("MEM0_ORG_ID") || undefined,
+      projectId: resolved.env("MEM0_PROJECT_ID") || undefined,
+      fetch: options.fetch,
+    });
+    return await run({ client, ...parsed, options: resolved, env: resolved.env });
+  } catch (error) {
+    if (error instanceof UsageError) {
+      resolved.stderr(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof Mem0Error) {
+      resolved.stderr(`${error.name}: ${error.message}`);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+async function run(command: Command): Promise<number> {
+  const { client, args, flags } = command;
+  const [name, ...rest] = args;
+
+  switch (name) {
+    case "ping": {
+      await client.ping();
+      print(command, { ok: true }, () => "ok");
+      return 0;
+    }
+
+    case "add": {
+      const text = required(rest.join(" "), "add needs the memory text");
+      const memories = await client.add([{ role: "user", content: text }], {
+        ...entityOptions(flags),
+        ...(flags.has("metadata") ? { metadata: jsonFlag(flags, "metadata") } : {}),
+        ...(flags.has("no-infer") ? { infer: false } : {}),
+      });
+      print(command, memories, () => table(memories, ["id", "event", "memory"]));
+      return 0;
+    }
+
+    case "search": {
+      const query = required(rest.join(" "), "search needs a query");
+      const results = await client.search(query, {
+        ...entityOptions(flags),
+        ...(flags.has("limit") ? { limit: numberFlag(flags, "limit") } : {}),
+      });
+      print(command, results, () => table(results, ["id", "score", "memory"]));
+      return 0;
+    }
+
+    case "list": {
+      const page = await client.getPage({
+        ...entityOptions(flags),
+        page: flags.has("page") ? numberFlag(flags, "page") : 1,
+        page_size: flags.has("page-size") ? numberFlag(flags, "page-size") : 20,
+      });
+      print(
+        command,
+        page,
+        () => `${table(page.results, ["id", "memory", "created_at"])}\n\n${page.count} total`,
+      );
+      return 0;
+    }
+
+    case "get": {
+      const memory = await client.get(required(rest[0], "get needs a memory ID"));
+      print(command, memory, () => details(memory));
+      return 0;
+    }
+
+    case "history": {
+      const history = await client.history(required(rest[0], "history needs a memory ID"));
+      print(
+        command,
+        history,
+        () => table(history, ["event", "old_memory", "new_memory", "created_at"]),
+      );
+      return 0;
+    }
+
+    case "delete": {
+      const memoryId = required(rest[0], "delete needs a memory ID");
+      if (!await confirmed(command, `Delete memory ${memoryId}?`)) {
+        return 1;
+      }
+      print(command, await client.delete(memoryId), (result) => result.message);
+      return 0;
+    }
+
+    case "delete-all": {
+      const entity = entityOptions(flags);
+      if (flags.has("dry-run")) {
+        const preview = await client.deleteAll({ ...entity, dryRun: true });
+        print(command, preview, () =>
+          [
+            `Would delete ${preview.memories.length} memories` +
+            (preview.entities.length ? ` and ${preview.entities.length} entities` : ""),
+            table(preview.memories, ["id", "user_id", "agent_id", "memory"]),
+          ].join("\n\n"));
+        return 0;
+      }
+      const everything = Object.keys(entity).length === 0;
+      const question = everything
+        ? "Delete ALL memories in the project?"
+        : `Delete all memories of ${describe(entity)}?`;
+      if (!await confirmed(command, question)) {
+        return 1;
+      }
+      // The API requires an entity ID to delete memories, so a project-wide
+      // delete removes every entity together with its memories.
+      const result = everything
+        ? await client.deleteUsers({ confirm: "DELETE_ALL" })
+        : await client.deleteAll(entity);
+      print(command, result, () => result.message);
+      return 0;
+    }
+
+    case "users": {
+      const users = await Array.fromAsync(client.iterateUsers());
+      print(command, users, () => table(users, ["type", "name", "total_memories", "created_at"]));
+      return 0;
+    }
+
+    case "webhooks":
+      return await webhooks(command, rest);
+
+    case "project":
+      return await project(command, rest);
+
+    case "export": {
+      // Checked before the export is created, so a bad flag leaves no job behind
+      const format = flags.get("format") ?? "json";
+      if (format !== "json" && format !== "jsonl") {
+        throw new UsageError("--format must be json or jsonl");
+      }
+      const job = await client.createMemoryExport({
+        filters: jsonFlag(flags, "filters"),
+        schema: flags.has("schema") ? jsonFlag(flags, "schema") : { type: "object" },
+      });
+      if (flags.has("out")) {
+        const saved = await job.saveTo(String(flags.get("out")), { format });
+        print(command, saved, () => `Wrote ${saved.records} records to ${saved.path}`);
+      } else {
+        await job.wait();
+        command.options.stdout(JSON.stringify(await job.result(), null, 2));
+      }
+      return 0;
+    }
+
+    case "feedback": {
+      const memoryId = required(rest[0], "feedback needs a memory ID");
+      const value = required(rest[1], "feedback needs positive, negative or very-negative");
+      const feedback = Object.values(Feedback).find((option) =>
+        option === value.toUpperCase().replaceAll("-", "_")
+      );
+      if (!feedback) {
+        throw new UsageError(`Unknown feedback "${value}"`);
+      }
+      const reason = flags.get("reason");
+      const result = await client.feedback({
+        memory_id: memoryId,
+        feedback,
+        ...(typeof reason === "string" ? { feedback_reason: reason } : {}),
+      });
+      print(command, result, () => result.message);
+      return 0;
+    }
+
+    case "shell": {
+      const scope = entityOptions(flags);
+      if (Object.keys(scope).length === 0) {
+        throw new UsageError("shell needs --user, --agent, --app or --run");
+      }
+      const home = command.env("HOME");
+      return await runShell(client, scope, {
+        ...command.options,
+        historyFile: command.env("MEM0_HISTORY_FILE") ??
+          (home ? `${home}/.mem0_shell_history` : null),
+      });
+    }
+
+    case "mcp": {
+      const scope = entityOptions(flags);
+      const origins = flags.get("allow-origin");
+      const server = new McpServer(client, {
+        ...(Object.keys(scope).length > 0 ? { scope } : {}),
+        readOnly: flags.has("read-only"),
+        ...(typeof origins === "string"
+          ? { allowedOrigins: origins.split(",").map((origin) => origin.trim()) }
+          : {}),
+      });
+      if (!flags.has("port")) {
+        await server.serveStdio();
+        return 0;
+      }
+      // Loopback unless --host says otherwise: the server has no authentication
+      // and calls the API with this process's key.
+      const http = Deno.serve({
+        port: numberFlag(flags, "port"),
+        hostname: flags.has("host") ? stringFlag(flags, "host") : "127.0.0.1",
+        onListen: ({ hostname, port }) =>
+          command.options.stderr(`MCP server listening on http://${hostname}:${port}`),
+      }, (request) => server.handleRequest(request));
+      await http.finished;
+      return 0;
+    }
+
+    default:
+      throw new UsageError(`Unknown command "${name}"`);
+  }
+}
+
+async function webhooks(command: Command, args: Array<string>): Promise<number> {
+  const { client, flags } = command;
+  switch (args[0]) {
+    case "list": {
+      const hooks = await client.getWebhooks();
+      print(
+        command,
+        hooks,
+        () => table(hooks, ["webhook_id", "name", "url", "event_types", "is_active"]),
+      );
+      return 0;
+    }
+    case "create": {
+      const events = String(flags.get("events") ?? "");
+      const webhook = await client.createWebhook({
+        name: stringFlag(flags, "name"),
+        url: stringFlag(flags, "url"),
+        eventTypes: events.split(",").map((event) => event.trim()).filter(Boolean),
+      });
+      print(command, webhook, () => details(webhook));
+      return 0;
+    }
+    case "delete": {
+      const webhookId = required(args[1], "webhooks delete needs a webhook ID");
+      if (!await confirmed(command, `Delete webhook ${webhookId}?`)) {
+        return 1;
+      }
+      print(command, await client.deleteWebhook({ webhookId }), (result) => result.message);
+      return 0;
+    }
+    default:
+      throw new UsageError("webhooks needs list, create or delete");
+  }
+}
+
+async function project(command: Command, args: Array<string>): Promise<number> {
+  const { client, flags } = command;
+  switch (args[0]) {
+    case "get": {
+      const settings = await client.getProject({
+        fields: ["custom_instructions", "custom_categories"],
+      });
+      print(command, settings, () => details(settings));
+      return 0;
+    }
+    case "set": {
+      let config: ProjectConfig;
+      if (flags.has("file")) {
+        config = await readProjectConfig(stringFlag(flags, "file"));
+      } else if (flags.has("instructions")) {
+        config = { custom_instructions: stringFlag(flags, "instructions") };
+      } else {
+        throw new UsageError("project set needs --file or --instructions");
+      }
+      const plan = await client.planProject(config);
+      if (!plan.hasChanges) {
+        print(command, plan, () => plan.diff);
+        return 0;
+      }
+      if (!command.flags.has("json")) {
+        command.options.stdout(plan.diff);
+      }
+      if (!await confirmed(command, "Apply these changes?")) {
+        return 1;
+      }
+      const applied = await client.applyProject(plan);
+      print(command, applied, () => "Applied");
+      return 0;
+    }
+    default:
+      throw new UsageError("project needs get or set");
+  }
+}
+
+/**
+ * Splits arguments into positionals and `--flag value` / `--flag=value` pairs.
+ */
+function parseArgs(args: Array<string>): {
+  args: Array<string>;
+  flags: Map<string, string | true>;
+} {
+  const positionals: Array<string> = [];
+  const flags = new Map<string, string | true>();
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (arg === "--") {
+      positionals.push(...args.slice(index + 1));
+      break;
+    }
+    if (/^-[a-z]$/.test(arg)) {
+      const flag = SHORT_FLAGS[arg.slice(1)];
+      if (!flag) {
+        throw new UsageError(`Unknown option ${arg}`);
+      }
+      flags.set(flag, true);
+    } else if (arg.startsWith("--")) {
+      const [flag, inline] = splitOnce(arg.slice(2), "=");
+      if (BOOLEAN_FLAGS.has(flag)) {
+        flags.set(flag, true);
+      } else if (inline !== undefined) {
+        flags.set(flag, inline);
+      } else if (index + 1 < args.length) {
+        flags.set(flag, args[++index]!);
+      } else {
+        throw new UsageError(`--${flag} needs a value`);
+      }
+    } else {
+      positionals.push(arg);
+    }
+  }
+  return { args: positionals, flags };
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
+
+function entityOptions(flags: Map<string, string | true>): MemoryScope {
+  const options: MemoryScope = {};
+  for (const [flag, param] of Object.entries(ENTITY_FLAGS)) {
+    if (flags.has(flag)) {
+      options[param] = stringFlag(flags, flag);
+    }
+  }
+  return options;
+}
+
+function describe(entity: MemoryScope): string {
+  return Object.entries(ENTITY_FLAGS)
+    .filter(([, param]) => entity[param])
+    .map(([flag, param]) => `${flag} ${entity[param]}`)
+    .join(", ");
+}
+
+function required(value: string | undefined, message: string): string {
+  if (!value) {
+    throw new UsageError(message);
+  }
+  return value;
+}
+
+function stringFlag(flags: Map<string, string | true>, flag: string): string {
+  const value = flags.get(flag);
+  if (typeof value !== "string" || value === "") {
+    throw new UsageError(`--${flag} needs a value`);
+  }
+  return value;
+}
+
+function numberFlag(flags: Map<string, string | true>, flag: string): number {
+  const value = Number(stringFlag(flags, flag));
+  if (!Number.isInteger(value) || value < 1) {
+    throw new UsageError(`--${flag} must be a positive integer`);
+  }
+  return value;
+}
+
+function jsonFlag(flags: Map<string, string | true>, flag: string): Record<string, unknown> {
+  const text = stringFlag(flags, flag);
+  try {
+    const value = JSON.parse(text);
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      return value;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new UsageError(`--${flag} must be a JSON object`);
+}
+
+async function confirmed(command: Command, question: string): Promise<boolean> {
+  if (command.flags.has("yes") || await command.options.confirm(question)) {
+    return true;
+  }
+  command.options.stderr("Aborted");
+  return false;
+}
+
+function print<T>(command: Command, value: T, format: (value: T) => string): void {
+  command.options.stdout(
+    command.flags.has("json") ? JSON.stringify(value, null, 2) : format(value),
+  );
+}
+
+function writeLine(file: typeof Deno.stdout, text: string): void {
+  const bytes = new TextEncoder().encode(`${text}\n`);
+  for (let written = 0; written < bytes.length;) {
+    written += file.writeSync(bytes.subarray(written));
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
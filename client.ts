@@ -3,26 +3,137 @@
  * MemoryClient implementation for Mem0 Cloud API.
  */
 
-import { APIError } from "./error.ts";
+import {
+  AbortError,
+  AuthenticationError,
+  BatchError,
+  createAPIError,
+  InvalidArgumentError,
+  Mem0Error,
+  NetworkError,
+  OperationBlockedError,
+  ProjectConflictError,
+  redactUrl,
+  ResponseValidationError,
+  TimeoutError,
+} from "./error.ts";
+import {
+  decodeAllUsers,
+  decodeCreatedExport,
+  decodeMemories,
+  decodeMemory,
+  decodeMemoryEvent,
+  decodeMemoryExport,
+  decodeMemoryHistory,
+  decodeMemoryList,
+  decodeProject,
+  decodeQueuedEvent,
+  type Decoder,
+  decodeUpdatedMemories,
+  decodeWebhook,
+  decodeWebhooks,
+} from "./decode.ts";
+import { Checkpoint, createRateLimiter, mapConcurrent } from "./bulk.ts";
+import { AddJob, ExportJob } from "./jobs.ts";
+import {
+  planProjectChanges,
+  PROJECT_CONFIG_FIELDS,
+  sameProjectConfig,
+  validateProjectConfig,
+} from "./project.ts";
+import { ScopedMemoryClient } from "./scope.ts";
+import {
+  createMemoryToolset,
+  type MemoryToolset,
+  type ToolDefinitionOptions,
+  type ToolDialect,
+  type ToolDialects,
+} from "./tools.ts";
+import {
+  type AttemptFailure,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  retryDelay,
+  sleep,
+} from "./retry.ts";
 import type {
+  AddManyItem,
+  AddManyOptions,
+  AddManyResult,
   AllUsers,
+  BatchChunk,
+  BatchOptions,
+  BatchReport,
   ClientOptions,
   CreateMemoryExportPayload,
+  DeleteAllOptions,
+  DeleteUsersOptions,
+  DeletionPreview,
   FeedbackPayload,
+  FetchFunction,
   GetMemoryExportPayload,
   Memory,
+  MemoryEvent,
+  MemoryExport,
   MemoryHistory,
   MemoryOptions,
+  MemoryScope,
   MemoryUpdateBody,
   Message,
+  Middleware,
+  MiddlewareRequest,
+  Page,
+  ProjectConfig,
   ProjectOptions,
+  ProjectPlan,
   ProjectResponse,
   PromptUpdatePayload,
+  RequestOptions,
+  RetryOptions,
   SearchOptions,
+  SyncWebhooksOptions,
+  User,
   Webhook,
   WebhookPayload,
+  WebhookSpec,
+  WebhookSyncAction,
+  WebhookSyncResult,
 } from "./types.ts";
 
+/** Page size used by {@link MemoryClient.getPage} and the iterators when none is given. */
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Maximum number of items the `/v1/batch/` endpoint accepts per request. */
+const MAX_BATCH_SIZE = 1000;
+
+/** Number of batch chunks sent in parallel when none is given. */
+const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/** Number of add requests sent in parallel by {@link MemoryClient.addMany} when none is given. */
+const DEFAULT_ADD_CONCURRENCY = 4;
+
+/** Entity ID parameter for each entity type returned by `users()`. */
+const ENTITY_ID_PARAMS: Record<string, keyof MemoryScope> = {
+  user: "user_id",
+  agent: "agent_id",
+  app: "app_id",
+  run: "run_id",
+};
+
+/**
+ * Parses an error response body as JSON, falling back to the raw text.
+ */
+function parseErrorBody(text: string, statusText: string): unknown {
+  if (!text) {
+    return statusText;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
 /**
  * Client for interacting with the Mem0 Cloud API.
  *
@@ -56,12 +167,18 @@ export class MemoryClient {
   #projectId: string | number | null;
   #headers: Record<string, string>;
   #timeout: number;
+  #retry: RetryOptions | false | undefined;
+  #decodeResponses: boolean;
+  #fetch: FetchFunction;
+  #middleware: Array<Middleware>;
+  #middlewareReversed: Array<Middleware>;
+  #readOnly: boolean;
 
   /**
    * Creates a new MemoryClient instance.
    *
    * @param options - Configuration options for the client
-   * @throws {Error} When API key is missing, empty, or not a string
+   * @throws {Mem0Error} When API key is missing, empty, or not a string
    *
    * @example
    * ```ts
@@ -84,7 +201,13 @@ export class MemoryClient {
     this.#projectName = options.projectName ?? null;
     this.#organizationId = options.organizationId ?? null;
     this.#projectId = options.projectId ?? null;
-    this.#timeout = 60000;
+    this.#timeout = options.timeoutMs ?? 60000;
+    this.#retry = options.retry;
+    this.#decodeResponses = options.decodeResponses ?? true;
+    this.#fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.#middleware = [...(options.middleware ?? [])];
+    this.#middlewareReversed = [...this.#middleware].reverse();
+    this.#readOnly = options.readOnly ?? false;
 
     this.#headers = {
       Authorization: `Token ${this.#apiKey}`,
@@ -97,13 +220,13 @@ export class MemoryClient {
 
   #validateApiKey(): void {
     if (!this.#apiKey) {
-      throw new Error("Mem0 API key is required");
+      throw new Mem0Error("Mem0 API key is required");
     }
     if (typeof this.#apiKey !== "string") {
-      throw new Error("Mem0 API key must be a string");
+      throw new Mem0Error("Mem0 API key must be a string");
     }
     if (this.#apiKey.trim() === "") {
-      throw new Error("Mem0 API key cannot be empty");
+      throw new Mem0Error("Mem0 API key cannot be empty");
     }
   }
 
@@ -135,32 +258,126 @@ export class MemoryClient {
   async #fetchWithErrorHandling(
     url: string,
     options: RequestInit = {},
+    requestOptions: RequestOptions = {},
+    { idempotent = true, decode }: { idempotent?: boolean; decode?: Decoder<unknown> } = {},
   ): Promise<unknown> {
-    const signal = AbortSignal.timeout(this.#timeout);
+    const policy = resolveRetryPolicy(this.#retry, requestOptions.retry);
+    const method = options.method ?? "GET";
+    const details = { method, url: redactUrl(url, this.#apiKey) };
+    const timeoutMs = requestOptions.timeoutMs ?? this.#timeout;
+    const callerSignal = requestOptions.signal;
+
+    for (let attempt = 1;; attempt++) {
+      if (callerSignal?.aborted) {
+        throw new AbortError({ ...details, cause: callerSignal.reason });
+      }
 
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        ...options,
+      const timeoutSignal = AbortSignal.timeout(timeoutMs);
+      const signal = callerSignal ? AbortSignal.any([callerSignal, timeoutSignal]) : timeoutSignal;
+
+      const headers = new Headers(this.#headers);
+      for (const extra of [options.headers, requestOptions.headers]) {
+        new Headers(extra).forEach((value, key) => headers.set(key, value));
+      }
+
+      let request: MiddlewareRequest = {
+        url,
+        method,
+        headers,
+        body: typeof options.body === "string" ? options.body : undefined,
         signal,
-        headers: {
-          ...this.#headers,
-          ...options.headers,
-        },
-      });
-    } catch (error: unknown) {
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(`Request timeout after ${this.#timeout}ms for ${url}`);
+      };
+      for (const middleware of this.#middleware) {
+        request = (await middleware.onRequest?.({ request, attempt })) ?? request;
+      }
+
+      let error: Mem0Error;
+      let failure: AttemptFailure;
+      try {
+        let response: Response;
+        try {
+          response = await this.#fetch(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            signal: request.signal,
+          });
+        } catch (caught: unknown) {
+          response = await this.#recoverWithMiddleware(request, caught, attempt);
+        }
+
+        for (const middleware of this.#middlewareReversed) {
+          response = (await middleware.onResponse?.({ request, response, attempt })) ?? response;
+        }
+
+        if (response.ok) {
+          const body = await response.json();
+          return decode && this.#decodeResponses ? decode(body, { ...details, body }) : body;
+        }
+
+        const errorText = await response.text();
+        const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+        error = createAPIError(response.status, parseErrorBody(errorText, response.statusText), {
+          ...details,
+          requestId: response.headers.get("X-Request-Id") ?? response.headers.get("Request-Id"),
+          retryAfterMs,
+        });
+        failure = { kind: "status", status: response.status, retryAfterMs };
+      } catch (caught: unknown) {
+        if (callerSignal?.aborted) {
+          throw new AbortError({ ...details, cause: callerSignal.reason });
+        }
+        if (caught instanceof Mem0Error) {
+          throw caught;
+        }
+        if (timeoutSignal.aborted) {
+          error = new TimeoutError(timeoutMs, { ...details, cause: caught });
+          failure = { kind: "timeout" };
+        } else if (caught instanceof SyntaxError) {
+          throw new ResponseValidationError(`body is not valid JSON: ${caught.message}`, {
+            ...details,
+            cause: caught,
+          });
+        } else {
+          const message = caught instanceof Error ? caught.message : String(caught);
+          error = new NetworkError(`Network request failed: ${message}`, {
+            ...details,
+            cause: caught,
+          });
+          failure = { kind: "network" };
+        }
       }
-      throw error;
-    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new APIError(response.status, errorText || response.statusText);
+      const delayMs = retryDelay(policy, attempt, failure, idempotent);
+      if (delayMs === null) {
+        throw error;
+      }
+
+      await policy.onRetry?.({ attempt, delayMs, error, method, url: details.url });
+      try {
+        await sleep(delayMs, callerSignal);
+      } catch {
+        throw new AbortError({ ...details, cause: callerSignal?.reason });
+      }
     }
+  }
 
-    return response.json();
+  /**
+   * Gives `onError` middleware a chance to replace a failed fetch with a response.
+   * Rethrows the original error when no middleware recovers.
+   */
+  async #recoverWithMiddleware(
+    request: MiddlewareRequest,
+    error: unknown,
+    attempt: number,
+  ): Promise<Response> {
+    for (const middleware of this.#middlewareReversed) {
+      const response = await middleware.onError?.({ request, error, attempt });
+      if (response) {
+        return response;
+      }
+    }
+    throw error;
   }
 
   #preparePayload(
@@ -180,6 +397,35 @@ export class MemoryClient {
     return params;
   }
 
+  /**
+   * Throws before anything is sent if the client is read-only.
+   */
+  #assertWritable(operation: string): void {
+    if (this.#readOnly) {
+      throw new OperationBlockedError(operation, "read_only");
+    }
+  }
+
+  /**
+   * Lists every memory belonging to the given entities, each memory once.
+   */
+  async #memoriesOf(
+    entities: Array<User>,
+    requestOptions: RequestOptions,
+  ): Promise<Array<Memory>> {
+    const memories = new Map<string, Memory>();
+    for (const entity of entities) {
+      const param = ENTITY_ID_PARAMS[entity.type];
+      if (!param) {
+        continue;
+      }
+      for await (const memory of this.iterateAll({ [param]: entity.name }, requestOptions)) {
+        memories.set(memory.id, memory);
+      }
+    }
+    return [...memories.values()];
+  }
+
   #addOrgProjectToOptions(options: MemoryOptions): MemoryOptions {
     const result = { ...options };
 
@@ -198,10 +444,70 @@ export class MemoryClient {
     return result;
   }
 
+  /**
+   * Returns a view of this client bound to a user, agent, app or run.
+   *
+   * The view injects the scope into every list, search, add and delete call,
+   * rejects options naming different IDs, and checks that memories addressed
+   * by ID belong to the scope before returning or changing them.
+   *
+   * @param scope - Entity IDs to bind; at least one is required
+   * @returns The scoped client
+   * @throws {InvalidArgumentError} When the scope has no entity ID or an empty one
+   *
+   * @example
+   * ```ts
+   * const alice = client.scope({ user_id: "alice" });
+   * await alice.add(messages);
+   * await alice.deleteAll(); // cannot reach other users' memories
+   * ```
+   */
+  scope(scope: MemoryScope): ScopedMemoryClient {
+    return new ScopedMemoryClient(this, scope);
+  }
+
+  /**
+   * Describes memory operations as tools for LLM function calling, and
+   * returns a dispatcher that runs the calls the model makes.
+   *
+   * The argument schemas are built from the {@link MemoryOptions} and
+   * {@link SearchOptions} fields. With a `scope`, those entity IDs are left
+   * out of the schemas and injected into every call, so the model cannot
+   * choose them; calls that pass them anyway are rejected.
+   *
+   * @param options - Operations to include, output dialect, fixed scope and read-only mode
+   * @returns The tool specs and `executeToolCall`
+   * @throws {InvalidArgumentError} When the scope has no entity ID
+   *
+   * @example
+   * ```ts
+   * const { tools, executeToolCall } = client.toolDefinitions({
+   *   include: ["search", "add", "delete"],
+   *   dialect: "openai",
+   *   scope: { user_id: "alice" },
+   * });
+   *
+   * // Pass `tools` to the model, then for each tool call it returns:
+   * const result = await executeToolCall(call.function.name, call.function.arguments);
+   * ```
+   */
+  toolDefinitions<Dialect extends ToolDialect = "json-schema">(
+    options: ToolDefinitionOptions<Dialect> = {},
+  ): MemoryToolset<ToolDialects[Dialect]> {
+    if (options.scope) {
+      // Fail here rather than on the model's first call
+      this.scope(options.scope);
+    }
+    return createMemoryToolset(this, options);
+  }
+
   /**
    * Checks API connectivity and validates the API key.
    *
-   * @throws {APIError} When the API returns an error or key is invalid
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {ResponseValidationError} When the ping response is not an object
+   * @throws {APIError} When the API returns an error
    *
    * @example
    * ```ts
@@ -209,18 +515,24 @@ export class MemoryClient {
    * console.log("API connection successful!");
    * ```
    */
-  async ping(): Promise<void> {
+  async ping(requestOptions: RequestOptions = {}): Promise<void> {
     const response = (await this.#fetchWithErrorHandling(
       `${this.#host}/v1/ping/`,
       { method: "GET" },
+      requestOptions,
     )) as { status?: string; message?: string; org_id?: string; project_id?: string };
 
+    const details = {
+      method: "GET",
+      url: redactUrl(`${this.#host}/v1/ping/`, this.#apiKey),
+      body: response,
+    };
     if (!response || typeof response !== "object") {
-      throw new APIError(500, "Invalid response format from ping endpoint");
+      throw new ResponseValidationError("ping response is not an object", details);
     }
 
     if (response.status !== "ok") {
-      throw new APIError(401, response.message ?? "API Key is invalid");
+      throw new AuthenticationError(response.message ?? "API Key is invalid", details);
     }
 
     // Update org/project IDs from response if not already set
@@ -235,9 +547,14 @@ export class MemoryClient {
   /**
    * Adds new memories from conversation messages.
    *
+   * With `async_mode: true` the API queues extraction in the background and
+   * this method returns an {@link AddJob} instead of the memories; use its
+   * `wait()` to learn which memories were added, updated or deleted.
+   *
    * @param messages - Array of conversation messages with role and content
    * @param options - Optional parameters including user_id, agent_id, metadata
-   * @returns Array of created Memory objects with IDs
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of created Memory objects with IDs, or an AddJob in async mode
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -250,12 +567,49 @@ export class MemoryClient {
    *   { user_id: "alice", version: "v2" }
    * );
    * console.log(memories[0].id);
+   *
+   * const job = await client.add(messages, { user_id: "alice", async_mode: true });
+   * const event = await job.wait();
    * ```
    */
+  add(
+    messages: Array<Message>,
+    options: MemoryOptions & { async_mode: true },
+    requestOptions?: RequestOptions,
+  ): Promise<AddJob>;
+  /**
+   * Adds new memories from conversation messages and returns the created memories.
+   *
+   * @param messages - Array of conversation messages with role and content
+   * @param options - Optional parameters including user_id, agent_id, metadata
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of created Memory objects with IDs
+   */
+  add(
+    messages: Array<Message>,
+    options?: MemoryOptions & { async_mode?: false },
+    requestOptions?: RequestOptions,
+  ): Promise<Array<Memory>>;
+  /**
+   * Adds new memories, returning an AddJob when `options.async_mode` is true.
+   *
+   * @param messages - Array of conversation messages with role and content
+   * @param options - Optional parameters including user_id, agent_id, metadata
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of created Memory objects, or an AddJob in async mode
+   * @throws {OperationBlockedError} When the client is read-only
+   */
+  add(
+    messages: Array<Message>,
+    options?: MemoryOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<Array<Memory> | AddJob>;
   async add(
     messages: Array<Message>,
     options: MemoryOptions = {},
-  ): Promise<Array<Memory>> {
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory> | AddJob> {
+    this.#assertWritable("add");
     const opts = this.#addOrgProjectToOptions(options);
 
     if (opts.api_version) {
@@ -270,18 +624,171 @@ export class MemoryClient {
         method: "POST",
         body: JSON.stringify(payload),
       },
+      requestOptions,
+      // Queued async_mode acknowledgements are not memories; they are decoded below.
+      { idempotent: false, decode: opts.async_mode ? undefined : decodeMemories },
     );
 
+    if (opts.async_mode) {
+      const queued = decodeQueuedEvent(response, {
+        method: "POST",
+        url: redactUrl(`${this.#host}/v1/memories/`, this.#apiKey),
+      });
+      return new AddJob(this, queued.event_id, queued.message);
+    }
     return response as Array<Memory>;
   }
 
+  /**
+   * Retrieves the status of a background event, such as an `async_mode` add.
+   *
+   * @param eventId - ID of the event
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The event, including the applied operations once it has succeeded
+   * @throws {NotFoundError} When the event does not exist
+   * @throws {APIError} When the API returns a non-OK response
+   *
+   * @example
+   * ```ts
+   * const event = await client.getEvent("evt_123");
+   * console.log(event.status); // "PENDING" | "RUNNING" | "SUCCEEDED" | "FAILED"
+   * ```
+   */
+  async getEvent(eventId: string, requestOptions: RequestOptions = {}): Promise<MemoryEvent> {
+    const response = await this.#fetchWithErrorHandling(
+      `${this.#host}/v1/event/${eventId}/`,
+      { method: "GET" },
+      requestOptions,
+      { decode: decodeMemoryEvent },
+    );
+
+    return response as MemoryEvent;
+  }
+
+  /**
+   * Adds many conversations with bounded concurrency and optional rate limiting.
+   *
+   * Items are pulled lazily from the input, so large iterables and async
+   * streams are processed in constant memory. Results are yielded as each
+   * item completes, which is not necessarily input order. A failed item is
+   * yielded with its error instead of stopping the ingest; only cancellation
+   * through `requestOptions.signal` ends it early. Items added with
+   * `async_mode: true` complete once their background event has succeeded.
+   *
+   * @param items - Iterable or async iterable of conversations to add
+   * @param options - Concurrency, rate limit, checkpoint file and progress callback
+   * @param requestOptions - Per-call options applied to every add request
+   * @returns Async iterator over the result of each item, tagged with its input index
+   * @throws {OperationBlockedError} When the client is read-only
+   * @throws {InvalidArgumentError} When concurrency or rateLimit is not positive
+   * @throws {Mem0Error} When the checkpoint file is corrupt
+   * @throws {AbortError} When the caller aborts the ingest
+   *
+   * @example
+   * ```ts
+   * const failures = [];
+   * for await (const result of client.addMany(transcripts, {
+   *   concurrency: 8,
+   *   rateLimit: 20,
+   *   checkpoint: "./ingest.checkpoint.json",
+   * })) {
+   *   if (result.status === "failed") {
+   *     failures.push(result);
+   *   }
+   * }
+   * ```
+   */
+  async *addMany(
+    items: Iterable<AddManyItem> | AsyncIterable<AddManyItem>,
+    options: AddManyOptions = {},
+    requestOptions: RequestOptions = {},
+  ): AsyncIterableIterator<AddManyResult> {
+    this.#assertWritable("addMany");
+    const concurrency = options.concurrency ?? DEFAULT_ADD_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidArgumentError("concurrency must be a positive integer", {
+        fieldErrors: { concurrency: ["Must be a positive integer."] },
+      });
+    }
+    if (options.rateLimit !== undefined && !(options.rateLimit > 0)) {
+      throw new InvalidArgumentError("rateLimit must be a positive number", {
+        fieldErrors: { rateLimit: ["Must be a positive number."] },
+      });
+    }
+
+    const checkpoint = options.checkpoint ? await Checkpoint.load(options.checkpoint) : null;
+    const throttle = options.rateLimit ? createRateLimiter(options.rateLimit) : null;
+    const progress = { processed: 0, succeeded: 0, failed: 0, skipped: 0 };
+
+    async function* pending(): AsyncGenerator<{ item: AddManyItem; index: number }> {
+      let index = 0;
+      for await (const item of items) {
+        if (checkpoint?.has(index)) {
+          progress.skipped++;
+        } else {
+          yield { item, index };
+        }
+        index++;
+      }
+    }
+
+    const addOne = async (
+      { item, index }: { item: AddManyItem; index: number },
+    ): Promise<AddManyResult> => {
+      try {
+        await throttle?.(requestOptions.signal);
+        const added = await this.add(item.messages, item.options, requestOptions);
+        // Queued items count as done only once their background event has succeeded.
+        const memories = Array.isArray(added)
+          ? added
+          : (await added.wait({}, requestOptions)).results.map((operation) => ({
+            id: operation.id,
+            event: operation.event,
+            memory: operation.memory ?? undefined,
+          }));
+        return { index, status: "succeeded", memories };
+      } catch (error) {
+        // Cancellation ends the whole ingest rather than counting as an item failure.
+        if (error instanceof AbortError) {
+          throw error;
+        }
+        if (requestOptions.signal?.aborted) {
+          throw new AbortError({ cause: requestOptions.signal.reason });
+        }
+        return {
+          index,
+          status: "failed",
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+    };
+
+    try {
+      for await (const result of mapConcurrent(pending(), concurrency, addOne)) {
+        progress.processed++;
+        if (result.status === "succeeded") {
+          progress.succeeded++;
+          await checkpoint?.complete(result.index);
+        } else {
+          progress.failed++;
+        }
+        options.onProgress?.({ ...progress });
+        yield result;
+      }
+    } finally {
+      await checkpoint?.flush();
+    }
+  }
+
   /**
    * Updates an existing memory.
    *
    * @param memoryId - The ID of the memory to update
    * @param data - Object containing text and/or metadata to update
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Updated Memory object
-   * @throws {Error} When neither text nor metadata is provided
+   * @throws {OperationBlockedError} When the client is read-only
+   * @throws {InvalidArgumentError} When neither text nor metadata is provided
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -294,9 +801,13 @@ export class MemoryClient {
   async update(
     memoryId: string,
     data: { text?: string; metadata?: Record<string, unknown> },
+    requestOptions: RequestOptions = {},
   ): Promise<Array<Memory>> {
+    this.#assertWritable("update");
     if (data.text === undefined && data.metadata === undefined) {
-      throw new Error("Either text or metadata must be provided for update.");
+      throw new InvalidArgumentError("Either text or metadata must be provided for update.", {
+        fieldErrors: { text: ["Either text or metadata must be provided."] },
+      });
     }
 
     const response = await this.#fetchWithErrorHandling(
@@ -305,6 +816,8 @@ export class MemoryClient {
         method: "PUT",
         body: JSON.stringify(data),
       },
+      requestOptions,
+      { decode: decodeUpdatedMemories },
     );
 
     return response as Array<Memory>;
@@ -314,6 +827,7 @@ export class MemoryClient {
    * Retrieves a specific memory by ID.
    *
    * @param memoryId - The ID of the memory to retrieve
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns The Memory object
    * @throws {APIError} When the API returns a non-OK response
    *
@@ -323,20 +837,104 @@ export class MemoryClient {
    * console.log(memory.memory);
    * ```
    */
-  async get(memoryId: string): Promise<Memory> {
+  async get(memoryId: string, requestOptions: RequestOptions = {}): Promise<Memory> {
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/v1/memories/${memoryId}/`,
       { method: "GET" },
+      requestOptions,
+      { decode: decodeMemory },
     );
 
     return response as Memory;
   }
 
+  async #fetchMemories(
+    options: SearchOptions,
+    requestOptions: RequestOptions,
+  ): Promise<unknown> {
+    const { api_version, page, page_size, ...otherOptions } = options;
+    const opts = this.#addOrgProjectToOptions(otherOptions);
+
+    const pagination = new URLSearchParams();
+    if (page !== undefined) {
+      pagination.set("page", String(page));
+    }
+    if (page_size !== undefined) {
+      pagination.set("page_size", String(page_size));
+    }
+    const paginationParams = pagination.toString();
+
+    if (api_version === "v2") {
+      const url = paginationParams
+        ? `${this.#host}/v2/memories/?${paginationParams}`
+        : `${this.#host}/v2/memories/`;
+
+      return await this.#fetchWithErrorHandling(
+        url,
+        {
+          method: "POST",
+          body: JSON.stringify(opts),
+        },
+        requestOptions,
+        { decode: decodeMemoryList },
+      );
+    }
+
+    if (opts.filters !== undefined) {
+      throw new InvalidArgumentError("filters require api_version v2", {
+        fieldErrors: { filters: ["Only supported with api_version v2."] },
+      });
+    }
+
+    const params = new URLSearchParams(this.#prepareParams(opts));
+    const url = paginationParams
+      ? `${this.#host}/v1/memories/?${params}&${paginationParams}`
+      : `${this.#host}/v1/memories/?${params}`;
+
+    return await this.#fetchWithErrorHandling(
+      url,
+      {
+        method: "GET",
+      },
+      requestOptions,
+      { decode: decodeMemoryList },
+    );
+  }
+
+  #toPage<T>(response: unknown): Page<T> {
+    if (Array.isArray(response)) {
+      return { count: response.length, next: null, previous: null, results: response as Array<T> };
+    }
+    return response as Page<T>;
+  }
+
+  /**
+   * Resolves a server-provided pagination link against the configured host,
+   * so credentials are never sent to a host other than the one configured.
+   * A link that already carries the host's path prefix (e.g. behind a proxy
+   * at `https://proxy/mem0`) has it stripped so it is not joined twice.
+   */
+  #resolvePageUrl(link: string): string {
+    const url = new URL(link, this.#host);
+    const prefix = new URL(this.#host).pathname.replace(/\/+$/, "");
+    let path = url.pathname;
+    if (prefix && (path === prefix || path.startsWith(`${prefix}/`))) {
+      path = path.slice(prefix.length);
+    }
+    return `${this.#host}${path}${url.search}`;
+  }
+
   /**
    * Retrieves all memories matching the given filters.
    *
+   * When the server returns a paginated envelope, only its `results` are
+   * returned. Use {@link MemoryClient.getPage} to access the page metadata,
+   * or {@link MemoryClient.iterateAll} to walk every page.
+   *
    * @param options - Filter options including user_id, agent_id, pagination
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Array of Memory objects
+   * @throws {InvalidArgumentError} When filters are given without api_version v2
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -352,38 +950,81 @@ export class MemoryClient {
    * });
    * ```
    */
-  async getAll(options: SearchOptions = {}): Promise<Array<Memory>> {
-    const { api_version, page, page_size, ...otherOptions } = options;
-    const opts = this.#addOrgProjectToOptions(otherOptions);
-
-    let paginationParams = "";
-    if (page && page_size) {
-      paginationParams = `page=${page}&page_size=${page_size}`;
-    }
+  async getAll(
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory>> {
+    const response = await this.#fetchMemories(options, requestOptions);
+    return this.#toPage<Memory>(response).results;
+  }
 
-    if (api_version === "v2") {
-      const url = paginationParams
-        ? `${this.#host}/v2/memories/?${paginationParams}`
-        : `${this.#host}/v2/memories/`;
+  /**
+   * Retrieves a single page of memories matching the given filters.
+   *
+   * @param options - Filter options; `page` defaults to 1 and `page_size` to 100
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The page of memories with total count and next/previous links
+   * @throws {InvalidArgumentError} When filters are given without api_version v2
+   * @throws {APIError} When the API returns a non-OK response
+   *
+   * @example
+   * ```ts
+   * const page = await client.getPage({ user_id: "alice", page: 2, page_size: 50 });
+   * console.log(`${page.results.length} of ${page.count} memories`);
+   * ```
+   */
+  async getPage(
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<Page<Memory>> {
+    const response = await this.#fetchMemories(
+      { ...options, page: options.page ?? 1, page_size: options.page_size ?? DEFAULT_PAGE_SIZE },
+      requestOptions,
+    );
+    return this.#toPage<Memory>(response);
+  }
 
-      const response = await this.#fetchWithErrorHandling(url, {
-        method: "POST",
-        body: JSON.stringify(opts),
-      });
+  /**
+   * Iterates over every memory matching the given filters, one page at a time.
+   *
+   * Only one page is held in memory at once, so this is suitable for walking
+   * very large result sets.
+   *
+   * @param options - Filter options; `page` sets the first page and `page_size` the page size (default: 100)
+   * @param requestOptions - Per-call options applied to every page request
+   * @returns Async iterator over Memory objects
+   * @throws {InvalidArgumentError} When filters are given without api_version v2
+   * @throws {APIError} When the API returns a non-OK response
+   *
+   * @example
+   * ```ts
+   * for await (const memory of client.iterateAll({ user_id: "alice" })) {
+   *   console.log(memory.id, memory.memory);
+   * }
+   * ```
+   */
+  async *iterateAll(
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): AsyncIterableIterator<Memory> {
+    const pageSize = options.page_size ?? DEFAULT_PAGE_SIZE;
+    let page = options.page ?? 1;
+
+    while (true) {
+      const response = await this.#fetchMemories(
+        { ...options, page, page_size: pageSize },
+        requestOptions,
+      );
+      const { results, next } = this.#toPage<Memory>(response);
+      yield* results;
 
-      return response as Array<Memory>;
+      // Plain arrays carry no next link, so a short page is taken as the last one.
+      const hasNext = Array.isArray(response) ? results.length === pageSize : next !== null;
+      if (!hasNext || results.length === 0) {
+        return;
+      }
+      page++;
     }
-
-    const params = new URLSearchParams(this.#prepareParams(opts));
-    const url = paginationParams
-      ? `${this.#host}/v1/memories/?${params}&${paginationParams}`
-      : `${this.#host}/v1/memories/?${params}`;
-
-    const response = await this.#fetchWithErrorHandling(url, {
-      method: "GET",
-    });
-
-    return response as Array<Memory>;
   }
 
   /**
@@ -391,6 +1032,7 @@ export class MemoryClient {
    *
    * @param query - The search query string
    * @param options - Search options including filters and thresholds
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Array of Memory objects sorted by relevance
    * @throws {APIError} When the API returns a non-OK response
    *
@@ -410,6 +1052,7 @@ export class MemoryClient {
   async search(
     query: string,
     options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
   ): Promise<Array<Memory>> {
     const { api_version, ...otherOptions } = options;
     const opts = this.#addOrgProjectToOptions(otherOptions);
@@ -423,6 +1066,8 @@ export class MemoryClient {
         method: "POST",
         body: JSON.stringify(payload),
       },
+      requestOptions,
+      { decode: decodeMemories },
     );
 
     return response as Array<Memory>;
@@ -432,7 +1077,9 @@ export class MemoryClient {
    * Deletes a specific memory by ID.
    *
    * @param memoryId - The ID of the memory to delete
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Confirmation message
+   * @throws {OperationBlockedError} When the client is read-only
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -441,20 +1088,53 @@ export class MemoryClient {
    * console.log(result.message); // "Memory deleted successfully"
    * ```
    */
-  async delete(memoryId: string): Promise<{ message: string }> {
+  async delete(
+    memoryId: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string }> {
+    this.#assertWritable("delete");
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/v1/memories/${memoryId}/`,
       { method: "DELETE" },
+      requestOptions,
     );
 
     return response as { message: string };
   }
 
+  /**
+   * Previews the deletion of all memories matching the given filters.
+   *
+   * @param options - Filter options with `dryRun: true`
+   * @param requestOptions - Per-call options applied to every listing request
+   * @returns The entities and memories that would be deleted
+   */
+  deleteAll(
+    options: DeleteAllOptions & { dryRun: true },
+    requestOptions?: RequestOptions,
+  ): Promise<DeletionPreview>;
   /**
    * Deletes all memories matching the given filters.
    *
    * @param options - Filter options to select memories for deletion
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Confirmation message
+   */
+  deleteAll(
+    options?: DeleteAllOptions & { dryRun?: false },
+    requestOptions?: RequestOptions,
+  ): Promise<{ message: string }>;
+  /**
+   * Deletes all memories matching the given filters, or previews the deletion.
+   *
+   * Without a user_id, agent_id, app_id or run_id the call affects the whole
+   * project and requires `confirm: "DELETE_ALL"`. With `dryRun: true` nothing
+   * is deleted; the memories that would be are listed instead.
+   *
+   * @param options - Filter options, confirmation and dry-run flag
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Confirmation message, or the preview in a dry run
+   * @throws {OperationBlockedError} When the client is read-only or confirmation is missing
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -462,15 +1142,44 @@ export class MemoryClient {
    * // Delete all memories for a user
    * const result = await client.deleteAll({ user_id: "alice" });
    * console.log(result.message);
+   *
+   * // See what a project-wide delete would remove
+   * const preview = await client.deleteAll({ dryRun: true });
+   * console.log(`${preview.memories.length} memories would be deleted`);
    * ```
    */
-  async deleteAll(options: MemoryOptions = {}): Promise<{ message: string }> {
-    const opts = this.#addOrgProjectToOptions(options);
+  deleteAll(
+    options?: DeleteAllOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<{ message: string } | DeletionPreview>;
+  async deleteAll(
+    options: DeleteAllOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string } | DeletionPreview> {
+    const { confirm, dryRun, ...filters } = options;
+    const scoped = Object.values(ENTITY_ID_PARAMS).some((param) => filters[param]);
+
+    if (dryRun) {
+      if (scoped) {
+        const memories = await Array.fromAsync(this.iterateAll(filters, requestOptions));
+        return { dryRun: true, entities: [], memories };
+      }
+      const entities = await Array.fromAsync(this.iterateUsers(requestOptions));
+      return { dryRun: true, entities, memories: await this.#memoriesOf(entities, requestOptions) };
+    }
+
+    this.#assertWritable("deleteAll");
+    if (!scoped && confirm !== "DELETE_ALL") {
+      throw new OperationBlockedError("deleteAll", "confirmation_required");
+    }
+
+    const opts = this.#addOrgProjectToOptions(filters);
     const params = new URLSearchParams(this.#prepareParams(opts));
 
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/v1/memories/?${params}`,
       { method: "DELETE" },
+      requestOptions,
     );
 
     return response as { message: string };
@@ -480,6 +1189,7 @@ export class MemoryClient {
    * Retrieves the history of changes for a specific memory.
    *
    * @param memoryId - The ID of the memory
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Array of MemoryHistory entries showing changes over time
    * @throws {APIError} When the API returns a non-OK response
    *
@@ -491,10 +1201,15 @@ export class MemoryClient {
    * }
    * ```
    */
-  async history(memoryId: string): Promise<Array<MemoryHistory>> {
+  async history(
+    memoryId: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<MemoryHistory>> {
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/v1/memories/${memoryId}/history/`,
       { method: "GET" },
+      requestOptions,
+      { decode: decodeMemoryHistory },
     );
 
     return response as Array<MemoryHistory>;
@@ -503,6 +1218,7 @@ export class MemoryClient {
   /**
    * Lists all users/entities that have memories.
    *
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Paginated list of users with memory counts
    * @throws {APIError} When the API returns a non-OK response
    *
@@ -515,47 +1231,112 @@ export class MemoryClient {
    * }
    * ```
    */
-  async users(): Promise<AllUsers> {
+  async users(requestOptions: RequestOptions = {}): Promise<AllUsers> {
     const opts = this.#addOrgProjectToOptions({});
     const params = new URLSearchParams(this.#prepareParams(opts));
 
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/v1/entities/?${params}`,
       { method: "GET" },
+      requestOptions,
+      { decode: decodeAllUsers },
     );
 
     return response as AllUsers;
   }
 
+  /**
+   * Iterates over every user/entity, following the `next` link of each page.
+   *
+   * @param requestOptions - Per-call options applied to every page request
+   * @returns Async iterator over User objects
+   * @throws {APIError} When the API returns a non-OK response
+   *
+   * @example
+   * ```ts
+   * for await (const user of client.iterateUsers()) {
+   *   console.log(`${user.type}/${user.name}: ${user.total_memories} memories`);
+   * }
+   * ```
+   */
+  async *iterateUsers(requestOptions: RequestOptions = {}): AsyncIterableIterator<User> {
+    let page = await this.users(requestOptions);
+
+    while (true) {
+      yield* page.results;
+      if (!page.next) {
+        return;
+      }
+      page = (await this.#fetchWithErrorHandling(
+        this.#resolvePageUrl(page.next),
+        { method: "GET" },
+        requestOptions,
+        { decode: decodeAllUsers },
+      )) as AllUsers;
+    }
+  }
+
   /**
    * Deletes a user/entity by ID.
    *
    * @deprecated Use deleteUsers() instead. Will be removed in version 2.2.0.
    * @param data - Object containing entity_id and entity_type
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Confirmation message
+   * @throws {OperationBlockedError} When the client is read-only
    * @throws {APIError} When the API returns a non-OK response
    */
   async deleteUser(data: {
     entity_id: number;
     entity_type?: string;
-  }): Promise<{ message: string }> {
+  }, requestOptions: RequestOptions = {}): Promise<{ message: string }> {
+    this.#assertWritable("deleteUser");
     const entityType = data.entity_type ?? "user";
 
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/v1/entities/${entityType}/${data.entity_id}/`,
       { method: "DELETE" },
+      requestOptions,
     );
 
     return response as { message: string };
   }
 
+  /**
+   * Previews the deletion of users/entities.
+   *
+   * @param params - Entity to delete with `dryRun: true`, or only `dryRun` for all entities
+   * @param requestOptions - Per-call options applied to every listing request
+   * @returns The entities that would be deleted and their memories
+   */
+  deleteUsers(
+    params: DeleteUsersOptions & { dryRun: true },
+    requestOptions?: RequestOptions,
+  ): Promise<DeletionPreview>;
   /**
    * Deletes users/entities by various identifiers.
    *
    * @param params - Object with user_id, agent_id, app_id, or run_id to delete
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Confirmation message
+   */
+  deleteUsers(
+    params?: DeleteUsersOptions & { dryRun?: false },
+    requestOptions?: RequestOptions,
+  ): Promise<{ message: string }>;
+  /**
+   * Deletes users/entities by various identifiers, or previews the deletion.
+   *
+   * Without an ID every entity in the project is deleted, which requires
+   * `confirm: "DELETE_ALL"`. With `dryRun: true` nothing is deleted; the
+   * matching entities and their memories are listed instead.
+   *
+   * @param params - Entity to delete, confirmation and dry-run flag
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Confirmation message, or the preview in a dry run
+   * @throws {OperationBlockedError} When the client is read-only or confirmation is missing
    * @throws {APIError} When the API returns a non-OK response
-   * @throws {Error} When no entities are found to delete
+   * @throws {Mem0Error} When no entities are found to delete
    *
    * @example
    * ```ts
@@ -564,36 +1345,60 @@ export class MemoryClient {
    *
    * // Delete an agent
    * await client.deleteUsers({ agent_id: "shopping-assistant" });
+   *
+   * // Preview, then delete every entity in the project
+   * const { entities } = await client.deleteUsers({ dryRun: true });
+   * await client.deleteUsers({ confirm: "DELETE_ALL" });
    * ```
    */
-  async deleteUsers(params: {
-    user_id?: string;
-    agent_id?: string;
-    app_id?: string;
-    run_id?: string;
-  } = {}): Promise<{ message: string }> {
-    const { user_id, agent_id, app_id, run_id } = params;
-
-    let toDelete: Array<{ type: string; name: string }> = [];
+  deleteUsers(
+    params?: DeleteUsersOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<{ message: string } | DeletionPreview>;
+  async deleteUsers(
+    params: DeleteUsersOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string } | DeletionPreview> {
+    const { user_id, agent_id, app_id, run_id, confirm, dryRun } = params;
+
+    let target: { type: string; name: string } | null = null;
 
     if (user_id) {
-      toDelete = [{ type: "user", name: user_id }];
+      target = { type: "user", name: user_id };
     } else if (agent_id) {
-      toDelete = [{ type: "agent", name: agent_id }];
+      target = { type: "agent", name: agent_id };
     } else if (app_id) {
-      toDelete = [{ type: "app", name: app_id }];
+      target = { type: "app", name: app_id };
     } else if (run_id) {
-      toDelete = [{ type: "run", name: run_id }];
+      target = { type: "run", name: run_id };
+    }
+
+    if (dryRun) {
+      const entities = (await Array.fromAsync(this.iterateUsers(requestOptions))).filter(
+        (entity) => !target || (entity.type === target.type && entity.name === target.name),
+      );
+      return { dryRun: true, entities, memories: await this.#memoriesOf(entities, requestOptions) };
+    }
+
+    this.#assertWritable("deleteUsers");
+    let toDelete: Array<{ type: string; name: string }> = [];
+
+    if (target) {
+      toDelete = [target];
     } else {
-      const entities = await this.users();
-      toDelete = entities.results.map((entity) => ({
+      if (confirm !== "DELETE_ALL") {
+        throw new OperationBlockedError("deleteUsers", "confirmation_required");
+      }
+      // Every page, so the deletion matches what a dryRun preview lists
+      const entities = await Array.fromAsync(this.iterateUsers(requestOptions));
+      toDelete = entities.map((entity) => ({
         type: entity.type,
         name: entity.name,
       }));
     }
 
     if (toDelete.length === 0) {
-      throw new Error("No entities to delete");
+      throw new Mem0Error("No entities to delete");
     }
 
     const requestOpts = this.#addOrgProjectToOptions({});
@@ -601,7 +1406,7 @@ export class MemoryClient {
 
     for (const entity of toDelete) {
       const url = `${this.#host}/v2/entities/${entity.type}/${entity.name}/?${queryParams}`;
-      await this.#fetchWithErrorHandling(url, { method: "DELETE" });
+      await this.#fetchWithErrorHandling(url, { method: "DELETE" }, requestOptions);
     }
 
     return {
@@ -612,69 +1417,193 @@ export class MemoryClient {
   }
 
   /**
-   * Updates multiple memories in a single batch operation.
+   * Updates multiple memories, splitting them into server-sized chunks.
+   *
+   * Chunks are sent with bounded concurrency. By default the first failed
+   * chunk stops the batch: chunks already in flight complete, the rest are
+   * skipped, and a {@link BatchError} carrying the partial report is thrown.
    *
    * @param memories - Array of memory update objects with memoryId and text
-   * @returns Confirmation message
-   * @throws {APIError} When the API returns a non-OK response
+   * @param options - Chunk size, concurrency, error handling and progress callback
+   * @param requestOptions - Per-call options applied to every chunk request
+   * @returns Report of succeeded, failed and skipped memory IDs and the chunks sent
+   * @throws {OperationBlockedError} When the client is read-only
+   * @throws {BatchError} When a chunk fails and `continueOnError` is not set
+   * @throws {AbortError} When the caller aborts the batch
    *
    * @example
    * ```ts
-   * await client.batchUpdate([
-   *   { memoryId: "mem_1", text: "Updated text 1" },
-   *   { memoryId: "mem_2", text: "Updated text 2" }
-   * ]);
+   * const report = await client.batchUpdate(
+   *   [
+   *     { memoryId: "mem_1", text: "Updated text 1" },
+   *     { memoryId: "mem_2", text: "Updated text 2" }
+   *   ],
+   *   { continueOnError: true }
+   * );
+   * console.log(`${report.succeeded.length} updated, ${report.failed.length} failed`);
    * ```
    */
-  async batchUpdate(memories: Array<MemoryUpdateBody>): Promise<{ message: string }> {
-    const memoriesBody = memories.map((memory) => ({
-      memory_id: memory.memoryId,
-      text: memory.text,
-    }));
-
-    const response = await this.#fetchWithErrorHandling(
-      `${this.#host}/v1/batch/`,
-      {
-        method: "PUT",
-        body: JSON.stringify({ memories: memoriesBody }),
-      },
+  async batchUpdate(
+    memories: Array<MemoryUpdateBody>,
+    options: BatchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<BatchReport> {
+    this.#assertWritable("batchUpdate");
+    return await this.#runBatch(
+      memories,
+      (memory) => memory.memoryId,
+      (chunk) =>
+        this.#fetchWithErrorHandling(
+          `${this.#host}/v1/batch/`,
+          {
+            method: "PUT",
+            body: JSON.stringify({
+              memories: chunk.map((memory) => ({ memory_id: memory.memoryId, text: memory.text })),
+            }),
+          },
+          requestOptions,
+        ),
+      options,
     );
-
-    return response as { message: string };
   }
 
   /**
-   * Deletes multiple memories in a single batch operation.
+   * Deletes multiple memories, splitting them into server-sized chunks.
+   *
+   * Chunking, concurrency and failure handling work as in {@link MemoryClient.batchUpdate}.
    *
    * @param memoryIds - Array of memory IDs to delete
-   * @returns Confirmation message
-   * @throws {APIError} When the API returns a non-OK response
+   * @param options - Chunk size, concurrency, error handling and progress callback
+   * @param requestOptions - Per-call options applied to every chunk request
+   * @returns Report of succeeded, failed and skipped memory IDs and the chunks sent
+   * @throws {OperationBlockedError} When the client is read-only
+   * @throws {BatchError} When a chunk fails and `continueOnError` is not set
+   * @throws {AbortError} When the caller aborts the batch
    *
    * @example
    * ```ts
-   * await client.batchDelete(["mem_1", "mem_2", "mem_3"]);
+   * const report = await client.batchDelete(staleIds, {
+   *   onProgress: ({ processed, total }) => console.log(`${processed}/${total}`),
+   * });
    * ```
    */
-  async batchDelete(memoryIds: Array<string>): Promise<{ message: string }> {
-    const memoriesBody = memoryIds.map((id) => ({ memory_id: id }));
-
-    const response = await this.#fetchWithErrorHandling(
-      `${this.#host}/v1/batch/`,
-      {
-        method: "DELETE",
-        body: JSON.stringify({ memories: memoriesBody }),
-      },
+  async batchDelete(
+    memoryIds: Array<string>,
+    options: BatchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<BatchReport> {
+    this.#assertWritable("batchDelete");
+    return await this.#runBatch(
+      memoryIds,
+      (id) => id,
+      (chunk) =>
+        this.#fetchWithErrorHandling(
+          `${this.#host}/v1/batch/`,
+          {
+            method: "DELETE",
+            body: JSON.stringify({ memories: chunk.map((id) => ({ memory_id: id })) }),
+          },
+          requestOptions,
+        ),
+      options,
     );
+  }
 
-    return response as { message: string };
+  /**
+   * Sends items in chunks through a pool of `concurrency` workers and collects a per-item report.
+   */
+  async #runBatch<T>(
+    items: Array<T>,
+    idOf: (item: T) => string,
+    send: (chunk: Array<T>) => Promise<unknown>,
+    options: BatchOptions,
+  ): Promise<BatchReport> {
+    const chunkSize = options.chunkSize ?? MAX_BATCH_SIZE;
+    const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_BATCH_SIZE) {
+      throw new InvalidArgumentError(
+        `chunkSize must be an integer between 1 and ${MAX_BATCH_SIZE}`,
+        {
+          fieldErrors: { chunkSize: [`Must be between 1 and ${MAX_BATCH_SIZE}.`] },
+        },
+      );
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidArgumentError("concurrency must be a positive integer", {
+        fieldErrors: { concurrency: ["Must be a positive integer."] },
+      });
+    }
+
+    const chunks: Array<Array<T>> = [];
+    for (let i = 0; i < items.length; i += chunkSize) {
+      chunks.push(items.slice(i, i + chunkSize));
+    }
+
+    const completed: Array<BatchChunk> = [];
+    let succeeded = 0;
+    let failed = 0;
+    let next = 0;
+    let stopped = false;
+
+    const worker = async (): Promise<void> => {
+      while (!stopped && next < chunks.length) {
+        const index = next++;
+        const ids = chunks[index]!.map(idOf);
+        let chunk: BatchChunk;
+        try {
+          const response = (await send(chunks[index]!)) as { message?: string } | null;
+          chunk = { index, ids, status: "succeeded", message: response?.message };
+          succeeded += ids.length;
+        } catch (error) {
+          // Cancellation ends the whole batch rather than counting as a chunk failure.
+          if (error instanceof AbortError) {
+            stopped = true;
+            throw error;
+          }
+          const chunkError = error instanceof Error ? error : new Error(String(error));
+          chunk = { index, ids, status: "failed", error: chunkError };
+          failed += ids.length;
+          if (!options.continueOnError) {
+            stopped = true;
+          }
+        }
+        completed.push(chunk);
+        options.onProgress?.({
+          chunk,
+          processed: succeeded + failed,
+          total: items.length,
+          succeeded,
+          failed,
+        });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+    // Chunks finish out of order; report items in input order.
+    completed.sort((a, b) => a.index - b.index);
+    const report: BatchReport = {
+      succeeded: completed.flatMap((chunk) => chunk.status === "succeeded" ? chunk.ids : []),
+      failed: completed.flatMap((chunk) =>
+        chunk.status === "failed" ? chunk.ids.map((id) => ({ id, error: chunk.error! })) : []
+      ),
+      skipped: chunks.slice(next).flatMap((chunk) => chunk.map(idOf)),
+      chunks: completed,
+    };
+
+    if (report.failed.length > 0 && !options.continueOnError) {
+      throw new BatchError(report, { cause: report.failed[0]!.error });
+    }
+    return report;
   }
 
   /**
    * Retrieves project configuration and settings.
    *
    * @param options - Options specifying which fields to include
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Project configuration including instructions and categories
-   * @throws {Error} When organizationId and projectId are not set
+   * @throws {Mem0Error} When organizationId and projectId are not set
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -685,9 +1614,12 @@ export class MemoryClient {
    * console.log(project.custom_instructions);
    * ```
    */
-  async getProject(options: ProjectOptions): Promise<ProjectResponse> {
+  async getProject(
+    options: ProjectOptions,
+    requestOptions: RequestOptions = {},
+  ): Promise<ProjectResponse> {
     if (!(this.#organizationId && this.#projectId)) {
-      throw new Error(
+      throw new Mem0Error(
         "organizationId and projectId must be set to access project settings",
       );
     }
@@ -698,6 +1630,8 @@ export class MemoryClient {
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/api/v1/orgs/organizations/${this.#organizationId}/projects/${this.#projectId}/?${params}`,
       { method: "GET" },
+      requestOptions,
+      { decode: decodeProject },
     );
 
     return response as ProjectResponse;
@@ -707,8 +1641,10 @@ export class MemoryClient {
    * Updates project configuration and settings.
    *
    * @param prompts - Update payload with instructions and/or categories
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Updated project configuration
-   * @throws {Error} When organizationId and projectId are not set
+   * @throws {OperationBlockedError} When the client is read-only
+   * @throws {Mem0Error} When organizationId and projectId are not set
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -720,9 +1656,11 @@ export class MemoryClient {
    */
   async updateProject(
     prompts: PromptUpdatePayload,
+    requestOptions: RequestOptions = {},
   ): Promise<Record<string, unknown>> {
+    this.#assertWritable("updateProject");
     if (!(this.#organizationId && this.#projectId)) {
-      throw new Error(
+      throw new Mem0Error(
         "organizationId and projectId must be set to update project settings",
       );
     }
@@ -733,16 +1671,109 @@ export class MemoryClient {
         method: "PATCH",
         body: JSON.stringify(prompts),
       },
+      requestOptions,
     );
 
     return response as Record<string, unknown>;
   }
 
+  /**
+   * Compares project settings kept as code with the live project.
+   *
+   * Only the fields present in the config are fetched and compared.
+   *
+   * @param config - Desired settings, e.g. from `readProjectConfig`
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The changes `applyProject` would make, with a human-readable diff
+   * @throws {InvalidArgumentError} When the config is invalid
+   * @throws {Mem0Error} When organizationId and projectId are not set
+   * @throws {APIError} When the API returns a non-OK response
+   *
+   * @example
+   * ```ts
+   * const plan = await client.planProject(await readProjectConfig("./mem0.project.json"));
+   * console.log(plan.diff);
+   * // ~ custom_instructions
+   * //     - Store everything
+   * //     + Only store facts about travel plans.
+   * // + category travel: Trips, bookings and destinations
+   * // - category sports
+   * ```
+   */
+  async planProject(
+    config: ProjectConfig,
+    requestOptions: RequestOptions = {},
+  ): Promise<ProjectPlan> {
+    validateProjectConfig(config);
+    const project = await this.getProject(
+      { fields: PROJECT_CONFIG_FIELDS.filter((field) => config[field] !== undefined) },
+      requestOptions,
+    );
+    return planProjectChanges(config, project);
+  }
+
+  /**
+   * Updates the live project to match settings kept as code.
+   *
+   * Given a plan from {@link planProject}, the managed fields are fetched
+   * again and the plan is refused if they changed since it was made, so a
+   * reviewed plan is applied exactly as reviewed. Given a config, it is
+   * planned and applied in one step. Only changed fields are sent; nothing is
+   * sent when there are no changes.
+   *
+   * @param planOrConfig - A plan from {@link planProject}, or the desired settings
+   * @param requestOptions - Per-call options applied to every request
+   * @returns The plan that was applied
+   * @throws {ProjectConflictError} When the project changed since the plan was made
+   * @throws {OperationBlockedError} When the client is read-only
+   * @throws {InvalidArgumentError} When the config is invalid
+   * @throws {Mem0Error} When organizationId and projectId are not set
+   * @throws {APIError} When the API returns a non-OK response
+   *
+   * @example
+   * ```ts
+   * const plan = await client.planProject(config);
+   * if (plan.hasChanges && confirm(`${plan.diff}\n\nApply?`)) {
+   *   await client.applyProject(plan);
+   * }
+   * ```
+   */
+  async applyProject(
+    planOrConfig: ProjectPlan | ProjectConfig,
+    requestOptions: RequestOptions = {},
+  ): Promise<ProjectPlan> {
+    this.#assertWritable("applyProject");
+    const reviewed = "current" in planOrConfig ? planOrConfig as ProjectPlan : null;
+    const plan = await this.planProject(
+      reviewed ? reviewed.config : planOrConfig as ProjectConfig,
+      requestOptions,
+    );
+    if (reviewed && !sameProjectConfig(reviewed.current, plan.current)) {
+      throw new ProjectConflictError(reviewed, plan.current);
+    }
+    if (!plan.hasChanges) {
+      return plan;
+    }
+
+    const changes: PromptUpdatePayload = {};
+    if (plan.instructions) {
+      changes.custom_instructions = plan.instructions.to ?? "";
+    }
+    const { added, removed, changed } = plan.categories;
+    if (added.length + removed.length + changed.length > 0) {
+      changes.custom_categories = plan.config.custom_categories;
+    }
+    await this.updateProject(changes, requestOptions);
+    return plan;
+  }
+
   /**
    * Lists all webhooks for the project.
    *
    * @param data - Optional object with projectId override
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Array of Webhook configurations
+   * @throws {Mem0Error} When no projectId is given or configured
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -753,12 +1784,20 @@ export class MemoryClient {
    * }
    * ```
    */
-  async getWebhooks(data?: { projectId?: string }): Promise<Array<Webhook>> {
-    const projectId = data?.projectId ?? this.#projectId;
+  async getWebhooks(
+    data?: { projectId?: string },
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Webhook>> {
+    const projectId = data?.projectId || this.#projectId;
+    if (!projectId) {
+      throw new Mem0Error("projectId must be set to list webhooks");
+    }
 
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/api/v1/webhooks/projects/${projectId}/`,
       { method: "GET" },
+      requestOptions,
+      { decode: decodeWebhooks },
     );
 
     return response as Array<Webhook>;
@@ -768,7 +1807,10 @@ export class MemoryClient {
    * Creates a new webhook.
    *
    * @param webhook - Webhook configuration
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Created Webhook object
+   * @throws {Mem0Error} When no projectId is given or configured
+   * @throws {OperationBlockedError} When the client is read-only
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -777,18 +1819,26 @@ export class MemoryClient {
    *   name: "Memory Updates",
    *   url: "https://myapp.com/webhooks/mem0",
    *   eventTypes: ["memory_add", "memory_update"],
-   *   projectId: "proj_123",
-   *   webhookId: ""
    * });
    * ```
    */
-  async createWebhook(webhook: WebhookPayload): Promise<Webhook> {
+  async createWebhook(
+    webhook: WebhookPayload,
+    requestOptions: RequestOptions = {},
+  ): Promise<Webhook> {
+    this.#assertWritable("createWebhook");
+    const projectId = webhook.projectId || this.#projectId;
+    if (!projectId) {
+      throw new Mem0Error("projectId must be set to create a webhook");
+    }
     const response = await this.#fetchWithErrorHandling(
-      `${this.#host}/api/v1/webhooks/projects/${this.#projectId}/`,
+      `${this.#host}/api/v1/webhooks/projects/${projectId}/`,
       {
         method: "POST",
-        body: JSON.stringify(webhook),
+        body: JSON.stringify({ ...webhook, projectId }),
       },
+      requestOptions,
+      { idempotent: false, decode: decodeWebhook },
     );
 
     return response as Webhook;
@@ -798,7 +1848,10 @@ export class MemoryClient {
    * Updates an existing webhook.
    *
    * @param webhook - Updated webhook configuration
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Confirmation message
+   * @throws {InvalidArgumentError} When `webhookId` is missing
+   * @throws {OperationBlockedError} When the client is read-only
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -812,7 +1865,16 @@ export class MemoryClient {
    * });
    * ```
    */
-  async updateWebhook(webhook: WebhookPayload): Promise<{ message: string }> {
+  async updateWebhook(
+    webhook: WebhookPayload,
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string }> {
+    this.#assertWritable("updateWebhook");
+    if (!webhook.webhookId) {
+      throw new InvalidArgumentError("updateWebhook needs a webhookId", {
+        fieldErrors: { webhookId: ["This field is required."] },
+      });
+    }
     const projectId = webhook.projectId || this.#projectId;
 
     const response = await this.#fetchWithErrorHandling(
@@ -821,6 +1883,7 @@ export class MemoryClient {
         method: "PUT",
         body: JSON.stringify({ ...webhook, projectId }),
       },
+      requestOptions,
     );
 
     return response as { message: string };
@@ -830,7 +1893,9 @@ export class MemoryClient {
    * Deletes a webhook.
    *
    * @param data - Object containing webhookId
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Confirmation message
+   * @throws {OperationBlockedError} When the client is read-only
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -838,20 +1903,171 @@ export class MemoryClient {
    * await client.deleteWebhook({ webhookId: "wh_123" });
    * ```
    */
-  async deleteWebhook(data: { webhookId: string }): Promise<{ message: string }> {
+  async deleteWebhook(
+    data: { webhookId: string },
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string }> {
+    this.#assertWritable("deleteWebhook");
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/api/v1/webhooks/${data.webhookId}/`,
       { method: "DELETE" },
+      requestOptions,
     );
 
     return response as { message: string };
   }
 
+  /**
+   * Brings the project's webhooks in line with a desired list.
+   *
+   * Each spec is matched to an existing webhook by name, or by URL when no
+   * name matches. Matched webhooks whose name, URL or event types differ are
+   * updated, unmatched specs are created, and with `prune` existing webhooks
+   * that match no spec are deleted. Actions are applied one at a time in the
+   * order returned; if one fails, those before it stay applied.
+   *
+   * @param desired - Webhooks the project should have
+   * @param options - Whether to delete unmatched webhooks and whether to only plan
+   * @param requestOptions - Per-call options applied to every request
+   * @returns The actions applied, or planned in a dry run, and the webhooks left alone
+   * @throws {InvalidArgumentError} When two specs share a name or URL
+   * @throws {OperationBlockedError} When the client is read-only and this is not a dry run
+   * @throws {APIError} When the API returns a non-OK response
+   *
+   * @example
+   * ```ts
+   * const { actions } = await client.syncWebhooks([
+   *   { name: "audit", url: "https://myapp.com/hooks/mem0", eventTypes: ["memory_add", "memory_update"] },
+   * ], { prune: true, dryRun: true });
+   * for (const action of actions) {
+   *   console.log(action.action, action.action === "delete" ? action.webhook.name : action.spec.name);
+   * }
+   * ```
+   */
+  async syncWebhooks(
+    desired: Array<WebhookSpec>,
+    options: SyncWebhooksOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<WebhookSyncResult> {
+    const dryRun = options.dryRun ?? false;
+    if (!dryRun) {
+      this.#assertWritable("syncWebhooks");
+    }
+    for (const field of ["name", "url"] as const) {
+      const values = desired.map((spec) => spec[field]);
+      const duplicate = values.find((value, index) => values.indexOf(value) !== index);
+      if (duplicate !== undefined) {
+        throw new InvalidArgumentError(`Two webhook specs share the ${field} "${duplicate}"`, {
+          fieldErrors: { [field]: ["Must be unique."] },
+        });
+      }
+    }
+
+    const listed = await this.getWebhooks(undefined, requestOptions);
+    const remaining = [...listed];
+    const take = (predicate: (webhook: Webhook) => boolean): Webhook | undefined => {
+      const index = remaining.findIndex(predicate);
+      return index === -1 ? undefined : remaining.splice(index, 1)[0];
+    };
+    // Names are matched for every spec before URLs, so a spec whose URL equals
+    // another webhook's cannot claim it from the spec that names it.
+    const matches = new Map<WebhookSpec, Webhook>();
+    for (const spec of desired) {
+      const webhook = take((existing) => existing.name === spec.name);
+      if (webhook) {
+        matches.set(spec, webhook);
+      }
+    }
+    for (const spec of desired.filter((spec) => !matches.has(spec))) {
+      const webhook = take((existing) => existing.url === spec.url);
+      if (webhook) {
+        matches.set(spec, webhook);
+      }
+    }
+
+    const result: WebhookSyncResult = { dryRun, actions: [], unchanged: [], unmanaged: [] };
+    const updates: Array<WebhookSyncAction> = [];
+    for (const spec of desired) {
+      const webhook = matches.get(spec);
+      if (!webhook) {
+        result.actions.push({ action: "create", spec });
+        continue;
+      }
+      const changes: Array<"name" | "url" | "eventTypes"> = [];
+      if (webhook.name !== spec.name) {
+        changes.push("name");
+      }
+      if (webhook.url !== spec.url) {
+        changes.push("url");
+      }
+      const current = [...new Set(webhook.event_types ?? [])].sort();
+      const wanted = [...new Set(spec.eventTypes)].sort();
+      if (current.join() !== wanted.join()) {
+        changes.push("eventTypes");
+      }
+      if (changes.length > 0) {
+        updates.push({ action: "update", webhook, spec, changes });
+      } else {
+        result.unchanged.push(webhook);
+      }
+    }
+    result.actions.push(...updates);
+    if (options.prune) {
+      result.actions.push(...remaining.map((webhook) => ({ action: "delete" as const, webhook })));
+    } else {
+      result.unmanaged = remaining;
+    }
+
+    // Checked before anything is applied, so a plan that cannot be carried
+    // out fails without half-syncing the project.
+    const ids = new Map<Webhook, string>();
+    for (const action of result.actions) {
+      if (action.action === "create") {
+        continue;
+      }
+      const id = action.webhook.webhook_id;
+      if (typeof id !== "string" || id === "") {
+        throw new ResponseValidationError(
+          `webhook "${action.webhook.name}" has no webhook_id to ${action.action} it by`,
+          {
+            method: "GET",
+            url: redactUrl(
+              `${this.#host}/api/v1/webhooks/projects/${this.#projectId}/`,
+              this.#apiKey,
+            ),
+            body: listed,
+            path: `$[${listed.indexOf(action.webhook)}].webhook_id`,
+          },
+        );
+      }
+      ids.set(action.webhook, id);
+    }
+
+    if (dryRun) {
+      return result;
+    }
+    for (const action of result.actions) {
+      if (action.action === "create") {
+        await this.createWebhook(action.spec, requestOptions);
+      } else if (action.action === "update") {
+        await this.updateWebhook(
+          { ...action.spec, webhookId: ids.get(action.webhook)! },
+          requestOptions,
+        );
+      } else {
+        await this.deleteWebhook({ webhookId: ids.get(action.webhook)! }, requestOptions);
+      }
+    }
+    return result;
+  }
+
   /**
    * Submits feedback on a memory.
    *
    * @param data - Feedback payload with memory_id and feedback type
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
    * @returns Confirmation message
+   * @throws {OperationBlockedError} When the client is read-only
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -865,13 +2081,19 @@ export class MemoryClient {
    * });
    * ```
    */
-  async feedback(data: FeedbackPayload): Promise<{ message: string }> {
+  async feedback(
+    data: FeedbackPayload,
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string }> {
+    this.#assertWritable("feedback");
     const response = await this.#fetchWithErrorHandling(
       `${this.#host}/v1/feedback/`,
       {
         method: "POST",
         body: JSON.stringify(data),
       },
+      requestOptions,
+      { idempotent: false },
     );
 
     return response as { message: string };
@@ -880,25 +2102,32 @@ export class MemoryClient {
   /**
    * Creates a memory export job.
    *
+   * The type parameter describes the exported data; {@link ExportJob.result}
+   * checks the data against `schema` before returning it as that type.
+   *
    * @param data - Export configuration with filters and schema
-   * @returns Export job ID and status message
-   * @throws {Error} When filters or schema is missing
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Handle to wait for, read or save the export
+   * @throws {InvalidArgumentError} When filters or schema is missing
+   * @throws {ResponseValidationError} When the response has no export ID
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
    * ```ts
-   * const exportJob = await client.createMemoryExport({
+   * const job = await client.createMemoryExport<{ memories: Array<{ memory: string }> }>({
    *   filters: { user_id: "alice" },
-   *   schema: { format: "json" }
+   *   schema: { type: "object", required: ["memories"] }
    * });
-   * console.log(`Export started: ${exportJob.id}`);
+   * await job.wait();
+   * const { memories } = await job.result();
    * ```
    */
-  async createMemoryExport(
+  async createMemoryExport<T = unknown>(
     data: CreateMemoryExportPayload,
-  ): Promise<{ message: string; id: string }> {
+    requestOptions: RequestOptions = {},
+  ): Promise<ExportJob<T>> {
     if (!data.filters || !data.schema) {
-      throw new Error("Missing filters or schema");
+      throw new InvalidArgumentError("Missing filters or schema");
     }
 
     const payload = {
@@ -913,17 +2142,21 @@ export class MemoryClient {
         method: "POST",
         body: JSON.stringify(payload),
       },
+      requestOptions,
+      { idempotent: false, decode: decodeCreatedExport },
     );
 
-    return response as { message: string; id: string };
+    const created = response as { id: string; message: string };
+    return new ExportJob<T>(this, created.id, data.schema, created.message);
   }
 
   /**
    * Retrieves a memory export by ID or filters.
    *
    * @param data - Query with memory_export_id or filters
-   * @returns Export data and status
-   * @throws {Error} When neither memory_export_id nor filters is provided
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Export status, with the exported data once completed
+   * @throws {InvalidArgumentError} When neither memory_export_id nor filters is provided
    * @throws {APIError} When the API returns a non-OK response
    *
    * @example
@@ -935,9 +2168,10 @@ export class MemoryClient {
    */
   async getMemoryExport(
     data: GetMemoryExportPayload,
-  ): Promise<{ message: string; id: string }> {
+    requestOptions: RequestOptions = {},
+  ): Promise<MemoryExport> {
     if (!data.memory_export_id && !data.filters) {
-      throw new Error("Missing memory_export_id or filters");
+      throw new InvalidArgumentError("Missing memory_export_id or filters");
     }
 
     const payload = {
@@ -952,8 +2186,10 @@ export class MemoryClient {
         method: "POST",
         body: JSON.stringify(payload),
       },
+      requestOptions,
+      { decode: decodeMemoryExport },
     );
 
-    return response as { message: string; id: string };
+    return response as MemoryExport;
   }
 }
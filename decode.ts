@@ -0,0 +1,425 @@
+/**
+ * @module
+ * Runtime validation and decoding of Mem0 API responses.
+ *
+ * Decoders check the shape of a payload, convert ISO timestamps into `Date`
+ * objects and normalize memory text, so the values returned by the client
+ * match the interfaces in `types.ts`. Unknown fields are preserved.
+ */
+
+import { type ErrorDetails, ResponseValidationError } from "./error.ts";
+import type {
+  AllUsers,
+  Memory,
+  MemoryEvent,
+  MemoryExport,
+  MemoryHistory,
+  ProjectResponse,
+  User,
+  Webhook,
+} from "./types.ts";
+
+/**
+ * Validates and converts a raw response payload.
+ */
+export type Decoder<T> = (value: unknown, context?: ErrorDetails) => T;
+
+type Json = Record<string, unknown>;
+
+function fail(path: string, expected: string, value: unknown, context: ErrorDetails): never {
+  const actual = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  throw new ResponseValidationError(`Expected ${expected} at ${path}, got ${actual}`, {
+    ...context,
+    path,
+  });
+}
+
+function object(value: unknown, path: string, context: ErrorDetails): Json {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    fail(path, "object", value, context);
+  }
+  return { ...(value as Json) };
+}
+
+function array(value: unknown, path: string, context: ErrorDetails): Array<unknown> {
+  if (!Array.isArray(value)) {
+    fail(path, "array", value, context);
+  }
+  return value;
+}
+
+function field(
+  record: Json,
+  key: string,
+  type: "string" | "number" | "boolean" | "object" | "string[]",
+  path: string,
+  context: ErrorDetails,
+  options: { required?: boolean; nullable?: boolean } = {},
+): void {
+  const value = record[key];
+  if (value === undefined) {
+    if (options.required) {
+      fail(`${path}.${key}`, type, value, context);
+    }
+    return;
+  }
+  if (value === null) {
+    if (!options.nullable) {
+      fail(`${path}.${key}`, type, value, context);
+    }
+    return;
+  }
+
+  let valid: boolean;
+  switch (type) {
+    case "string[]":
+      valid = Array.isArray(value) && value.every((item) => typeof item === "string");
+      break;
+    case "object":
+      valid = typeof value === "object" && !Array.isArray(value);
+      break;
+    case "string":
+      valid = typeof value === "string";
+      break;
+    case "number":
+      valid = typeof value === "number";
+      break;
+    case "boolean":
+      valid = typeof value === "boolean";
+      break;
+  }
+  if (!valid) {
+    fail(`${path}.${key}`, type, value, context);
+  }
+}
+
+function date(record: Json, key: string, path: string, context: ErrorDetails): void {
+  const value = record[key];
+  if (value === undefined || value === null) {
+    delete record[key];
+    return;
+  }
+  if (value instanceof Date) {
+    return;
+  }
+  const parsed = typeof value === "string" || typeof value === "number" ? new Date(value) : null;
+  if (parsed === null || Number.isNaN(parsed.getTime())) {
+    fail(`${path}.${key}`, "ISO 8601 timestamp", value, context);
+  }
+  record[key] = parsed;
+}
+
+/**
+ * Decodes a single memory, normalizing `data.memory` into `memory`.
+ */
+export function decodeMemory(value: unknown, context: ErrorDetails = {}, path = "$"): Memory {
+  const record = object(value, path, context);
+
+  field(record, "id", "string", path, context, { required: true });
+  field(record, "memory", "string", path, context);
+  field(record, "data", "object", path, context, { nullable: true });
+  if (record.data) {
+    field(record.data as Json, "memory", "string", `${path}.data`, context);
+  }
+  for (const key of ["user_id", "hash", "event", "memory_type"]) {
+    field(record, key, "string", path, context);
+  }
+  for (const key of ["owner", "agent_id", "app_id", "run_id"]) {
+    field(record, key, "string", path, context, { nullable: true });
+  }
+  field(record, "categories", "string[]", path, context, { nullable: true });
+  field(record, "score", "number", path, context);
+  field(record, "metadata", "object", path, context, { nullable: true });
+  date(record, "created_at", path, context);
+  date(record, "updated_at", path, context);
+
+  if (record.memory === undefined && typeof (record.data as Json | null)?.memory === "string") {
+    record.memory = (record.data as Json).memory;
+  }
+
+  return record as unknown as Memory;
+}
+
+/**
+ * Decodes an array of memories.
+ */
+export function decodeMemories(value: unknown, context: ErrorDetails = {}): Array<Memory> {
+  return array(value, "$", context).map((item, index) =>
+    decodeMemory(item, context, `$[${index}]`)
+  );
+}
+
+/**
+ * Decodes the response to a memory update, which is either an array of
+ * memories or the single updated memory; the shape is kept as received.
+ */
+export function decodeUpdatedMemories(value: unknown, context: ErrorDetails = {}): unknown {
+  return Array.isArray(value) ? decodeMemories(value, context) : decodeMemory(value, context);
+}
+
+/**
+ * Decodes either an array of memories or a paginated envelope of memories.
+ */
+export function decodeMemoryList(value: unknown, context: ErrorDetails = {}): unknown {
+  if (Array.isArray(value)) {
+    return decodeMemories(value, context);
+  }
+  const record = object(value, "$", context);
+  record.results = array(record.results, "$.results", context).map((item, index) =>
+    decodeMemory(item, context, `$.results[${index}]`)
+  );
+  return record;
+}
+
+/**
+ * Decodes the history entries of a memory.
+ */
+export function decodeMemoryHistory(
+  value: unknown,
+  context: ErrorDetails = {},
+): Array<MemoryHistory> {
+  return array(value, "$", context).map((item, index) => {
+    const path = `$[${index}]`;
+    const record = object(item, path, context);
+    field(record, "id", "string", path, context, { required: true });
+    field(record, "memory_id", "string", path, context);
+    field(record, "old_memory", "string", path, context, { nullable: true });
+    field(record, "new_memory", "string", path, context, { nullable: true });
+    field(record, "user_id", "string", path, context, { nullable: true });
+    field(record, "event", "string", path, context);
+    field(record, "categories", "string[]", path, context, { nullable: true });
+    if (record.input !== undefined && record.input !== null) {
+      array(record.input, `${path}.input`, context);
+    }
+    date(record, "created_at", path, context);
+    date(record, "updated_at", path, context);
+    return record as unknown as MemoryHistory;
+  });
+}
+
+/**
+ * Decodes a single user/entity.
+ */
+export function decodeUser(value: unknown, context: ErrorDetails = {}, path = "$"): User {
+  const record = object(value, path, context);
+  if (typeof record.id === "number") {
+    record.id = String(record.id);
+  }
+  field(record, "id", "string", path, context);
+  field(record, "name", "string", path, context, { required: true });
+  field(record, "type", "string", path, context);
+  field(record, "owner", "string", path, context, { nullable: true });
+  field(record, "total_memories", "number", path, context);
+  date(record, "created_at", path, context);
+  date(record, "updated_at", path, context);
+  return record as unknown as User;
+}
+
+/**
+ * Decodes a paginated list of users/entities.
+ */
+export function decodeAllUsers(value: unknown, context: ErrorDetails = {}): AllUsers {
+  const record = object(value, "$", context);
+  field(record, "count", "number", "$", context);
+  field(record, "next", "string", "$", context, { nullable: true });
+  field(record, "previous", "string", "$", context, { nullable: true });
+  record.results = array(record.results, "$.results", context).map((item, index) =>
+    decodeUser(item, context, `$.results[${index}]`)
+  );
+  return record as unknown as AllUsers;
+}
+
+/**
+ * Decodes a single webhook.
+ */
+export function decodeWebhook(value: unknown, context: ErrorDetails = {}, path = "$"): Webhook {
+  const record = object(value, path, context);
+  field(record, "webhook_id", "string", path, context);
+  field(record, "name", "string", path, context, { required: true });
+  field(record, "url", "string", path, context, { required: true });
+  field(record, "project", "string", path, context, { nullable: true });
+  field(record, "is_active", "boolean", path, context);
+  field(record, "event_types", "string[]", path, context);
+  date(record, "created_at", path, context);
+  date(record, "updated_at", path, context);
+  return record as unknown as Webhook;
+}
+
+/**
+ * Decodes a list of webhooks.
+ */
+export function decodeWebhooks(value: unknown, context: ErrorDetails = {}): Array<Webhook> {
+  return array(value, "$", context).map((item, index) =>
+    decodeWebhook(item, context, `$[${index}]`)
+  );
+}
+
+/**
+ * Decodes project settings.
+ */
+export function decodeProject(value: unknown, context: ErrorDetails = {}): ProjectResponse {
+  const record = object(value, "$", context);
+  field(record, "custom_instructions", "string", "$", context, { nullable: true });
+  if (record.custom_categories !== undefined && record.custom_categories !== null) {
+    array(record.custom_categories, "$.custom_categories", context);
+  }
+  return record as ProjectResponse;
+}
+
+/**
+ * Decodes the acknowledgement returned by an `async_mode` add, which may be
+ * a single object or a one-element array.
+ */
+export function decodeQueuedEvent(
+  value: unknown,
+  context: ErrorDetails = {},
+): { event_id: string; message: string; status: string } {
+  const path = Array.isArray(value) ? "$[0]" : "$";
+  const record = object(Array.isArray(value) ? value[0] : value, path, context);
+  field(record, "event_id", "string", path, context, { required: true });
+  field(record, "message", "string", path, context);
+  field(record, "status", "string", path, context);
+  return {
+    event_id: record.event_id as string,
+    message: (record.message as string | undefined) ?? "",
+    status: (record.status as string | undefined) ?? "PENDING",
+  };
+}
+
+/**
+ * Decodes the acknowledgement returned when a memory export is created.
+ */
+export function decodeCreatedExport(
+  value: unknown,
+  context: ErrorDetails = {},
+): { id: string; message: string } {
+  const record = object(value, "$", context);
+  field(record, "id", "string", "$", context, { required: true });
+  field(record, "message", "string", "$", context);
+  return {
+    id: record.id as string,
+    message: (record.message as string | undefined) ?? "",
+  };
+}
+
+/**
+ * Decodes the status of a background event, normalizing each result's
+ * `data.memory` into `memory`.
+ */
+export function decodeMemoryEvent(value: unknown, context: ErrorDetails = {}): MemoryEvent {
+  const record = object(value, "$", context);
+  field(record, "id", "string", "$", context, { required: true });
+  field(record, "event_type", "string", "$", context);
+  field(record, "status", "string", "$", context, { required: true });
+  field(record, "error", "string", "$", context, { nullable: true });
+  date(record, "created_at", "$", context);
+  date(record, "updated_at", "$", context);
+
+  const results = record.results === undefined || record.results === null
+    ? []
+    : array(record.results, "$.results", context);
+  record.results = results.map((item, index) => {
+    const path = `$.results[${index}]`;
+    const result = object(item, path, context);
+    field(result, "id", "string", path, context, { required: true });
+    field(result, "event", "string", path, context, { required: true });
+    field(result, "memory", "string", path, context, { nullable: true });
+    field(result, "data", "object", path, context, { nullable: true });
+    const data = result.data as Json | null | undefined;
+    return {
+      ...result,
+      memory: (result.memory as string | null | undefined) ??
+        (typeof data?.memory === "string" ? data.memory : null),
+    };
+  });
+  return record as unknown as MemoryEvent;
+}
+
+/**
+ * Decodes a memory export. When the payload has no `data` field, everything
+ * except the bookkeeping fields is taken to be the exported data. The status
+ * is required: without it a partial export would pass for a completed one.
+ */
+export function decodeMemoryExport(value: unknown, context: ErrorDetails = {}): MemoryExport {
+  const record = object(value, "$", context);
+  field(record, "id", "string", "$", context);
+  field(record, "status", "string", "$", context, { required: true });
+  field(record, "message", "string", "$", context);
+  field(record, "error", "string", "$", context, { nullable: true });
+
+  const { id, status, message, error, data, ...rest } = record;
+  const result: MemoryExport = {
+    status: (status as string).toLowerCase() as MemoryExport["status"],
+    data: data !== undefined ? data : Object.keys(rest).length > 0 ? rest : undefined,
+  };
+  if (id !== undefined) {
+    result.id = id as string;
+  }
+  if (message !== undefined) {
+    result.message = message as string;
+  }
+  if (error !== undefined) {
+    result.error = error as string | null;
+  }
+  return result;
+}
+
+/**
+ * Checks a value against the subset of JSON Schema used by export schemas:
+ * `type`, `required`, `properties` and `items`. Other keywords are ignored.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: Record<string, unknown>,
+  context: ErrorDetails = {},
+  path = "$",
+): void {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length > 0 && !types.some((type) => matchesSchemaType(value, type))) {
+    fail(path, types.join(" | "), value, context);
+  }
+
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    const record = value as Json;
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as Array<string>) {
+        if (record[key] === undefined) {
+          fail(`${path}.${key}`, "required property", undefined, context);
+        }
+      }
+    }
+    const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+    for (const [key, property] of Object.entries(properties)) {
+      if (record[key] !== undefined) {
+        validateSchema(record[key], property, context, `${path}.${key}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items && typeof schema.items === "object") {
+    value.forEach((item, index) =>
+      validateSchema(item, schema.items as Record<string, unknown>, context, `${path}[${index}]`)
+    );
+  }
+}
+
+function matchesSchemaType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
@@ -1,8 +1,91 @@
+/**
+ * @module
+ * Error classes thrown by the MemoryClient.
+ *
+ * Every error raised by the SDK extends {@link Mem0Error}. Errors caused by a
+ * non-OK HTTP response extend {@link APIError} and are further specialised by
+ * status code, so callers can branch on `instanceof` instead of inspecting
+ * status codes or message strings.
+ */
+
+import type {
+  BatchReport,
+  MemoryEvent,
+  MemoryExport,
+  MemoryScope,
+  ProjectConfig,
+  ProjectPlan,
+} from "./types.ts";
+
+/**
+ * Request context attached to SDK errors.
+ */
+export interface ErrorDetails {
+  /** HTTP method of the failed request */
+  method?: string;
+  /** Request URL with credentials redacted */
+  url?: string;
+  /** Request ID reported by the server, if any */
+  requestId?: string | null;
+  /** Parsed response body (JSON when possible, otherwise text) */
+  body?: unknown;
+  /** Field-level validation errors */
+  fieldErrors?: Record<string, Array<string>>;
+  /** Delay requested by a Retry-After header, in milliseconds */
+  retryAfterMs?: number | null;
+  /** Location of the offending value in a response payload, e.g. `$[0].created_at` */
+  path?: string;
+  /** Underlying error, if any */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors raised by the Mem0 SDK.
+ *
+ * @example
+ * ```ts
+ * import { Mem0Error, MemoryClient } from "sdk-deno-mem0";
+ *
+ * const client = new MemoryClient({ apiKey: "your-key" });
+ *
+ * try {
+ *   await client.search("preferences", { user_id: "alice" });
+ * } catch (error) {
+ *   if (error instanceof Mem0Error) {
+ *     console.log(`${error.name} during ${error.method} ${error.url}`);
+ *   }
+ * }
+ * ```
+ */
+export class Mem0Error extends Error {
+  /** HTTP method of the failed request */
+  readonly method: string | undefined;
+  /** Request URL with credentials redacted */
+  readonly url: string | undefined;
+  /** Request ID reported by the server, if any */
+  readonly requestId: string | null;
+
+  /**
+   * Creates a new Mem0Error instance.
+   *
+   * @param message - Error description
+   * @param details - Request context for debugging
+   */
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details.cause === undefined ? undefined : { cause: details.cause });
+    this.name = "Mem0Error";
+    this.method = details.method;
+    this.url = details.url;
+    this.requestId = details.requestId ?? null;
+  }
+}
+
 /**
  * Custom error class for Mem0 API-related errors.
  *
  * This error is thrown when the Mem0 API returns a non-OK HTTP response.
- * It captures the HTTP status code and error message for debugging.
+ * It captures the HTTP status code, the parsed response body and the request
+ * context for debugging.
  *
  * @example
  * ```ts
@@ -20,19 +103,502 @@
  * }
  * ```
  */
-export class APIError extends Error {
+export class APIError extends Mem0Error {
   /** HTTP status code from the API response */
   readonly status: number;
+  /** Parsed response body (JSON when possible, otherwise text) */
+  readonly body: unknown;
 
   /**
    * Creates a new APIError instance.
    *
    * @param status - HTTP status code (e.g., 401, 404, 500)
    * @param message - Error message from API or generated description
+   * @param details - Request context and parsed response body
    */
-  constructor(status: number, message: string) {
-    super(`API request failed with status ${status}: ${message}`);
+  constructor(status: number, message: string, details: ErrorDetails = {}) {
+    super(`API request failed with status ${status}: ${message}`, details);
     this.name = "APIError";
     this.status = status;
+    this.body = details.body;
+  }
+}
+
+/**
+ * Thrown on `401 Unauthorized`, e.g. when the API key is invalid.
+ */
+export class AuthenticationError extends APIError {
+  /**
+   * Creates a new AuthenticationError instance.
+   *
+   * @param message - Error message from API
+   * @param details - Request context and parsed response body
+   */
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(401, message, details);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Thrown on `403 Forbidden`, when the key lacks access to the resource.
+ */
+export class PermissionDeniedError extends APIError {
+  /**
+   * Creates a new PermissionDeniedError instance.
+   *
+   * @param message - Error message from API
+   * @param details - Request context and parsed response body
+   */
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(403, message, details);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+/**
+ * Thrown on `404 Not Found`, e.g. when a memory ID does not exist.
+ */
+export class NotFoundError extends APIError {
+  /**
+   * Creates a new NotFoundError instance.
+   *
+   * @param message - Error message from API
+   * @param details - Request context and parsed response body
+   */
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(404, message, details);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Thrown on `429 Too Many Requests`.
+ */
+export class RateLimitError extends APIError {
+  /** Delay requested by the Retry-After header in milliseconds, if present */
+  readonly retryAfterMs: number | null;
+
+  /**
+   * Creates a new RateLimitError instance.
+   *
+   * @param message - Error message from API
+   * @param details - Request context, parsed response body and Retry-After delay
+   */
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(429, message, details);
+    this.name = "RateLimitError";
+    this.retryAfterMs = details.retryAfterMs ?? null;
+  }
+}
+
+/**
+ * Thrown when the API rejects a request as invalid.
+ *
+ * Raised for `400 Bad Request` and `422 Unprocessable Entity` responses.
+ * Arguments the client rejects before sending anything throw
+ * {@link InvalidArgumentError} instead.
+ */
+export class ValidationError extends APIError {
+  /** Field-level errors keyed by field name */
+  readonly fieldErrors: Record<string, Array<string>>;
+
+  /**
+   * Creates a new ValidationError instance.
+   *
+   * @param message - Error message from API
+   * @param details - Request context, parsed response body and field errors
+   * @param status - HTTP status code (default: 400)
+   */
+  constructor(message: string, details: ErrorDetails = {}, status = 400) {
+    super(status, message, details);
+    this.name = "ValidationError";
+    this.fieldErrors = details.fieldErrors ?? {};
+  }
+}
+
+/**
+ * Thrown when the client rejects arguments before sending a request, e.g.
+ * an update with neither text nor metadata, or an option that conflicts
+ * with a scope. No request was made, so there is no status or response body.
+ */
+export class InvalidArgumentError extends Mem0Error {
+  /** Problems keyed by argument or field name */
+  readonly fieldErrors: Record<string, Array<string>>;
+
+  /**
+   * Creates a new InvalidArgumentError instance.
+   *
+   * @param message - Description of the problem
+   * @param details - Field errors
+   */
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details);
+    this.name = "InvalidArgumentError";
+    this.fieldErrors = details.fieldErrors ?? {};
+  }
+}
+
+/**
+ * Thrown on `5xx` responses.
+ */
+export class ServerError extends APIError {
+  /**
+   * Creates a new ServerError instance.
+   *
+   * @param status - HTTP status code (500-599)
+   * @param message - Error message from API
+   * @param details - Request context and parsed response body
+   */
+  constructor(status: number, message: string, details: ErrorDetails = {}) {
+    super(status, message, details);
+    this.name = "ServerError";
+  }
+}
+
+/**
+ * Thrown when a request does not complete within the configured timeout.
+ */
+export class TimeoutError extends Mem0Error {
+  /** Timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  /**
+   * Creates a new TimeoutError instance.
+   *
+   * @param timeoutMs - Timeout that elapsed, in milliseconds
+   * @param details - Request context
+   */
+  constructor(timeoutMs: number, details: ErrorDetails = {}) {
+    super(`Request timeout after ${timeoutMs}ms for ${details.url ?? "request"}`, details);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when the caller cancels a request through its `AbortSignal`.
+ *
+ * Distinct from {@link TimeoutError}, which is raised when the SDK's own timeout elapses.
+ */
+export class AbortError extends Mem0Error {
+  /**
+   * Creates a new AbortError instance.
+   *
+   * @param details - Request context and the signal's abort reason as `cause`
+   */
+  constructor(details: ErrorDetails = {}) {
+    super(`Request aborted for ${details.url ?? "request"}`, details);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Thrown when a request fails before a response is received, e.g. on DNS or connection errors.
+ */
+export class NetworkError extends Mem0Error {
+  /**
+   * Creates a new NetworkError instance.
+   *
+   * @param message - Error description
+   * @param details - Request context and the underlying error as `cause`
+   */
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, details);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Thrown when a successful response does not match the expected shape.
+ *
+ * Signals that the server payload has drifted from the types in this SDK.
+ * Disable decoding with `ClientOptions.decodeResponses: false` to receive raw payloads.
+ */
+export class ResponseValidationError extends Mem0Error {
+  /** Location of the offending value in the payload, e.g. `$[0].created_at` */
+  readonly path: string;
+  /** The payload the server sent, as parsed JSON */
+  readonly body: unknown;
+
+  /**
+   * Creates a new ResponseValidationError instance.
+   *
+   * @param message - Description of the mismatch
+   * @param details - Request context, the payload and the path within it
+   */
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(`Invalid response from Mem0 API: ${message}`, details);
+    this.name = "ResponseValidationError";
+    this.path = details.path ?? "$";
+    this.body = details.body;
+  }
+}
+
+/**
+ * Thrown when a chunked batch operation stops because a chunk failed.
+ *
+ * The partial {@link BatchReport} lists which items succeeded, failed or were
+ * never sent. Pass `continueOnError: true` to receive the report without throwing.
+ */
+export class BatchError extends Mem0Error {
+  /** Report of the items processed before the batch stopped */
+  readonly report: BatchReport;
+
+  /**
+   * Creates a new BatchError instance.
+   *
+   * @param report - Partial batch report
+   * @param details - Request context and the first chunk error as `cause`
+   */
+  constructor(report: BatchReport, details: ErrorDetails = {}) {
+    const total = report.succeeded.length + report.failed.length + report.skipped.length;
+    super(
+      `Batch operation failed: ${report.failed.length} of ${total} items failed, ` +
+        `${report.skipped.length} skipped`,
+      details,
+    );
+    this.name = "BatchError";
+    this.report = report;
+  }
+}
+
+/**
+ * Thrown when waiting on a background event that finished with status `FAILED`.
+ */
+export class MemoryEventError extends Mem0Error {
+  /** The failed event */
+  readonly event: MemoryEvent;
+
+  /**
+   * Creates a new MemoryEventError instance.
+   *
+   * @param event - The failed event
+   * @param details - Request context
+   */
+  constructor(event: MemoryEvent, details: ErrorDetails = {}) {
+    super(`Event ${event.id} failed${event.error ? `: ${event.error}` : ""}`, details);
+    this.name = "MemoryEventError";
+    this.event = event;
+  }
+}
+
+/**
+ * Thrown when a memory export fails, or its result is read before it completes.
+ */
+export class MemoryExportError extends Mem0Error {
+  /** The export as last reported by the API */
+  readonly export: MemoryExport;
+
+  /**
+   * Creates a new MemoryExportError instance.
+   *
+   * @param message - Error description
+   * @param memoryExport - The export as last reported by the API
+   * @param details - Request context
+   */
+  constructor(message: string, memoryExport: MemoryExport, details: ErrorDetails = {}) {
+    super(message, details);
+    this.name = "MemoryExportError";
+    this.export = memoryExport;
+  }
+}
+
+/**
+ * Thrown by a scoped client when a memory addressed by ID belongs to a
+ * different user, agent, app or run than the scope. Nothing is changed.
+ */
+export class ScopeError extends Mem0Error {
+  /** The scope of the client */
+  readonly scope: MemoryScope;
+  /** ID of the memory outside the scope */
+  readonly memoryId: string;
+
+  /**
+   * Creates a new ScopeError instance.
+   *
+   * @param memoryId - ID of the memory outside the scope
+   * @param scope - The scope of the client
+   * @param details - Request context
+   */
+  constructor(memoryId: string, scope: MemoryScope, details: ErrorDetails = {}) {
+    super(`Memory ${memoryId} is outside the scope ${JSON.stringify(scope)}`, details);
+    this.name = "ScopeError";
+    this.scope = scope;
+    this.memoryId = memoryId;
+  }
+}
+
+/**
+ * Thrown before any request is sent when a client safety guard blocks a call:
+ * a write on a `readOnly` client, or a project-wide deletion without
+ * `confirm: "DELETE_ALL"`.
+ */
+export class OperationBlockedError extends Mem0Error {
+  /** Name of the blocked client method */
+  readonly operation: string;
+  /** Which guard blocked the call */
+  readonly reason: "read_only" | "confirmation_required";
+
+  /**
+   * Creates a new OperationBlockedError instance.
+   *
+   * @param operation - Name of the blocked client method
+   * @param reason - Which guard blocked the call
+   */
+  constructor(operation: string, reason: "read_only" | "confirmation_required") {
+    super(
+      reason === "read_only"
+        ? `${operation}() is not allowed on a read-only client`
+        : `${operation}() without user_id, agent_id, app_id or run_id affects the whole project; ` +
+          `pass confirm: "DELETE_ALL" to proceed, or dryRun: true to preview`,
+    );
+    this.name = "OperationBlockedError";
+    this.operation = operation;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown by `verifyAndParse` when an incoming webhook request cannot be
+ * trusted or understood.
+ */
+export class WebhookVerificationError extends Mem0Error {
+  /** Why the request was rejected */
+  readonly reason: "missing_signature" | "invalid_signature" | "expired" | "invalid_payload";
+
+  /**
+   * Creates a new WebhookVerificationError instance.
+   *
+   * @param message - Error description
+   * @param reason - Why the request was rejected
+   * @param details - Request context
+   */
+  constructor(
+    message: string,
+    reason: "missing_signature" | "invalid_signature" | "expired" | "invalid_payload",
+    details: ErrorDetails = {},
+  ) {
+    super(message, details);
+    this.name = "WebhookVerificationError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown by `applyProject` when the live project settings no longer match
+ * the ones a plan was made against. Nothing is changed; plan again.
+ */
+export class ProjectConflictError extends Mem0Error {
+  /** The plan that could not be applied */
+  readonly plan: ProjectPlan;
+  /** Live values of the managed fields */
+  readonly current: ProjectConfig;
+
+  /**
+   * Creates a new ProjectConflictError instance.
+   *
+   * @param plan - The plan that could not be applied
+   * @param current - Live values of the managed fields
+   * @param details - Request context
+   */
+  constructor(plan: ProjectPlan, current: ProjectConfig, details: ErrorDetails = {}) {
+    super("Project settings changed since the plan was made; run planProject again", details);
+    this.name = "ProjectConflictError";
+    this.plan = plan;
+    this.current = current;
+  }
+}
+
+/**
+ * Builds the APIError subclass matching an HTTP error status.
+ *
+ * @param status - HTTP status code
+ * @param body - Parsed response body
+ * @param details - Request context
+ */
+export function createAPIError(
+  status: number,
+  body: unknown,
+  details: ErrorDetails = {},
+): APIError {
+  const message = errorMessageFromBody(body);
+  const withBody = { ...details, body };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(
+        message,
+        { ...withBody, fieldErrors: fieldErrorsFromBody(body) },
+        status,
+      );
+    case 401:
+      return new AuthenticationError(message, withBody);
+    case 403:
+      return new PermissionDeniedError(message, withBody);
+    case 404:
+      return new NotFoundError(message, withBody);
+    case 429:
+      return new RateLimitError(message, withBody);
+  }
+
+  if (status >= 500) {
+    return new ServerError(status, message, withBody);
+  }
+  return new APIError(status, message, withBody);
+}
+
+/**
+ * Replaces credentials in a URL so it can be safely logged.
+ *
+ * @param url - Request URL
+ * @param apiKey - API key to strip if it appears anywhere in the URL
+ */
+export function redactUrl(url: string, apiKey?: string): string {
+  let redacted = url;
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (/^(api_?key|token|key|authorization)$/i.test(key)) {
+        parsed.searchParams.set(key, "[REDACTED]");
+      }
+    }
+    redacted = parsed.toString();
+  } catch {
+    // Not an absolute URL; fall through to plain string replacement
+  }
+  return apiKey ? redacted.split(apiKey).join("[REDACTED]") : redacted;
+}
+
+function errorMessageFromBody(body: unknown): string {
+  if (typeof body === "string") {
+    return body;
+  }
+  if (body && typeof body === "object") {
+    const record = body as Record<string, unknown>;
+    for (const key of ["detail", "message", "error"]) {
+      if (typeof record[key] === "string") {
+        return record[key] as string;
+      }
+    }
+    return JSON.stringify(body);
+  }
+  return String(body);
+}
+
+function fieldErrorsFromBody(body: unknown): Record<string, Array<string>> {
+  const fieldErrors: Record<string, Array<string>> = {};
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return fieldErrors;
+  }
+
+  for (const [field, value] of Object.entries(body as Record<string, unknown>)) {
+    if (Array.isArray(value)) {
+      fieldErrors[field] = value.map(String);
+    } else if (typeof value === "string" && !["detail", "message", "error"].includes(field)) {
+      fieldErrors[field] = [value];
+    }
   }
+  return fieldErrors;
 }
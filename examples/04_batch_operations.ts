@@ -48,7 +48,7 @@ const updatePayload = [
 ];
 
 const updateResult = await client.batchUpdate(updatePayload);
-console.log(`✅ ${updateResult.message}`);
+console.log(`✅ Updated ${updateResult.succeeded.length} memories`);
 
 // 3. Verify updates
 console.log("\n3️⃣  Verifying updates...");
@@ -61,7 +61,7 @@ for (const payload of updatePayload) {
 console.log("\n4️⃣  Batch deleting memories...");
 const deleteIds = [memoryIds[2]!, memoryIds[3]!];
 const deleteResult = await client.batchDelete(deleteIds);
-console.log(`✅ ${deleteResult.message}`);
+console.log(`✅ Deleted ${deleteResult.succeeded.length} memories`);
 
 // 5. Check remaining memories
 console.log("\n5️⃣  Checking remaining memories...");
@@ -1,7 +1,7 @@
 /**
  * Pagination Example
  *
- * Demonstrates: getAll() with page and page_size parameters
+ * Demonstrates: getAll() with page and page_size parameters, getPage(), iterateAll()
  *
  * Run: deno run --allow-net --allow-env examples/05_pagination.ts
  */
@@ -91,8 +91,23 @@ for (const mem of page3) {
   console.log(`   - ${mem.memory}`);
 }
 
-// 6. Clean up
-console.log("\n6️⃣  Cleaning up...");
+// 6. Page metadata
+console.log("\n6️⃣  Getting page 1 with metadata...");
+const firstPage = await client.getPage({ user_id: userId, page_size: 5 });
+console.log(
+  `✅ ${firstPage.results.length} of ${firstPage.count} memories, next: ${firstPage.next}`,
+);
+
+// 7. Walk every page without holding them all in memory
+console.log("\n7️⃣  Iterating over all pages...");
+let seen = 0;
+for await (const _memory of client.iterateAll({ user_id: userId, page_size: 5 })) {
+  seen++;
+}
+console.log(`✅ Iterated over ${seen} memories`);
+
+// 8. Clean up
+console.log("\n8️⃣  Cleaning up...");
 await client.deleteAll({ user_id: userId });
 console.log(`✅ Deleted all ${allMemories.length} memories`);
 
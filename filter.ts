@@ -0,0 +1,195 @@
+/**
+ * @module
+ * Type-safe builder for v2 memory filters.
+ *
+ * The v2 `search` and `getAll` endpoints accept compound filters built from
+ * `AND`/`OR`/`NOT` groups, comparison operators and date ranges. The {@link f}
+ * builder checks field names and operator value types at compile time and
+ * produces the exact JSON shape the API expects.
+ *
+ * @example
+ * ```ts
+ * import { API_VERSION, f, MemoryClient } from "sdk-deno-mem0";
+ *
+ * const client = new MemoryClient({ apiKey: Deno.env.get("MEM0_API_KEY")! });
+ *
+ * const results = await client.search("travel plans", {
+ *   api_version: API_VERSION.V2,
+ *   filters: f.and(
+ *     f.eq("user_id", "alice"),
+ *     f.gte("created_at", new Date("2025-01-01")),
+ *     f.in("categories", ["travel", "food"]),
+ *   ),
+ * });
+ * ```
+ */
+
+// deno-lint-ignore-file camelcase
+// Note: Field names use snake_case to match the Mem0 API filter format exactly.
+
+/**
+ * Fields accepted in v2 filters, mapped to the type of their serialized value.
+ */
+export interface FilterFields {
+  /** User the memory belongs to */
+  user_id: string;
+  /** Agent the memory belongs to */
+  agent_id: string;
+  /** App the memory belongs to */
+  app_id: string;
+  /** Run the memory belongs to */
+  run_id: string;
+  /** Creation date, as an ISO 8601 string */
+  created_at: string;
+  /** Last update date, as an ISO 8601 string */
+  updated_at: string;
+  /** Unix timestamp supplied when the memory was added */
+  timestamp: number;
+  /** Memory category */
+  categories: string;
+  /** Keyword contained in the memory */
+  keywords: string;
+  /** Memory text */
+  text: string;
+  /** Metadata key/value pairs that must all match */
+  metadata: Record<string, unknown>;
+}
+
+/** Name of a filterable field. */
+export type FilterField = keyof FilterFields;
+
+/** Fields that support range comparisons (`gt`, `gte`, `lt`, `lte`). */
+export type ComparableField = "created_at" | "updated_at" | "timestamp";
+
+/** Fields that support substring matching (`contains`, `icontains`). */
+export type TextField = "categories" | "keywords" | "text";
+
+/** Fields whose values are dates. */
+export type DateField = "created_at" | "updated_at";
+
+/** Value accepted by the builder for a field; dates may be given as `Date` objects. */
+export type FilterInput<K extends FilterField> = K extends DateField ? Date | string
+  : FilterFields[K];
+
+/**
+ * Operators that can be applied to a single field.
+ */
+export interface FilterOperators<V> {
+  /** Matches any of the given values */
+  in?: Array<V>;
+  /** Not equal to the value */
+  ne?: V;
+  /** Greater than the value */
+  gt?: V;
+  /** Greater than or equal to the value */
+  gte?: V;
+  /** Less than the value */
+  lt?: V;
+  /** Less than or equal to the value */
+  lte?: V;
+  /** Contains the value (case-sensitive) */
+  contains?: V;
+  /** Contains the value (case-insensitive) */
+  icontains?: V;
+}
+
+/**
+ * Conditions on one or more fields. `"*"` matches any non-null value.
+ */
+export type FieldCondition = {
+  [K in FilterField]?: FilterFields[K] | FilterOperators<FilterFields[K]> | "*";
+};
+
+/**
+ * A v2 filter expression, as sent to the API.
+ */
+export type Filter =
+  | FieldCondition
+  | { AND: Array<Filter> }
+  | { OR: Array<Filter> }
+  | { NOT: Array<Filter> };
+
+/**
+ * Builder functions for {@link Filter} expressions.
+ */
+export interface FilterBuilder {
+  /** Matches when every filter matches */
+  and(...filters: Array<Filter>): Filter;
+  /** Matches when at least one filter matches */
+  or(...filters: Array<Filter>): Filter;
+  /** Matches when none of the filters match */
+  not(...filters: Array<Filter>): Filter;
+  /** Field equals the value */
+  eq<K extends FilterField>(field: K, value: FilterInput<K>): Filter;
+  /** Field does not equal the value */
+  ne<K extends Exclude<FilterField, "metadata">>(field: K, value: FilterInput<K>): Filter;
+  /** Field is greater than the value */
+  gt<K extends ComparableField>(field: K, value: FilterInput<K>): Filter;
+  /** Field is greater than or equal to the value */
+  gte<K extends ComparableField>(field: K, value: FilterInput<K>): Filter;
+  /** Field is less than the value */
+  lt<K extends ComparableField>(field: K, value: FilterInput<K>): Filter;
+  /** Field is less than or equal to the value */
+  lte<K extends ComparableField>(field: K, value: FilterInput<K>): Filter;
+  /** Field is within the inclusive range `[from, to]` */
+  between<K extends ComparableField>(field: K, from: FilterInput<K>, to: FilterInput<K>): Filter;
+  /** Field equals any of the values */
+  in<K extends Exclude<FilterField, "metadata">>(field: K, values: Array<FilterInput<K>>): Filter;
+  /** Field contains the value (case-sensitive) */
+  contains<K extends TextField>(field: K, value: string): Filter;
+  /** Field contains the value (case-insensitive) */
+  icontains<K extends TextField>(field: K, value: string): Filter;
+  /** Field has any non-null value */
+  exists<K extends Exclude<FilterField, "metadata">>(field: K): Filter;
+  /** Metadata contains all the given key/value pairs */
+  metadata(match: Record<string, unknown>): Filter;
+}
+
+function serialize(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function condition(field: FilterField, value: unknown): Filter {
+  return { [field]: value } as Filter;
+}
+
+function group(operator: "AND" | "OR" | "NOT", filters: Array<Filter>): Filter {
+  return { [operator]: filters } as Filter;
+}
+
+function operator(field: FilterField, op: keyof FilterOperators<unknown>, value: unknown): Filter {
+  return condition(field, { [op]: serialize(value) });
+}
+
+/**
+ * Builds type-checked v2 filter expressions.
+ *
+ * @example
+ * ```ts
+ * import { f } from "sdk-deno-mem0";
+ *
+ * const filters = f.or(
+ *   f.eq("user_id", "alice"),
+ *   f.and(f.eq("agent_id", "support-bot"), f.between("created_at", "2025-01-01", "2025-01-31")),
+ * );
+ * // { OR: [{ user_id: "alice" }, { AND: [{ agent_id: "support-bot" },
+ * //   { created_at: { gte: "2025-01-01", lte: "2025-01-31" } }] }] }
+ * ```
+ */
+export const f: FilterBuilder = {
+  and: (...filters) => group("AND", filters),
+  or: (...filters) => group("OR", filters),
+  not: (...filters) => group("NOT", filters),
+  eq: (field, value) => condition(field, serialize(value)),
+  ne: (field, value) => operator(field, "ne", value),
+  gt: (field, value) => operator(field, "gt", value),
+  gte: (field, value) => operator(field, "gte", value),
+  lt: (field, value) => operator(field, "lt", value),
+  lte: (field, value) => operator(field, "lte", value),
+  between: (field, from, to) => condition(field, { gte: serialize(from), lte: serialize(to) }),
+  in: (field, values) => condition(field, { in: values.map(serialize) }),
+  contains: (field, value) => operator(field, "contains", value),
+  icontains: (field, value) => operator(field, "icontains", value),
+  exists: (field) => condition(field, "*"),
+  metadata: (match) => condition("metadata", match),
+};
@@ -0,0 +1,55 @@
+/**
+ * @module
+ * Plain-text formatting of API records for the command-line tools.
+ */
+
+/**
+ * Formats records as aligned columns, with long text shortened.
+ */
+export function table<T extends object>(rows: Array<T>, columns: Array<string>): string {
+  if (rows.length === 0) {
+    return "(none)";
+  }
+  const cells = rows.map((row) =>
+    columns.map((column) => cell((row as Record<string, unknown>)[column]))
+  );
+  const widths = columns.map((column, index) =>
+    Math.max(column.length, ...cells.map((values) => values[index]!.length))
+  );
+  const line = (values: Array<string>): string =>
+    values.map((value, index) => value.padEnd(widths[index]!)).join("  ").trimEnd();
+  return [line(columns.map((column) => column.toUpperCase())), ...cells.map(line)].join("\n");
+}
+
+/**
+ * Formats one record as `key: value` lines.
+ */
+export function details(record: object): string {
+  const entries = Object.entries(record).filter(([, value]) => value !== undefined);
+  const width = Math.max(...entries.map(([key]) => key.length));
+  return entries.map(([key, value]) => `${`${key}:`.padEnd(width + 2)}${cell(value, false)}`)
+    .join("\n");
+}
+
+/**
+ * Formats one value for display: dates as ISO strings, scores to three
+ * decimals, whitespace collapsed and, unless `shorten` is false, long text cut.
+ */
+export function cell(value: unknown, shorten = true): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = "";
+  } else if (typeof value === "number" && !Number.isInteger(value)) {
+    text = value.toFixed(3);
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Array.isArray(value) && value.every((item) => typeof item !== "object")) {
+    text = value.join(", ");
+  } else if (typeof value === "object") {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  text = text.replace(/\s+/g, " ");
+  return shorten && text.length > 60 ? `${text.slice(0, 59)}…` : text;
+}
@@ -0,0 +1,308 @@
+/**
+ * @module
+ * Handles for background operations that complete after the request returns.
+ */
+
+import { validateSchema } from "./decode.ts";
+import {
+  AbortError,
+  type ErrorDetails,
+  MemoryEventError,
+  MemoryExportError,
+  TimeoutError,
+} from "./error.ts";
+import { sleep } from "./retry.ts";
+import type { MemoryClient } from "./client.ts";
+import type {
+  MemoryEvent,
+  MemoryExport,
+  RequestOptions,
+  SaveExportOptions,
+  WaitOptions,
+} from "./types.ts";
+
+/**
+ * Calls `check` until `isDone` accepts its result, sleeping between calls.
+ *
+ * @throws {TimeoutError} When `timeoutMs` elapses first
+ * @throws {AbortError} When the caller's signal aborts while sleeping
+ */
+export async function poll<T>(
+  check: () => Promise<T>,
+  isDone: (value: T) => boolean,
+  options: WaitOptions,
+  signal: AbortSignal | undefined,
+  details: ErrorDetails,
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? 60000;
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    const value = await check();
+    if (isDone(value)) {
+      return value;
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new TimeoutError(timeoutMs, details);
+    }
+    try {
+      await sleep(Math.min(pollIntervalMs, remaining), signal);
+    } catch (cause) {
+      throw new AbortError({ ...details, cause });
+    }
+  }
+}
+
+/**
+ * Handle for a memory add queued with `async_mode: true`.
+ *
+ * @example
+ * ```ts
+ * const job = await client.add(messages, { user_id: "alice", async_mode: true });
+ * const event = await job.wait({ timeoutMs: 30000 });
+ * for (const operation of event.results) {
+ *   console.log(`${operation.event} ${operation.id}: ${operation.memory}`);
+ * }
+ * ```
+ */
+export class AddJob {
+  /** ID of the background event processing the add */
+  readonly eventId: string;
+  /** Acknowledgement message returned when the add was queued */
+  readonly message: string;
+
+  #client: MemoryClient;
+
+  /**
+   * Creates a handle for an existing event, e.g. one queued by an earlier process.
+   *
+   * @param client - Client used to check the event status
+   * @param eventId - ID of the background event
+   * @param message - Acknowledgement message returned when the add was queued
+   */
+  constructor(client: MemoryClient, eventId: string, message = "") {
+    this.#client = client;
+    this.eventId = eventId;
+    this.message = message;
+  }
+
+  /**
+   * Fetches the current status of the event.
+   *
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The event, including the applied operations once it has succeeded
+   */
+  status(requestOptions: RequestOptions = {}): Promise<MemoryEvent> {
+    return this.#client.getEvent(this.eventId, requestOptions);
+  }
+
+  /**
+   * Polls the event until processing finishes.
+   *
+   * @param options - Overall timeout and delay between status checks
+   * @param requestOptions - Per-call options applied to every status check
+   * @returns The succeeded event with the ADD/UPDATE/DELETE/NOOP operations applied
+   * @throws {MemoryEventError} When the event fails
+   * @throws {TimeoutError} When the event is still pending after `timeoutMs`
+   * @throws {AbortError} When the caller aborts while waiting
+   */
+  async wait(options: WaitOptions = {}, requestOptions: RequestOptions = {}): Promise<MemoryEvent> {
+    const details = { method: "GET", url: `/v1/event/${this.eventId}/` };
+    const event = await poll(
+      () => this.status(requestOptions),
+      (current) => current.status === "SUCCEEDED" || current.status === "FAILED",
+      options,
+      requestOptions.signal,
+      details,
+    );
+    if (event.status === "FAILED") {
+      throw new MemoryEventError(event, details);
+    }
+    return event;
+  }
+}
+
+/**
+ * Handle for a memory export created with `createMemoryExport`.
+ *
+ * The type parameter describes the exported data and should match the
+ * `schema` the export was created with.
+ *
+ * @example
+ * ```ts
+ * interface Backup {
+ *   memories: Array<{ id: string; memory: string }>;
+ * }
+ *
+ * const job = await client.createMemoryExport<Backup>({
+ *   filters: { user_id: "alice" },
+ *   schema: { type: "object", required: ["memories"] },
+ * });
+ * await job.saveTo("./alice-backup.jsonl", { format: "jsonl" });
+ * ```
+ */
+export class ExportJob<T = unknown> {
+  /** Export ID */
+  readonly id: string;
+  /** Acknowledgement message returned when the export was created */
+  readonly message: string;
+  /** JSON schema the export was created with */
+  readonly schema: Record<string, unknown>;
+
+  #client: MemoryClient;
+  /** The export as returned by `wait()`; a completed export no longer changes */
+  #completed?: MemoryExport;
+
+  /**
+   * Creates a handle for an existing export, e.g. one created by an earlier process.
+   *
+   * @param client - Client used to fetch the export
+   * @param id - Export ID
+   * @param schema - JSON schema the export was created with, used to check the result
+   * @param message - Acknowledgement message returned when the export was created
+   */
+  constructor(
+    client: MemoryClient,
+    id: string,
+    schema: Record<string, unknown> = {},
+    message = "",
+  ) {
+    this.#client = client;
+    this.id = id;
+    this.schema = schema;
+    this.message = message;
+  }
+
+  /**
+   * Fetches the current state of the export.
+   *
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The export, including its data once completed
+   */
+  status(requestOptions: RequestOptions = {}): Promise<MemoryExport> {
+    return this.#client.getMemoryExport({ memory_export_id: this.id }, requestOptions);
+  }
+
+  /**
+   * Polls the export until it completes.
+   *
+   * @param options - Overall timeout and delay between status checks
+   * @param requestOptions - Per-call options applied to every status check
+   * @returns The completed export
+   * @throws {MemoryExportError} When the export fails
+   * @throws {TimeoutError} When the export is still running after `timeoutMs`
+   * @throws {AbortError} When the caller aborts while waiting
+   */
+  async wait(
+    options: WaitOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<MemoryExport> {
+    const details = { method: "POST", url: "/v1/exports/get/" };
+    const memoryExport = await poll(
+      () => this.status(requestOptions),
+      (current) => current.status === "completed" || current.status === "failed",
+      options,
+      requestOptions.signal,
+      details,
+    );
+    if (memoryExport.status === "failed") {
+      throw new MemoryExportError(
+        `Export ${this.id} failed${memoryExport.error ? `: ${memoryExport.error}` : ""}`,
+        memoryExport,
+        details,
+      );
+    }
+    this.#completed = memoryExport;
+    return memoryExport;
+  }
+
+  /**
+   * Returns the exported data, checked against the export schema. After
+   * `wait()` this uses the export it returned; otherwise it is fetched.
+   *
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The exported data
+   * @throws {MemoryExportError} When the export has not completed
+   * @throws {ResponseValidationError} When the data does not match the schema
+   */
+  async result(requestOptions: RequestOptions = {}): Promise<T> {
+    return this.#validated(this.#completed ?? await this.status(requestOptions));
+  }
+
+  /**
+   * Waits for the export to complete and writes its data to a file.
+   *
+   * @param path - Destination file; overwritten if it exists
+   * @param options - File format, plus the timeout and poll interval for waiting
+   * @param requestOptions - Per-call options applied to every request
+   * @returns The number of records written: 1 for JSON, one per line for JSONL
+   * @throws {MemoryExportError} When the export fails
+   * @throws {ResponseValidationError} When the data does not match the schema
+   */
+  async saveTo(
+    path: string,
+    options: SaveExportOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<{ path: string; records: number }> {
+    const data = this.#validated(await this.wait(options, requestOptions));
+
+    if ((options.format ?? "json") === "json") {
+      await Deno.writeTextFile(path, `${JSON.stringify(data, null, 2)}\n`);
+      return { path, records: 1 };
+    }
+
+    // Records are encoded one at a time rather than as one JSONL string.
+    const file = await Deno.open(path, { write: true, create: true, truncate: true });
+    const encoder = new TextEncoder();
+    let records = 0;
+    try {
+      for (const record of exportRecords(data)) {
+        const line = encoder.encode(`${JSON.stringify(record)}\n`);
+        for (let written = 0; written < line.length;) {
+          written += await file.write(line.subarray(written));
+        }
+        records++;
+      }
+    } finally {
+      file.close();
+    }
+    return { path, records };
+  }
+
+  /**
+   * Returns the data of a completed export once it matches the export schema.
+   */
+  #validated(memoryExport: MemoryExport): T {
+    if (memoryExport.status !== "completed") {
+      throw new MemoryExportError(
+        `Export ${this.id} is ${memoryExport.status}; call wait() first`,
+        memoryExport,
+      );
+    }
+    validateSchema(memoryExport.data, this.schema, {
+      method: "POST",
+      url: "/v1/exports/get/",
+      body: memoryExport.data,
+    });
+    return memoryExport.data as T;
+  }
+}
+
+/**
+ * Splits export data into JSONL records: the elements of an array, or of the
+ * single array property of an object; anything else is one record.
+ */
+function exportRecords(data: unknown): Array<unknown> {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (data !== null && typeof data === "object") {
+    const arrays = Object.values(data).filter(Array.isArray);
+    if (arrays.length === 1) {
+      return arrays[0]!;
+    }
+  }
+  return [data];
+}
@@ -0,0 +1,295 @@
+/**
+ * @module
+ * Model Context Protocol server exposing memory tools to MCP hosts, over
+ * stdio or streamable HTTP.
+ */
+
+import { InvalidArgumentError, Mem0Error, ValidationError } from "./error.ts";
+import { callMemoryTool, listMemoryTools } from "./tools.ts";
+import type { MemoryClient } from "./client.ts";
+import type { MemoryToolOptions } from "./tools.ts";
+
+/** Protocol revisions the server speaks, newest first. */
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+/** Hostnames of browser origins accepted when `allowedOrigins` is not set. */
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+/** JSON-RPC error codes. */
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/**
+ * Configuration options for {@link McpServer}.
+ */
+export interface McpServerOptions extends MemoryToolOptions {
+  /** Server name reported to the host (default: "mem0") */
+  name?: string;
+  /** Server version reported to the host (default: "0.1.0") */
+  version?: string;
+  /** Usage notes the host may pass on to the model */
+  instructions?: string;
+  /**
+   * Browser origins allowed to call {@link McpServer.handleRequest}, e.g.
+   * `https://app.example.com` (default: localhost origins only). Requests
+   * without an `Origin` header, such as those from MCP hosts, are not affected.
+   */
+  allowedOrigins?: Array<string>;
+}
+
+/**
+ * A JSON-RPC 2.0 response sent by {@link McpServer}.
+ */
+export interface JsonRpcResponse {
+  /** Protocol marker, always "2.0" */
+  jsonrpc: "2.0";
+  /** ID of the request answered; null when the request could not be read */
+  id: string | number | null;
+  /** Result of a successful request */
+  result?: unknown;
+  /** Failure of an unsuccessful request */
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Streams used by {@link McpServer.serveStdio}.
+ */
+export interface McpStdioOptions {
+  /** Newline-delimited JSON-RPC messages from the host (default: `Deno.stdin.readable`) */
+  input?: ReadableStream<Uint8Array>;
+  /** Where responses are written, one per line (default: `Deno.stdout.writable`) */
+  output?: WritableStream<Uint8Array>;
+}
+
+/**
+ * Serves `add_memory`, `search_memories`, `list_memories`, `update_memory`,
+ * `delete_memory` and `memory_history` over the Model Context Protocol.
+ *
+ * With a `scope` every call is bound to those entity IDs and the tools'
+ * schemas leave them out, so the model cannot reach other users' memories.
+ * With `readOnly` only the search, list and history tools are offered.
+ *
+ * Tool failures, such as invalid arguments or API errors, are returned to
+ * the model as error results rather than protocol errors.
+ *
+ * @example
+ * ```ts
+ * const server = new McpServer(client, { scope: { user_id: "alice" } });
+ *
+ * // For hosts that launch the server as a subprocess
+ * await server.serveStdio();
+ *
+ * // Or over HTTP, reachable from this machine only
+ * Deno.serve({ hostname: "127.0.0.1" }, (request) => server.handleRequest(request));
+ * ```
+ */
+export class McpServer {
+  #client: MemoryClient;
+  #options: McpServerOptions;
+
+  /**
+   * Creates a new McpServer instance.
+   *
+   * @param client - Client the tools call
+   * @param options - Default scope, read-only mode and server details
+   * @throws {InvalidArgumentError} When the scope has no entity ID
+   */
+  constructor(client: MemoryClient, options: McpServerOptions = {}) {
+    if (options.scope) {
+      // Fail at startup rather than on the first tool call
+      client.scope(options.scope);
+    }
+    this.#client = client;
+    this.#options = options;
+  }
+
+  /**
+   * Handles one JSON-RPC message from the host.
+   *
+   * @param message - Parsed JSON-RPC request or notification
+   * @returns The response, or null for notifications
+   */
+  async handle(message: unknown): Promise<JsonRpcResponse | null> {
+    if (message === null || typeof message !== "object" || Array.isArray(message)) {
+      return failure(null, INVALID_REQUEST, "Invalid request");
+    }
+    const { id, method, params } = message as Record<string, unknown>;
+    if (id === undefined) {
+      // Notifications (initialized, cancelled) and responses need no reply
+      return null;
+    }
+    if (typeof id !== "string" && typeof id !== "number" || typeof method !== "string") {
+      return failure(null, INVALID_REQUEST, "Invalid request");
+    }
+    const args = (params ?? {}) as Record<string, unknown>;
+
+    switch (method) {
+      case "initialize": {
+        const requested = args.protocolVersion;
+        return success(id, {
+          protocolVersion: PROTOCOL_VERSIONS.includes(requested as string)
+            ? requested
+            : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: {
+            name: this.#options.name ?? "mem0",
+            version: this.#options.version ?? "0.1.0",
+          },
+          ...(this.#options.instructions ? { instructions: this.#options.instructions } : {}),
+        });
+      }
+
+      case "ping":
+        return success(id, {});
+
+      case "tools/list":
+        return success(id, {
+          tools: listMemoryTools(this.#options).map((tool) => ({
+            name: tool.name,
+            title: tool.title,
+            description: tool.description,
+            inputSchema: tool.inputSchema,
+            annotations: {
+              title: tool.title,
+              readOnlyHint: tool.readOnly,
+              destructiveHint: tool.destructive,
+              idempotentHint: tool.readOnly,
+              openWorldHint: false,
+            },
+          })),
+        });
+
+      case "tools/call":
+        return await this.#callTool(id, args);
+
+      default:
+        return failure(id, METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  /**
+   * Serves the host over newline-delimited JSON on stdin and stdout until
+   * the input ends. Requests are handled concurrently.
+   *
+   * @param options - Streams to use instead of stdin and stdout
+   */
+  async serveStdio(options: McpStdioOptions = {}): Promise<void> {
+    const input = options.input ?? Deno.stdin.readable;
+    const writer = (options.output ?? Deno.stdout.writable).getWriter();
+    const encoder = new TextEncoder();
+    const pending = new Set<Promise<void>>();
+
+    const reply = async (line: string): Promise<void> => {
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        message = undefined;
+      }
+      const response = message === undefined
+        ? failure(null, PARSE_ERROR, "Parse error")
+        : await this.handle(message);
+      if (response) {
+        await writer.write(encoder.encode(`${JSON.stringify(response)}\n`));
+      }
+    };
+
+    let buffer = "";
+    for await (const chunk of input.pipeThrough(new TextDecoderStream())) {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+      for (const line of lines.map((text) => text.trim()).filter(Boolean)) {
+        const task = reply(line).finally(() => pending.delete(task));
+        pending.add(task);
+      }
+    }
+    if (buffer.trim()) {
+      await reply(buffer.trim());
+    }
+    await Promise.all(pending);
+    await writer.close();
+  }
+
+  /**
+   * Handles a streamable HTTP request; pass to `Deno.serve`.
+   *
+   * POST a JSON-RPC message to get its response as JSON, or 202 for
+   * notifications. Server-sent event streams are not offered, so GET is
+   * answered with 405. Requests from a browser origin that is not allowed
+   * get 403, which stops web pages reaching a local server through DNS
+   * rebinding. The server does no authentication of its own: listen on
+   * 127.0.0.1, or put it behind something that does.
+   *
+   * @param request - Incoming HTTP request
+   * @returns The HTTP response
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    const origin = request.headers.get("origin");
+    if (origin !== null && !this.#originAllowed(origin)) {
+      return new Response("Origin not allowed", { status: 403 });
+    }
+    if (request.method !== "POST") {
+      return new Response("Method not allowed", { status: 405, headers: { Allow: "POST" } });
+    }
+    let message: unknown;
+    try {
+      message = await request.json();
+    } catch {
+      return Response.json(failure(null, PARSE_ERROR, "Parse error"), { status: 400 });
+    }
+    const response = await this.handle(message);
+    return response ? Response.json(response) : new Response(null, { status: 202 });
+  }
+
+  #originAllowed(origin: string): boolean {
+    if (this.#options.allowedOrigins) {
+      return this.#options.allowedOrigins.includes(origin);
+    }
+    try {
+      return LOCAL_HOSTNAMES.includes(new URL(origin).hostname);
+    } catch {
+      // "null" and other opaque origins
+      return false;
+    }
+  }
+
+  async #callTool(id: string | number, params: Record<string, unknown>): Promise<JsonRpcResponse> {
+    const name = params.name;
+    const known = listMemoryTools({ ...this.#options, readOnly: false });
+    if (typeof name !== "string" || !known.some((tool) => tool.name === name)) {
+      return failure(id, INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+    try {
+      const result = await callMemoryTool(this.#client, name, params.arguments, this.#options);
+      return success(id, {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      });
+    } catch (error) {
+      if (!(error instanceof Mem0Error)) {
+        return failure(id, INTERNAL_ERROR, (error as Error).message);
+      }
+      const fields = error instanceof InvalidArgumentError || error instanceof ValidationError
+        ? Object.entries(error.fieldErrors).map(([field, messages]) =>
+          `\n${field}: ${messages.join(" ")}`
+        ).join("")
+        : "";
+      return success(id, {
+        content: [{ type: "text", text: `${error.name}: ${error.message}${fields}` }],
+        isError: true,
+      });
+    }
+  }
+}
+
+function success(id: string | number, result: unknown): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, result };
+}
+
+function failure(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
@@ -0,0 +1,610 @@
+/**
+ * @module
+ * Shadow writes across two Mem0 projects, for migrating tenants between
+ * projects or organizations.
+ *
+ * A {@link MirroredMemoryClient} sends every write to a primary and a
+ * secondary client and serves reads from the primary. Memory IDs differ
+ * between projects, so it keeps a map from primary to secondary IDs, built
+ * from the results of mirrored adds and seeded from a `restore` report for
+ * memories that existed before mirroring began. Anything the secondary did
+ * not apply is recorded as a {@link MirrorDivergence} instead of failing the
+ * write. {@link reconcile} compares the two projects for one entity and lists
+ * what is missing on each side.
+ *
+ * @example
+ * ```ts
+ * import { MemoryClient, MirroredMemoryClient, reconcile, restore } from "sdk-deno-mem0";
+ *
+ * const oldProject = new MemoryClient({ apiKey: Deno.env.get("MEM0_OLD_KEY")! });
+ * const newProject = new MemoryClient({ apiKey: Deno.env.get("MEM0_NEW_KEY")! });
+ *
+ * const { idMap } = await restore("./backup.jsonl", { targetClient: newProject });
+ * const mirror = new MirroredMemoryClient({
+ *   primary: oldProject,
+ *   secondary: newProject,
+ *   idMapping: idMap,
+ *   onDivergence: (divergence) => console.warn(divergence.message),
+ * });
+ *
+ * await mirror.add(messages, { user_id: "alice" });
+ * const drift = await reconcile(oldProject, newProject, { user_id: "alice", idMapping: mirror.idMap });
+ * ```
+ */
+
+import { BatchError, InvalidArgumentError } from "./error.ts";
+import type { MemoryClient } from "./client.ts";
+import type {
+  AllUsers,
+  BatchOptions,
+  BatchReport,
+  Memory,
+  MemoryHistory,
+  MemoryOptions,
+  MemoryUpdateBody,
+  Message,
+  Page,
+  RequestOptions,
+  SearchOptions,
+} from "./types.ts";
+
+/**
+ * Configuration options for {@link MirroredMemoryClient}.
+ */
+export interface MirrorOptions {
+  /** Client that serves reads and whose results are returned from writes */
+  primary: MemoryClient;
+  /** Client that receives a copy of every write */
+  secondary: MemoryClient;
+  /**
+   * Primary-to-secondary IDs of memories that already exist in both projects,
+   * e.g. the `idMap` of a `restore` report
+   */
+  idMapping?: Record<string, string>;
+  /** Called whenever a divergence is recorded */
+  onDivergence?: (divergence: MirrorDivergence) => void;
+}
+
+/**
+ * A write that was applied to the primary but not, or not identically, to the secondary.
+ */
+export interface MirrorDivergence {
+  /** Mirrored operation */
+  operation: "add" | "update" | "delete" | "batchUpdate" | "batchDelete";
+  /**
+   * `secondary_failed`: the secondary rejected the write.
+   * `unmapped`: the memory has no known secondary ID, so the write was not sent.
+   * `result_mismatch`: the two projects created different memories for the same add.
+   */
+  kind: "secondary_failed" | "unmapped" | "result_mismatch";
+  /** Primary memory ID, when the divergence concerns one memory */
+  memoryId?: string;
+  /** Human-readable description */
+  message: string;
+  /** Error raised by the secondary, for `secondary_failed` */
+  error?: Error;
+  /** When the divergence was recorded */
+  at: Date;
+}
+
+/**
+ * Entity to compare with {@link reconcile}, plus known ID pairs. At least one
+ * entity ID is required.
+ */
+export interface ReconcileOptions
+  extends Pick<MemoryOptions, "user_id" | "agent_id" | "app_id" | "run_id"> {
+  /** Primary-to-secondary IDs of memories known to correspond */
+  idMapping?: Record<string, string>;
+}
+
+/**
+ * Differences between two projects for one entity.
+ */
+export interface ReconciliationReport {
+  /** Number of memories present on both sides with the same text */
+  matched: number;
+  /** Memories on the secondary with no counterpart on the primary */
+  missingOnPrimary: Array<Memory>;
+  /** Memories on the primary with no counterpart on the secondary */
+  missingOnSecondary: Array<Memory>;
+  /** Memories paired through the ID mapping whose text differs */
+  mismatched: Array<{ primary: Memory; secondary: Memory }>;
+}
+
+/**
+ * Writes to two projects at once and reads from the primary.
+ *
+ * Writes go to the primary first; if it fails the error is thrown and the
+ * secondary is left untouched. Secondary failures never fail the call: they
+ * are recorded in {@link MirroredMemoryClient.divergences}. Methods not
+ * mirrored here can be called on {@link MirroredMemoryClient.primary} and
+ * {@link MirroredMemoryClient.secondary} directly.
+ */
+export class MirroredMemoryClient {
+  /** Client that serves reads */
+  readonly primary: MemoryClient;
+  /** Client that receives a copy of every write */
+  readonly secondary: MemoryClient;
+
+  #idMap: Map<string, string>;
+  #divergences: Array<MirrorDivergence> = [];
+  #onDivergence: ((divergence: MirrorDivergence) => void) | undefined;
+
+  /**
+   * Creates a new MirroredMemoryClient instance.
+   *
+   * @param options - Primary and secondary clients, known ID pairs and divergence callback
+   */
+  constructor(options: MirrorOptions) {
+    this.primary = options.primary;
+    this.secondary = options.secondary;
+    this.#idMap = new Map(Object.entries(options.idMapping ?? {}));
+    this.#onDivergence = options.onDivergence;
+  }
+
+  /**
+   * Primary-to-secondary IDs of every memory known to exist in both projects.
+   */
+  get idMap(): Record<string, string> {
+    return Object.fromEntries(this.#idMap);
+  }
+
+  /**
+   * Divergences recorded so far, oldest first.
+   */
+  get divergences(): Array<MirrorDivergence> {
+    return [...this.#divergences];
+  }
+
+  /**
+   * Adds memories to both projects and pairs the created memories by text.
+   *
+   * @param messages - Array of conversation messages with role and content
+   * @param options - Optional parameters including user_id, agent_id, metadata
+   * @param requestOptions - Per-call options applied to both requests
+   * @returns Memories created on the primary
+   * @throws {InvalidArgumentError} When `async_mode` is set; queued adds cannot be paired
+   * @throws {APIError} When the primary returns a non-OK response
+   */
+  async add(
+    messages: Array<Message>,
+    options: MemoryOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory>> {
+    if (options.async_mode) {
+      throw new InvalidArgumentError("async_mode is not supported by MirroredMemoryClient", {
+        fieldErrors: { async_mode: ["Not supported when mirroring."] },
+      });
+    }
+    const created = await this.primary.add(
+      messages,
+      { ...options, async_mode: false },
+      requestOptions,
+    );
+
+    let mirrored: Array<Memory>;
+    try {
+      mirrored = await this.secondary.add(
+        messages,
+        { ...options, async_mode: false },
+        requestOptions,
+      );
+    } catch (error) {
+      this.#record("add", "secondary_failed", "Secondary add failed", { error });
+      return created;
+    }
+
+    // Pair memories with identical text; anything left over on either side diverged.
+    const unpaired = [...mirrored];
+    for (const memory of created) {
+      const index = unpaired.findIndex((candidate) => candidate.memory === memory.memory);
+      if (index === -1) {
+        this.#record(
+          "add",
+          "result_mismatch",
+          `Secondary has no memory matching "${memory.memory}"`,
+          { memoryId: memory.id },
+        );
+        continue;
+      }
+      this.#idMap.set(memory.id, unpaired[index]!.id);
+      unpaired.splice(index, 1);
+    }
+    for (const memory of unpaired) {
+      this.#record(
+        "add",
+        "result_mismatch",
+        `Primary has no memory matching secondary memory ${memory.id} "${memory.memory}"`,
+      );
+    }
+    return created;
+  }
+
+  /**
+   * Updates a memory in both projects.
+   *
+   * @param memoryId - Primary ID of the memory to update
+   * @param data - Object containing text and/or metadata to update
+   * @param requestOptions - Per-call options applied to both requests
+   * @returns Updated memory on the primary
+   * @throws {APIError} When the primary returns a non-OK response
+   */
+  async update(
+    memoryId: string,
+    data: { text?: string; metadata?: Record<string, unknown> },
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory>> {
+    const updated = await this.primary.update(memoryId, data, requestOptions);
+    const secondaryId = this.#secondaryId("update", memoryId);
+    if (secondaryId) {
+      try {
+        await this.secondary.update(secondaryId, data, requestOptions);
+      } catch (error) {
+        this.#record("update", "secondary_failed", `Secondary update of ${memoryId} failed`, {
+          memoryId,
+          error,
+        });
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Deletes a memory from both projects.
+   *
+   * @param memoryId - Primary ID of the memory to delete
+   * @param requestOptions - Per-call options applied to both requests
+   * @returns Confirmation message from the primary
+   * @throws {APIError} When the primary returns a non-OK response
+   */
+  async delete(
+    memoryId: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string }> {
+    const result = await this.primary.delete(memoryId, requestOptions);
+    const secondaryId = this.#secondaryId("delete", memoryId);
+    if (secondaryId) {
+      try {
+        await this.secondary.delete(secondaryId, requestOptions);
+        this.#idMap.delete(memoryId);
+      } catch (error) {
+        this.#record("delete", "secondary_failed", `Secondary delete of ${memoryId} failed`, {
+          memoryId,
+          error,
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Updates many memories in both projects.
+   *
+   * Only items the primary updated are sent to the secondary, which always
+   * runs with `continueOnError` so one bad chunk does not stop the mirror.
+   *
+   * @param memories - Array of objects with primary memoryId and new text
+   * @param options - Chunk size, concurrency, error handling and progress callback for the primary
+   * @param requestOptions - Per-call options applied to every request
+   * @returns Report of the primary batch
+   * @throws {BatchError} When a primary chunk fails and `continueOnError` is not set
+   */
+  async batchUpdate(
+    memories: Array<MemoryUpdateBody>,
+    options: BatchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<BatchReport> {
+    return await this.#mirrorBatch(
+      "batchUpdate",
+      memories,
+      (memory) => memory.memoryId,
+      (items, batchOptions) => this.primary.batchUpdate(items, batchOptions, requestOptions),
+      (items, batchOptions) =>
+        this.secondary.batchUpdate(
+          items.map((memory) => ({ ...memory, memoryId: this.#idMap.get(memory.memoryId)! })),
+          batchOptions,
+          requestOptions,
+        ),
+      options,
+    );
+  }
+
+  /**
+   * Deletes many memories from both projects.
+   *
+   * Only items the primary deleted are sent to the secondary, which always
+   * runs with `continueOnError` so one bad chunk does not stop the mirror.
+   *
+   * @param memoryIds - Primary IDs of the memories to delete
+   * @param options - Chunk size, concurrency, error handling and progress callback for the primary
+   * @param requestOptions - Per-call options applied to every request
+   * @returns Report of the primary batch
+   * @throws {BatchError} When a primary chunk fails and `continueOnError` is not set
+   */
+  async batchDelete(
+    memoryIds: Array<string>,
+    options: BatchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<BatchReport> {
+    return await this.#mirrorBatch(
+      "batchDelete",
+      memoryIds,
+      (memoryId) => memoryId,
+      (items, batchOptions) => this.primary.batchDelete(items, batchOptions, requestOptions),
+      (items, batchOptions) =>
+        this.secondary.batchDelete(
+          items.map((memoryId) => this.#idMap.get(memoryId)!),
+          batchOptions,
+          requestOptions,
+        ),
+      options,
+    );
+  }
+
+  /**
+   * Retrieves a memory from the primary.
+   *
+   * @param memoryId - The ID of the memory to retrieve
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The Memory object
+   */
+  get(memoryId: string, requestOptions: RequestOptions = {}): Promise<Memory> {
+    return this.primary.get(memoryId, requestOptions);
+  }
+
+  /**
+   * Retrieves all memories matching the given filters from the primary.
+   *
+   * @param options - Filter options including user_id, agent_id, pagination
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of Memory objects
+   */
+  getAll(options: SearchOptions = {}, requestOptions: RequestOptions = {}): Promise<Array<Memory>> {
+    return this.primary.getAll(options, requestOptions);
+  }
+
+  /**
+   * Retrieves a single page of memories from the primary.
+   *
+   * @param options - Filter options; `page` defaults to 1 and `page_size` to 100
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The page of memories with total count and next/previous links
+   */
+  getPage(options: SearchOptions = {}, requestOptions: RequestOptions = {}): Promise<Page<Memory>> {
+    return this.primary.getPage(options, requestOptions);
+  }
+
+  /**
+   * Iterates over every memory matching the given filters on the primary.
+   *
+   * @param options - Filter options; `page` sets the first page and `page_size` the page size
+   * @param requestOptions - Per-call options applied to every page request
+   * @returns Async iterator over Memory objects
+   */
+  iterateAll(
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): AsyncIterableIterator<Memory> {
+    return this.primary.iterateAll(options, requestOptions);
+  }
+
+  /**
+   * Searches memories on the primary.
+   *
+   * @param query - The search query string
+   * @param options - Search options including filters and thresholds
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of Memory objects sorted by relevance
+   */
+  search(
+    query: string,
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory>> {
+    return this.primary.search(query, options, requestOptions);
+  }
+
+  /**
+   * Retrieves the change history of a memory from the primary.
+   *
+   * @param memoryId - The ID of the memory
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of history entries in chronological order
+   */
+  history(memoryId: string, requestOptions: RequestOptions = {}): Promise<Array<MemoryHistory>> {
+    return this.primary.history(memoryId, requestOptions);
+  }
+
+  /**
+   * Retrieves the users/entities of the primary.
+   *
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Paginated list of users
+   */
+  users(requestOptions: RequestOptions = {}): Promise<AllUsers> {
+    return this.primary.users(requestOptions);
+  }
+
+  /**
+   * Compares the two projects for one entity, using the mirror's ID map.
+   *
+   * @param options - Entity to compare
+   * @param requestOptions - Per-call options applied to every page request
+   * @returns Memories missing on each side and mapped pairs whose text differs
+   */
+  reconcile(
+    options: Omit<ReconcileOptions, "idMapping">,
+    requestOptions: RequestOptions = {},
+  ): Promise<ReconciliationReport> {
+    return reconcile(
+      this.primary,
+      this.secondary,
+      { ...options, idMapping: this.idMap },
+      requestOptions,
+    );
+  }
+
+  async #mirrorBatch<T>(
+    operation: "batchUpdate" | "batchDelete",
+    items: Array<T>,
+    getId: (item: T) => string,
+    sendPrimary: (items: Array<T>, options: BatchOptions) => Promise<BatchReport>,
+    sendSecondary: (items: Array<T>, options: BatchOptions) => Promise<BatchReport>,
+    options: BatchOptions,
+  ): Promise<BatchReport> {
+    let report: BatchReport;
+    let primaryError: BatchError | undefined;
+    try {
+      report = await sendPrimary(items, options);
+    } catch (error) {
+      // Items the primary applied before the failure must still reach the secondary.
+      if (!(error instanceof BatchError)) {
+        throw error;
+      }
+      primaryError = error;
+      report = error.report;
+    }
+
+    const applied = new Set(report.succeeded);
+    const mirrored = items.filter((item) => {
+      const memoryId = getId(item);
+      return applied.has(memoryId) && this.#secondaryId(operation, memoryId) !== undefined;
+    });
+    if (mirrored.length > 0) {
+      const secondaryToPrimary = new Map(
+        mirrored.map((item) => [this.#idMap.get(getId(item))!, getId(item)]),
+      );
+      try {
+        const secondaryReport = await sendSecondary(mirrored, {
+          chunkSize: options.chunkSize,
+          concurrency: options.concurrency,
+          continueOnError: true,
+        });
+        if (operation === "batchDelete") {
+          for (const id of secondaryReport.succeeded) {
+            this.#idMap.delete(secondaryToPrimary.get(id)!);
+          }
+        }
+        for (const { id, error } of secondaryReport.failed) {
+          const memoryId = secondaryToPrimary.get(id);
+          this.#record(
+            operation,
+            "secondary_failed",
+            `Secondary ${operation} of ${memoryId} failed`,
+            {
+              memoryId,
+              error,
+            },
+          );
+        }
+      } catch (error) {
+        this.#record(operation, "secondary_failed", `Secondary ${operation} failed`, { error });
+      }
+    }
+
+    if (primaryError) {
+      throw primaryError;
+    }
+    return report;
+  }
+
+  /**
+   * Looks up the secondary ID of a memory, recording an `unmapped` divergence if there is none.
+   */
+  #secondaryId(operation: MirrorDivergence["operation"], memoryId: string): string | undefined {
+    const secondaryId = this.#idMap.get(memoryId);
+    if (secondaryId === undefined) {
+      this.#record(operation, "unmapped", `No secondary ID is known for ${memoryId}`, {
+        memoryId,
+      });
+    }
+    return secondaryId;
+  }
+
+  #record(
+    operation: MirrorDivergence["operation"],
+    kind: MirrorDivergence["kind"],
+    message: string,
+    extra: { memoryId?: string; error?: unknown } = {},
+  ): void {
+    const divergence: MirrorDivergence = { operation, kind, message, at: new Date() };
+    if (extra.memoryId !== undefined) {
+      divergence.memoryId = extra.memoryId;
+    }
+    if (extra.error !== undefined) {
+      divergence.error = extra.error instanceof Error
+        ? extra.error
+        : new Error(String(extra.error));
+    }
+    this.#divergences.push(divergence);
+    this.#onDivergence?.(divergence);
+  }
+}
+
+/**
+ * Compares the memories of one entity across two projects.
+ *
+ * Memories are paired through `idMapping` first; the rest are paired by
+ * identical text. Mapped pairs whose text differs are reported as mismatched.
+ *
+ * @param primary - Client for the first project
+ * @param secondary - Client for the second project
+ * @param options - Entity to compare and known primary-to-secondary ID pairs
+ * @param requestOptions - Per-call options applied to every page request
+ * @returns Memories missing on each side and mapped pairs whose text differs
+ * @throws {InvalidArgumentError} When no entity ID is given
+ * @throws {APIError} When either API returns a non-OK response
+ */
+export async function reconcile(
+  primary: MemoryClient,
+  secondary: MemoryClient,
+  options: ReconcileOptions,
+  requestOptions: RequestOptions = {},
+): Promise<ReconciliationReport> {
+  const { idMapping = {}, ...entity } = options;
+  if (!entity.user_id && !entity.agent_id && !entity.app_id && !entity.run_id) {
+    throw new InvalidArgumentError("reconcile requires user_id, agent_id, app_id or run_id", {
+      fieldErrors: { user_id: ["One entity ID is required."] },
+    });
+  }
+
+  const [primaryMemories, secondaryMemories] = await Promise.all([
+    Array.fromAsync(primary.iterateAll(entity, requestOptions)),
+    Array.fromAsync(secondary.iterateAll(entity, requestOptions)),
+  ]);
+  const report: ReconciliationReport = {
+    matched: 0,
+    missingOnPrimary: [],
+    missingOnSecondary: [],
+    mismatched: [],
+  };
+
+  const unpaired = new Map(secondaryMemories.map((memory) => [memory.id, memory]));
+  const byText: Array<Memory> = [];
+  for (const memory of primaryMemories) {
+    const counterpart = unpaired.get(idMapping[memory.id] ?? "");
+    if (!counterpart) {
+      byText.push(memory);
+      continue;
+    }
+    unpaired.delete(counterpart.id);
+    if (counterpart.memory === memory.memory) {
+      report.matched++;
+    } else {
+      report.mismatched.push({ primary: memory, secondary: counterpart });
+    }
+  }
+  for (const memory of byText) {
+    const counterpart = [...unpaired.values()].find((candidate) =>
+      candidate.memory === memory.memory
+    );
+    if (counterpart) {
+      unpaired.delete(counterpart.id);
+      report.matched++;
+    } else {
+      report.missingOnSecondary.push(memory);
+    }
+  }
+  report.missingOnPrimary = [...unpaired.values()];
+  return report;
+}
@@ -64,39 +64,172 @@
  * When running with Deno, the SDK requires:
  * - `--allow-net` for API calls
  * - `--allow-env` if reading API key from environment
+ * - `--allow-read` and `--allow-write` for file-based features: checkpoints, saved exports and backups
  */
 
 // Export the main client class
 export { MemoryClient } from "./client.ts";
+export { AddJob, ExportJob } from "./jobs.ts";
+export { ScopedMemoryClient } from "./scope.ts";
 
-// Export the error class for error handling
-export { APIError } from "./error.ts";
+// Export client-side backup and restore
+export { backup, restore } from "./backup.ts";
+export type {
+  BackupOptions,
+  BackupSummary,
+  RestoreOptions,
+  RestoreProgress,
+  RestoreReport,
+} from "./backup.ts";
+
+// Export shadow writes across two projects
+export { MirroredMemoryClient, reconcile } from "./mirror.ts";
+export type {
+  MirrorDivergence,
+  MirrorOptions,
+  ReconcileOptions,
+  ReconciliationReport,
+} from "./mirror.ts";
+
+// Export project settings as code
+export { readProjectConfig } from "./project.ts";
+
+// Export the Model Context Protocol server
+export { McpServer } from "./mcp.ts";
+export type { JsonRpcResponse, McpServerOptions, McpStdioOptions } from "./mcp.ts";
+
+// Export tool definitions for LLM function calling
+export type {
+  AnthropicTool,
+  JsonSchema,
+  MemoryToolDefinition,
+  MemoryToolOperation,
+  MemoryToolOptions,
+  MemoryToolset,
+  OpenAITool,
+  ToolDefinitionOptions,
+  ToolDialect,
+  ToolDialects,
+} from "./tools.ts";
+
+// Export webhook verification and typed events
+export {
+  createWebhookHandler,
+  SIGNATURE_HEADER,
+  signWebhook,
+  TIMESTAMP_HEADER,
+  verifyAndParse,
+  WebhookEventType,
+} from "./webhooks.ts";
+export type {
+  MemoryAddWebhookEvent,
+  MemoryCategorizeWebhookEvent,
+  MemoryDeleteWebhookEvent,
+  MemoryUpdateWebhookEvent,
+  VerifyWebhookOptions,
+  WebhookEvent,
+  WebhookEventDetails,
+  WebhookHandlerOptions,
+} from "./webhooks.ts";
+
+// Export the error classes for error handling
+export {
+  AbortError,
+  APIError,
+  AuthenticationError,
+  BatchError,
+  InvalidArgumentError,
+  Mem0Error,
+  MemoryEventError,
+  MemoryExportError,
+  NetworkError,
+  NotFoundError,
+  OperationBlockedError,
+  PermissionDeniedError,
+  ProjectConflictError,
+  RateLimitError,
+  ResponseValidationError,
+  ScopeError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  WebhookVerificationError,
+} from "./error.ts";
+export type { ErrorDetails } from "./error.ts";
 
 // Export all types for TypeScript users
 export type {
+  AddManyItem,
+  AddManyOptions,
+  AddManyProgress,
+  AddManyResult,
   AllUsers,
+  BatchChunk,
+  BatchOptions,
+  BatchProgress,
+  BatchReport,
   ClientOptions,
   CreateMemoryExportPayload,
   CustomCategory,
+  DeleteAllOptions,
+  DeleteUsersOptions,
+  DeletionGuardOptions,
+  DeletionPreview,
   ExportCommon,
   FeedbackPayload,
+  FetchFunction,
   GetMemoryExportPayload,
   Memory,
   MemoryData,
+  MemoryEvent,
+  MemoryEventStatus,
+  MemoryExport,
+  MemoryExportStatus,
   MemoryHistory,
+  MemoryOperation,
   MemoryOptions,
+  MemoryScope,
   MemoryUpdateBody,
   Message,
   Messages,
+  Middleware,
+  MiddlewareRequest,
   MultiModalMessages,
+  Page,
+  ProjectConfig,
   ProjectOptions,
+  ProjectPlan,
   ProjectResponse,
   PromptUpdatePayload,
+  RequestOptions,
+  RetryAttempt,
+  RetryOptions,
+  SaveExportOptions,
   SearchOptions,
+  SyncWebhooksOptions,
   User,
+  WaitOptions,
   Webhook,
   WebhookPayload,
+  WebhookSpec,
+  WebhookSyncAction,
+  WebhookSyncResult,
 } from "./types.ts";
 
+// Export the v2 filter builder
+export { f } from "./filter.ts";
+export type {
+  ComparableField,
+  DateField,
+  FieldCondition,
+  Filter,
+  FilterBuilder,
+  FilterField,
+  FilterFields,
+  FilterInput,
+  FilterOperators,
+  TextField,
+} from "./filter.ts";
+
 // Export enums as values (not just types)
 export { API_VERSION, Feedback, OutputFormat } from "./types.ts";
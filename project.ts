@@ -0,0 +1,193 @@
+/**
+ * @module
+ * Project settings as code: reading a {@link ProjectConfig} file and
+ * comparing it with the live project for `planProject` and `applyProject`.
+ */
+
+import { InvalidArgumentError, Mem0Error } from "./error.ts";
+import type { ProjectConfig, ProjectPlan, ProjectResponse } from "./types.ts";
+
+/** Settings a {@link ProjectConfig} can manage. */
+export const PROJECT_CONFIG_FIELDS = ["custom_instructions", "custom_categories"] as const;
+
+/**
+ * Reads and validates a project config file.
+ *
+ * @param path - JSON file holding a {@link ProjectConfig}
+ * @returns The config
+ * @throws {Mem0Error} When the file cannot be read or is not valid JSON
+ * @throws {InvalidArgumentError} When the JSON is not a valid project config
+ *
+ * @example
+ * ```ts
+ * const config = await readProjectConfig("./mem0.project.json");
+ * const plan = await client.planProject(config);
+ * console.log(plan.diff);
+ * ```
+ */
+export async function readProjectConfig(path: string): Promise<ProjectConfig> {
+  let value: unknown;
+  try {
+    value = JSON.parse(await Deno.readTextFile(path));
+  } catch (cause) {
+    throw new Mem0Error(`Project config ${path} could not be read as JSON`, { cause });
+  }
+  return validateProjectConfig(value, path);
+}
+
+/**
+ * Checks that a value is a {@link ProjectConfig}.
+ *
+ * @throws {InvalidArgumentError} Listing every invalid field
+ */
+export function validateProjectConfig(value: unknown, source = "Project config"): ProjectConfig {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new InvalidArgumentError(`${source} must be a JSON object`);
+  }
+
+  const fieldErrors: Record<string, Array<string>> = {};
+  const record = value as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (!(PROJECT_CONFIG_FIELDS as ReadonlyArray<string>).includes(key)) {
+      fieldErrors[key] = ["Unknown field."];
+    }
+  }
+  const instructions = record.custom_instructions;
+  if (instructions !== undefined && instructions !== null && typeof instructions !== "string") {
+    fieldErrors.custom_instructions = ["Must be a string or null."];
+  }
+  const categories = record.custom_categories;
+  if (categories !== undefined) {
+    const valid = Array.isArray(categories) &&
+      categories.every((category) =>
+        category !== null && typeof category === "object" && !Array.isArray(category) &&
+        Object.keys(category).length === 1 &&
+        typeof Object.values(category)[0] === "string"
+      );
+    if (!valid) {
+      fieldErrors.custom_categories = [
+        "Must be an array of objects mapping one category name to its description.",
+      ];
+    } else {
+      const names = categories.map((category) => Object.keys(category)[0]!);
+      const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+      if (duplicate !== undefined) {
+        fieldErrors.custom_categories = [`Category "${duplicate}" is listed twice.`];
+      }
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new InvalidArgumentError(`${source} is not a valid project config`, { fieldErrors });
+  }
+  return record as ProjectConfig;
+}
+
+/**
+ * Picks the fields a config manages out of a `getProject` response, in
+ * config form.
+ */
+export function currentProjectConfig(
+  config: ProjectConfig,
+  project: ProjectResponse,
+): ProjectConfig {
+  const current: ProjectConfig = {};
+  if (config.custom_instructions !== undefined) {
+    current.custom_instructions = project.custom_instructions || null;
+  }
+  if (config.custom_categories !== undefined) {
+    current.custom_categories = [...categoryMap(project.custom_categories)].map((
+      [name, description],
+    ) => ({ [name]: description ?? "" }));
+  }
+  return current;
+}
+
+/**
+ * Compares a config with the live project.
+ */
+export function planProjectChanges(config: ProjectConfig, project: ProjectResponse): ProjectPlan {
+  const current = currentProjectConfig(config, project);
+  const plan: ProjectPlan = {
+    config,
+    current,
+    instructions: null,
+    categories: { added: [], removed: [], changed: [] },
+    hasChanges: false,
+    diff: "",
+  };
+  const lines: Array<string> = [];
+
+  if (
+    config.custom_instructions !== undefined &&
+    (config.custom_instructions || null) !== current.custom_instructions
+  ) {
+    plan.instructions = {
+      from: current.custom_instructions ?? null,
+      to: config.custom_instructions || null,
+    };
+    lines.push("~ custom_instructions");
+    for (const line of plan.instructions.from?.split("\n") ?? []) {
+      lines.push(`    - ${line}`);
+    }
+    for (const line of plan.instructions.to?.split("\n") ?? []) {
+      lines.push(`    + ${line}`);
+    }
+  }
+
+  if (config.custom_categories !== undefined) {
+    const live = categoryMap(project.custom_categories);
+    const wanted = categoryMap(config.custom_categories);
+    for (const [name, description] of wanted) {
+      if (!live.has(name)) {
+        plan.categories.added.push({ name, description: description! });
+        lines.push(`+ category ${name}: ${description}`);
+      } else if (live.get(name) !== null && live.get(name) !== description) {
+        // Bare names carry no description to compare against.
+        const from = live.get(name)!;
+        plan.categories.changed.push({ name, from, to: description! });
+        lines.push(`~ category ${name}: ${JSON.stringify(from)} -> ${JSON.stringify(description)}`);
+      }
+    }
+    for (const [name, description] of live) {
+      if (!wanted.has(name)) {
+        plan.categories.removed.push({ name, description });
+        lines.push(`- category ${name}${description === null ? "" : `: ${description}`}`);
+      }
+    }
+  }
+
+  plan.hasChanges = lines.length > 0;
+  plan.diff = plan.hasChanges ? lines.join("\n") : "No changes";
+  return plan;
+}
+
+/**
+ * Whether two configs hold the same values, ignoring category order.
+ */
+export function sameProjectConfig(a: ProjectConfig, b: ProjectConfig): boolean {
+  const normalize = (config: ProjectConfig): string =>
+    JSON.stringify([
+      config.custom_instructions ?? null,
+      [...categoryMap(config.custom_categories)].sort(([x], [y]) => x.localeCompare(y)),
+    ]);
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Maps category names to descriptions. The API lists categories either as
+ * `{ name: description }` objects or as bare names, whose description is unknown.
+ */
+function categoryMap(categories: unknown): Map<string, string | null> {
+  const map = new Map<string, string | null>();
+  for (const category of Array.isArray(categories) ? categories : []) {
+    if (typeof category === "string") {
+      map.set(category, null);
+    } else if (category !== null && typeof category === "object") {
+      for (const [name, description] of Object.entries(category)) {
+        map.set(name, typeof description === "string" ? description : null);
+      }
+    }
+  }
+  return map;
+}
@@ -0,0 +1,167 @@
+/**
+ * @module
+ * Retry policy helpers used by the MemoryClient request layer.
+ */
+
+import type { RetryOptions } from "./types.ts";
+
+/** Status codes retried when the policy does not list its own. */
+const DEFAULT_RETRY_STATUS = [408, 429, 500, 502, 503, 504];
+
+/**
+ * A retry policy with every default filled in.
+ */
+export interface ResolvedRetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  jitter: boolean;
+  retryOnStatus: number[];
+  retryOnNetworkError: boolean;
+  retryOnTimeout: boolean;
+  respectRetryAfter: boolean;
+  retryNonIdempotent: boolean;
+  onRetry?: RetryOptions["onRetry"];
+}
+
+/**
+ * Describes why a single attempt failed.
+ */
+export interface AttemptFailure {
+  /** What went wrong: an HTTP error response, a network failure or a timeout */
+  kind: "status" | "network" | "timeout";
+  /** HTTP status code, for `status` failures */
+  status?: number;
+  /** Delay requested by a Retry-After header, in milliseconds */
+  retryAfterMs?: number | null;
+}
+
+/**
+ * Merges the client-level and per-call retry options into a complete policy.
+ *
+ * A missing client policy means "no retries" unless the call provides its own;
+ * `false` on the call disables retries regardless of the client policy.
+ */
+export function resolveRetryPolicy(
+  clientRetry: RetryOptions | false | undefined,
+  callRetry: RetryOptions | false | undefined,
+): ResolvedRetryPolicy {
+  const disabled = callRetry === false || (callRetry === undefined && !clientRetry);
+  const options: RetryOptions = {
+    ...(clientRetry || {}),
+    ...(callRetry || {}),
+  };
+
+  return {
+    maxAttempts: disabled ? 1 : Math.max(1, options.maxAttempts ?? 3),
+    initialDelayMs: options.initialDelayMs ?? 500,
+    maxDelayMs: options.maxDelayMs ?? 30000,
+    backoffFactor: options.backoffFactor ?? 2,
+    jitter: options.jitter ?? true,
+    retryOnStatus: options.retryOnStatus ?? DEFAULT_RETRY_STATUS,
+    retryOnNetworkError: options.retryOnNetworkError ?? true,
+    retryOnTimeout: options.retryOnTimeout ?? true,
+    respectRetryAfter: options.respectRetryAfter ?? true,
+    retryNonIdempotent: options.retryNonIdempotent ?? false,
+    onRetry: options.onRetry,
+  };
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date.
+ *
+ * @returns The delay in milliseconds, or null when the header is absent or invalid
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (value === null || value.trim() === "") {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Computes the delay before the next attempt, or null if the failure should not be retried.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param failure - Description of the failure
+ * @param idempotent - Whether repeating the request is safe
+ */
+export function retryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  failure: AttemptFailure,
+  idempotent: boolean,
+): number | null {
+  if (attempt >= policy.maxAttempts) {
+    return null;
+  }
+
+  let retryable: boolean;
+  switch (failure.kind) {
+    case "status":
+      retryable = failure.status !== undefined && policy.retryOnStatus.includes(failure.status);
+      break;
+    case "network":
+      retryable = policy.retryOnNetworkError;
+      break;
+    case "timeout":
+      retryable = policy.retryOnTimeout;
+      break;
+  }
+
+  if (!retryable) {
+    return null;
+  }
+
+  // A 429 is rejected before the server does any work, so it is always safe to repeat.
+  if (!idempotent && !policy.retryNonIdempotent && failure.status !== 429) {
+    return null;
+  }
+
+  if (
+    policy.respectRetryAfter && failure.retryAfterMs !== undefined && failure.retryAfterMs !== null
+  ) {
+    // Waiting less than the server asked for would only earn another 429, so a
+    // Retry-After beyond the cap surfaces the error instead of sleeping on it.
+    return failure.retryAfterMs <= policy.maxDelayMs ? failure.retryAfterMs : null;
+  }
+
+  const exponential = policy.initialDelayMs * policy.backoffFactor ** (attempt - 1);
+  const delay = Math.min(policy.maxDelayMs, exponential);
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ *
+ * Rejects with the signal's reason as soon as the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
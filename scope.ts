@@ -0,0 +1,416 @@
+/**
+ * @module
+ * Client views bound to a single user, agent, app or run.
+ */
+
+import { InvalidArgumentError, ScopeError } from "./error.ts";
+import { f } from "./filter.ts";
+import type { AddJob } from "./jobs.ts";
+import type { MemoryClient } from "./client.ts";
+import type { Filter } from "./filter.ts";
+import type {
+  DeleteAllOptions,
+  DeleteUsersOptions,
+  DeletionPreview,
+  Memory,
+  MemoryHistory,
+  MemoryOptions,
+  MemoryScope,
+  Message,
+  Page,
+  RequestOptions,
+  SearchOptions,
+} from "./types.ts";
+
+/** Entity ID fields a scope can bind, in the order the API resolves them. */
+const SCOPE_FIELDS = ["user_id", "agent_id", "app_id", "run_id"] as const;
+
+/**
+ * A {@link MemoryClient} view that applies a fixed scope to every call.
+ *
+ * `add`, `search`, `getAll`, `getPage`, `iterateAll`, `deleteAll` and
+ * `deleteUsers` receive the scope's entity IDs automatically, and reject
+ * options that name a different ID for a scoped field. `get`, `update`,
+ * `delete` and `history` fetch the memory first and throw a
+ * {@link ScopeError} if it belongs to another entity.
+ *
+ * @example
+ * ```ts
+ * const alice = client.scope({ user_id: "alice" });
+ *
+ * await alice.add([{ role: "user", content: "I prefer window seats" }]);
+ * const results = await alice.search("seating preference");
+ * await alice.deleteAll(); // only alice's memories
+ * ```
+ */
+export class ScopedMemoryClient {
+  /** Entity IDs applied to every call */
+  readonly scope: Readonly<MemoryScope>;
+
+  #client: MemoryClient;
+
+  /**
+   * Creates a scoped view of a client. Prefer {@link MemoryClient.scope}.
+   *
+   * @param client - Client to send requests through
+   * @param scope - Entity IDs to bind; at least one is required
+   * @throws {InvalidArgumentError} When the scope has no entity ID or an empty one
+   */
+  constructor(client: MemoryClient, scope: MemoryScope) {
+    const bound: MemoryScope = {};
+    for (const field of SCOPE_FIELDS) {
+      const value = scope[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== "string" || value === "") {
+        throw new InvalidArgumentError(`Scope ${field} must be a non-empty string`, {
+          fieldErrors: { [field]: ["Must be a non-empty string."] },
+        });
+      }
+      bound[field] = value;
+    }
+    if (Object.keys(bound).length === 0) {
+      throw new InvalidArgumentError(
+        "A scope needs at least one of user_id, agent_id, app_id or run_id",
+        {
+          fieldErrors: { user_id: ["One entity ID is required."] },
+        },
+      );
+    }
+    this.#client = client;
+    this.scope = Object.freeze(bound);
+  }
+
+  /**
+   * Narrows this scope with further entity IDs, e.g. a run within a user.
+   *
+   * @param scope - Additional entity IDs; IDs already in this scope must match
+   * @returns A client bound to both scopes
+   * @throws {InvalidArgumentError} When an ID conflicts with this scope
+   */
+  narrow(scope: MemoryScope): ScopedMemoryClient {
+    return new ScopedMemoryClient(this.#client, this.#merge(scope));
+  }
+
+  /**
+   * Adds memories within the scope and returns an AddJob for the background event.
+   *
+   * @param messages - Array of conversation messages with role and content
+   * @param options - Add options with `async_mode: true`; scoped IDs may be omitted
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Handle for the queued event
+   */
+  add(
+    messages: Array<Message>,
+    options: MemoryOptions & { async_mode: true },
+    requestOptions?: RequestOptions,
+  ): Promise<AddJob>;
+  /**
+   * Adds memories within the scope and returns the created memories.
+   *
+   * @param messages - Array of conversation messages with role and content
+   * @param options - Add options such as metadata; scoped IDs may be omitted
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of created Memory objects with IDs
+   */
+  add(
+    messages: Array<Message>,
+    options?: MemoryOptions & { async_mode?: false },
+    requestOptions?: RequestOptions,
+  ): Promise<Array<Memory>>;
+  /**
+   * Adds memories within the scope, returning an AddJob when `options.async_mode` is true.
+   *
+   * @param messages - Array of conversation messages with role and content
+   * @param options - Add options such as metadata; scoped IDs may be omitted
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of created Memory objects, or an AddJob in async mode
+   * @throws {InvalidArgumentError} When an option names a different ID for a scoped field
+   */
+  add(
+    messages: Array<Message>,
+    options?: MemoryOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<Array<Memory> | AddJob>;
+  async add(
+    messages: Array<Message>,
+    options: MemoryOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory> | AddJob> {
+    return await this.#client.add(messages, this.#merge(options), requestOptions);
+  }
+
+  /**
+   * Searches memories within the scope.
+   *
+   * With `api_version: "v2"` the scope is combined with `filters` using AND.
+   *
+   * @param query - The search query string
+   * @param options - Search options; scoped IDs may be omitted
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of Memory objects sorted by relevance
+   * @throws {InvalidArgumentError} When an option names a different ID for a scoped field
+   */
+  async search(
+    query: string,
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory>> {
+    return await this.#client.search(query, this.#scopeQuery(options), requestOptions);
+  }
+
+  /**
+   * Retrieves all memories within the scope.
+   *
+   * @param options - Filter and pagination options; scoped IDs may be omitted
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Array of Memory objects
+   * @throws {InvalidArgumentError} When an option names a different ID for a scoped field
+   */
+  async getAll(
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory>> {
+    return await this.#client.getAll(this.#scopeQuery(options), requestOptions);
+  }
+
+  /**
+   * Retrieves a single page of memories within the scope.
+   *
+   * @param options - Filter options; `page` defaults to 1 and `page_size` to 100
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The page of memories with total count and next/previous links
+   * @throws {InvalidArgumentError} When an option names a different ID for a scoped field
+   */
+  async getPage(
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<Page<Memory>> {
+    return await this.#client.getPage(this.#scopeQuery(options), requestOptions);
+  }
+
+  /**
+   * Iterates over every memory within the scope, one page at a time.
+   *
+   * @param options - Filter options; `page` sets the first page and `page_size` the page size
+   * @param requestOptions - Per-call options applied to every page request
+   * @returns Async iterator over Memory objects
+   * @throws {InvalidArgumentError} When an option names a different ID for a scoped field
+   */
+  async *iterateAll(
+    options: SearchOptions = {},
+    requestOptions: RequestOptions = {},
+  ): AsyncIterableIterator<Memory> {
+    yield* this.#client.iterateAll(this.#scopeQuery(options), requestOptions);
+  }
+
+  /**
+   * Retrieves a memory, checking that it belongs to the scope.
+   *
+   * @param memoryId - The ID of the memory to retrieve
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns The Memory object
+   * @throws {ScopeError} When the memory belongs to another entity
+   * @throws {NotFoundError} When the memory does not exist
+   */
+  async get(memoryId: string, requestOptions: RequestOptions = {}): Promise<Memory> {
+    const memory = await this.#client.get(memoryId, requestOptions);
+    for (const field of SCOPE_FIELDS) {
+      if (this.scope[field] !== undefined && memory[field] !== this.scope[field]) {
+        throw new ScopeError(memoryId, this.scope, {
+          method: "GET",
+          url: `/v1/memories/${memoryId}/`,
+        });
+      }
+    }
+    return memory;
+  }
+
+  /**
+   * Updates a memory after checking that it belongs to the scope.
+   *
+   * @param memoryId - The ID of the memory to update
+   * @param data - Object containing text and/or metadata to update
+   * @param requestOptions - Per-call options applied to both requests
+   * @returns Updated Memory object
+   * @throws {ScopeError} When the memory belongs to another entity
+   * @throws {NotFoundError} When the memory does not exist
+   */
+  async update(
+    memoryId: string,
+    data: { text?: string; metadata?: Record<string, unknown> },
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<Memory>> {
+    await this.get(memoryId, requestOptions);
+    return await this.#client.update(memoryId, data, requestOptions);
+  }
+
+  /**
+   * Deletes a memory after checking that it belongs to the scope.
+   *
+   * @param memoryId - The ID of the memory to delete
+   * @param requestOptions - Per-call options applied to both requests
+   * @returns Confirmation message
+   * @throws {ScopeError} When the memory belongs to another entity
+   * @throws {NotFoundError} When the memory does not exist
+   */
+  async delete(
+    memoryId: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string }> {
+    await this.get(memoryId, requestOptions);
+    return await this.#client.delete(memoryId, requestOptions);
+  }
+
+  /**
+   * Retrieves the history of a memory after checking that it belongs to the scope.
+   *
+   * @param memoryId - The ID of the memory
+   * @param requestOptions - Per-call options applied to both requests
+   * @returns Array of MemoryHistory entries showing changes over time
+   * @throws {ScopeError} When the memory belongs to another entity
+   * @throws {NotFoundError} When the memory does not exist
+   */
+  async history(
+    memoryId: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<Array<MemoryHistory>> {
+    await this.get(memoryId, requestOptions);
+    return await this.#client.history(memoryId, requestOptions);
+  }
+
+  /**
+   * Previews the deletion of every memory within the scope.
+   *
+   * @param options - Further filter options with `dryRun: true`
+   * @param requestOptions - Per-call options applied to every listing request
+   * @returns The memories that would be deleted
+   */
+  deleteAll(
+    options: DeleteAllOptions & { dryRun: true },
+    requestOptions?: RequestOptions,
+  ): Promise<DeletionPreview>;
+  /**
+   * Deletes every memory within the scope.
+   *
+   * @param options - Further filter options; scoped IDs may be omitted
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Confirmation message
+   */
+  deleteAll(
+    options?: DeleteAllOptions & { dryRun?: false },
+    requestOptions?: RequestOptions,
+  ): Promise<{ message: string }>;
+  /**
+   * Deletes every memory within the scope, or previews the deletion with `dryRun: true`.
+   *
+   * @param options - Further filter options and dry-run flag; scoped IDs may be omitted
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Confirmation message, or the preview in a dry run
+   * @throws {InvalidArgumentError} When an option names a different ID for a scoped field
+   * @throws {OperationBlockedError} When the client is read-only
+   */
+  deleteAll(
+    options?: DeleteAllOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<{ message: string } | DeletionPreview>;
+  async deleteAll(
+    options: DeleteAllOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string } | DeletionPreview> {
+    return await this.#client.deleteAll(this.#merge(options), requestOptions);
+  }
+
+  /**
+   * Previews the deletion of the entity the scope is bound to.
+   *
+   * @param params - Entity IDs with `dryRun: true`; if given they must match the scope
+   * @param requestOptions - Per-call options applied to every listing request
+   * @returns The entity and memories that would be deleted
+   */
+  deleteUsers(
+    params: DeleteUsersOptions & { dryRun: true },
+    requestOptions?: RequestOptions,
+  ): Promise<DeletionPreview>;
+  /**
+   * Deletes the entity the scope is bound to, with all of its memories.
+   *
+   * @param params - Entity IDs; if given they must match the scope
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Confirmation message
+   */
+  deleteUsers(
+    params?: DeleteUsersOptions & { dryRun?: false },
+    requestOptions?: RequestOptions,
+  ): Promise<{ message: string }>;
+  /**
+   * Deletes the entity the scope is bound to, or previews the deletion with `dryRun: true`.
+   *
+   * Deleting an entity removes memories it shares with other entities, so
+   * this requires a scope with exactly one entity ID.
+   *
+   * @param params - Entity IDs and dry-run flag; if given the IDs must match the scope
+   * @param requestOptions - Per-call options: abort signal, timeout, headers and retry policy
+   * @returns Confirmation message, or the preview in a dry run
+   * @throws {InvalidArgumentError} When the scope binds more than one entity ID, or params name another
+   * @throws {OperationBlockedError} When the client is read-only
+   */
+  deleteUsers(
+    params?: DeleteUsersOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<{ message: string } | DeletionPreview>;
+  async deleteUsers(
+    params: DeleteUsersOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<{ message: string } | DeletionPreview> {
+    const merged = this.#merge(params);
+    const bound = SCOPE_FIELDS.filter((field) => merged[field] !== undefined);
+    if (bound.length !== 1) {
+      throw new InvalidArgumentError(
+        `deleteUsers needs a scope with exactly one entity ID; this one binds ${bound.join(", ")}`,
+        { fieldErrors: Object.fromEntries(bound.map((field) => [field, ["Ambiguous entity."]])) },
+      );
+    }
+    return await this.#client.deleteUsers(merged, requestOptions);
+  }
+
+  /**
+   * Applies the scope to list and search options. v2 requests carry it in
+   * `filters`; v1 requests as top-level IDs.
+   */
+  #scopeQuery(options: SearchOptions): SearchOptions {
+    const merged = this.#merge(options);
+    if (options.api_version !== "v2") {
+      return merged;
+    }
+    const conditions: Array<Filter> = SCOPE_FIELDS
+      .filter((field) => this.scope[field] !== undefined)
+      .map((field) => f.eq(field, this.scope[field]!));
+    if (options.filters) {
+      conditions.push(options.filters);
+    }
+    const { user_id: _user, agent_id: _agent, app_id: _app, run_id: _run, ...rest } = merged;
+    return { ...rest, filters: conditions.length === 1 ? conditions[0] : f.and(...conditions) };
+  }
+
+  /**
+   * Adds the scope's IDs to `options`, rejecting any that conflict.
+   */
+  #merge<T extends MemoryScope>(options: T): T {
+    const conflicts: Record<string, Array<string>> = {};
+    for (const field of SCOPE_FIELDS) {
+      const value = options[field];
+      if (value !== undefined && this.scope[field] !== undefined && value !== this.scope[field]) {
+        conflicts[field] = [`Does not match the scope ${field} "${this.scope[field]}".`];
+      }
+    }
+    if (Object.keys(conflicts).length > 0) {
+      throw new InvalidArgumentError(
+        `Options conflict with the client scope: ${Object.keys(conflicts).join(", ")}`,
+        { fieldErrors: conflicts },
+      );
+    }
+    return { ...options, ...this.scope };
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * @module
+ * Interactive shell over one user's memories, started with `mem0 shell`.
+ *
+ * The session holds a {@link ScopedMemoryClient}, so every command only sees
+ * the current user's memories and `show`, `diff` or `forget` on another
+ * user's memory fails with a `ScopeError` instead of touching it.
+ */
+
+import { Mem0Error } from "./error.ts";
+import { cell, details, table } from "./format.ts";
+import type { MemoryClient } from "./client.ts";
+import type { ScopedMemoryClient } from "./scope.ts";
+import type { MemoryScope } from "./types.ts";
+
+const HELP = `Commands:
+  search <text>        search the user's memories, with scores and categories
+  ls                   list all of the user's memories
+  show <id>            show a memory
+  history <id>         list a memory's changes
+  diff <id>            show each change to a memory as removed and added text
+  forget <id>          delete a memory, after confirmation
+  switch-user <id>     continue with another user
+  history              list the commands entered so far; !<n> runs one again
+  help                 show this help
+  exit                 leave the shell`;
+
+/** Number of commands kept in the history file; older ones are dropped when a session starts. */
+const HISTORY_LIMIT = 500;
+
+/**
+ * Input, output and persistence used by {@link runShell}.
+ */
+export interface ShellOptions {
+  /** Shows a prompt and reads one line, or null at end of input */
+  readLine: (prompt: string) => string | null | Promise<string | null>;
+  /** Writes a line of output */
+  stdout: (text: string) => void;
+  /** Writes a line of diagnostics */
+  stderr: (text: string) => void;
+  /** Asks a yes/no question */
+  confirm: (question: string) => boolean | Promise<boolean>;
+  /** File the command history is loaded from and appended to; none when null */
+  historyFile: string | null;
+}
+
+/**
+ * Reads and runs shell commands until `exit` or the end of input.
+ *
+ * API errors are printed and the session continues.
+ *
+ * @param client - Client for the project
+ * @param scope - Entity the session starts with
+ * @param options - Input, output and history file
+ * @returns The exit code, always 0
+ */
+export async function runShell(
+  client: MemoryClient,
+  scope: MemoryScope,
+  options: ShellOptions,
+): Promise<number> {
+  let session = client.scope(scope);
+  const history = await loadHistory(options.historyFile);
+  options.stdout(`Scoped to ${label(session)}. Type "help" for commands, "exit" to leave.`);
+
+  while (true) {
+    const line = await options.readLine(`mem0 ${label(session)}> `);
+    if (line === null) {
+      return 0;
+    }
+    let input = line.trim();
+    if (input === "") {
+      continue;
+    }
+
+    const recall = /^!(\d+)$/.exec(input);
+    if (recall) {
+      const previous = history[Number(recall[1]) - 1];
+      if (previous === undefined) {
+        options.stderr(`No command ${recall[1]} in history`);
+        continue;
+      }
+      input = previous;
+      options.stdout(input);
+    }
+    history.push(input);
+    await saveHistory(options.historyFile, input);
+
+    const [command = "", ...words] = input.split(/\s+/);
+    const argument = input.slice(command.length).trim();
+    if (command === "exit" || command === "quit") {
+      return 0;
+    }
+
+    try {
+      switch (command) {
+        case "help":
+          options.stdout(HELP);
+          break;
+
+        case "search": {
+          const results = await session.search(required(argument, "search <text>"));
+          options.stdout(table(results, ["id", "score", "categories", "memory"]));
+          break;
+        }
+
+        case "ls": {
+          const memories = await Array.fromAsync(session.iterateAll());
+          options.stdout(table(memories, ["id", "categories", "memory", "updated_at"]));
+          options.stdout(`${memories.length} memories`);
+          break;
+        }
+
+        case "show":
+          options.stdout(details(await session.get(required(words[0], "show <id>"))));
+          break;
+
+        case "history": {
+          if (!words[0]) {
+            options.stdout(
+              history.map((entry, index) => `${String(index + 1).padStart(4)}  ${entry}`).join(
+                "\n",
+              ),
+            );
+            break;
+          }
+          const changes = await session.history(words[0]);
+          options.stdout(table(changes, ["event", "old_memory", "new_memory", "created_at"]));
+          break;
+        }
+
+        case "diff": {
+          const changes = await session.history(required(words[0], "diff <id>"));
+          const lines: Array<string> = [];
+          for (const change of changes) {
+            lines.push(`@@ ${change.event} ${cell(change.created_at)}`.trimEnd());
+            if (change.old_memory) {
+              lines.push(`- ${change.old_memory}`);
+            }
+            if (change.new_memory && change.new_memory !== change.old_memory) {
+              lines.push(`+ ${change.new_memory}`);
+            }
+          }
+          options.stdout(lines.length ? lines.join("\n") : "(no changes)");
+          break;
+        }
+
+        case "forget": {
+          const memoryId = required(words[0], "forget <id>");
+          const memory = await session.get(memoryId);
+          if (await options.confirm(`Forget "${memory.memory}"?`)) {
+            options.stdout((await session.delete(memoryId)).message);
+          } else {
+            options.stdout("Kept");
+          }
+          break;
+        }
+
+        case "switch-user":
+          session = client.scope({ user_id: required(words[0], "switch-user <id>") });
+          options.stdout(`Scoped to ${label(session)}`);
+          break;
+
+        default:
+          options.stderr(`Unknown command "${command}". Type "help" for commands.`);
+      }
+    } catch (error) {
+      if (!(error instanceof Mem0Error)) {
+        throw error;
+      }
+      options.stderr(`${error.name}: ${error.message}`);
+    }
+  }
+}
+
+/** Thrown for a command missing its argument; reported like an API error. */
+class ShellUsageError extends Mem0Error {
+  constructor(usage: string) {
+    super(`Usage: ${usage}`);
+    this.name = "Usage";
+  }
+}
+
+function required(value: string | undefined, usage: string): string {
+  if (!value) {
+    throw new ShellUsageError(usage);
+  }
+  return value;
+}
+
+function label(session: ScopedMemoryClient): string {
+  return Object.entries(session.scope)
+    .map(([field, id]) => `${field.replace(/_id$/, "")} ${id}`)
+    .join(", ");
+}
+
+async function loadHistory(path: string | null): Promise<Array<string>> {
+  if (!path) {
+    return [];
+  }
+  let lines: Array<string>;
+  try {
+    lines = (await Deno.readTextFile(path)).split("\n").filter(Boolean);
+  } catch {
+    // No history yet, or no read permission
+    return [];
+  }
+  if (lines.length > HISTORY_LIMIT) {
+    // Commands are appended one at a time, so this is where the file is cut back
+    lines = lines.slice(-HISTORY_LIMIT);
+    try {
+      await Deno.writeTextFile(path, `${lines.join("\n")}\n`);
+    } catch {
+      // History is best-effort; the shell works without it
+    }
+  }
+  return lines;
+}
+
+async function saveHistory(path: string | null, input: string): Promise<void> {
+  if (!path) {
+    return;
+  }
+  try {
+    await Deno.writeTextFile(path, `${input}\n`, { append: true });
+  } catch {
+    // History is best-effort; the shell works without it
+  }
+}
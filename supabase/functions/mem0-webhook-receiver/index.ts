@@ -0,0 +1,34 @@
+/**
+ * Mem0 Webhook Receiver - Supabase Edge Function
+ *
+ * Verifies Mem0 webhook deliveries and keeps every memory change in
+ * Postgres, as an audit trail and a local mirror that can be replayed.
+ * Demonstrates: verifyAndParse(), createWebhookHandler()
+ *
+ * Deploy: supabase functions deploy mem0-webhook-receiver --no-verify-jwt
+ */
+
+import { createReceiver } from "./receiver.ts";
+import { InMemoryEventStore, PostgresEventStore } from "./storage.ts";
+
+// Without the secret every delivery would fail verification with a 401, so refuse to start.
+const secret = Deno.env.get("MEM0_WEBHOOK_SECRET");
+if (!secret) {
+  throw new Error(
+    "MEM0_WEBHOOK_SECRET is not set; set it to the secret Mem0 signs deliveries with",
+  );
+}
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL");
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Without database credentials (e.g. plain `deno run`), events are kept in memory.
+const store = supabaseUrl && serviceRoleKey
+  ? new PostgresEventStore(supabaseUrl, serviceRoleKey)
+  : new InMemoryEventStore();
+
+Deno.serve(createReceiver({
+  secret,
+  store,
+  replayToken: Deno.env.get("REPLAY_TOKEN"),
+}));
@@ -0,0 +1,106 @@
+/**
+ * Request handling for the mem0-webhook-receiver function, kept apart from
+ * index.ts so it can run against an InMemoryEventStore.
+ */
+
+import { createWebhookHandler, type WebhookEvent } from "../../../mod.ts";
+import type { StoredWebhookEvent, WebhookEventStore } from "./storage.ts";
+
+/**
+ * Configuration for {@link createReceiver}.
+ */
+export interface ReceiverOptions {
+  /** Webhook secret shared with Mem0 */
+  secret: string;
+  /** Where events are stored */
+  store: WebhookEventStore;
+  /** Bearer token required by the replay endpoint; replay is disabled without one */
+  replayToken?: string;
+  /** Maximum age of a delivery in seconds (default: 300) */
+  toleranceSeconds?: number;
+}
+
+/**
+ * Creates the function's request handler.
+ *
+ * - `POST /` verifies a delivery and stores it once per event ID.
+ * - `GET /replay?after=<seq>&memory_id=<id>&limit=<n>` returns stored events
+ *   in order, with `next` to pass as `after` for the following page.
+ */
+export function createReceiver(options: ReceiverOptions): (req: Request) => Promise<Response> {
+  const webhook = createWebhookHandler({
+    secret: options.secret,
+    toleranceSeconds: options.toleranceSeconds,
+    onEvent: async (event) => {
+      const stored = await toStoredEvent(event);
+      const inserted = await options.store.insert(stored);
+      if (!inserted) {
+        console.log(`Skipping duplicate event ${stored.event_id}`);
+      }
+    },
+    onError: (error) => console.error("Error in mem0-webhook-receiver:", error),
+  });
+
+  return async (req) => {
+    const url = new URL(req.url);
+    if (url.pathname.endsWith("/replay")) {
+      return await replay(req, url, options);
+    }
+    return await webhook(req);
+  };
+}
+
+async function replay(req: Request, url: URL, options: ReceiverOptions): Promise<Response> {
+  if (req.method !== "GET") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+  if (
+    !options.replayToken || req.headers.get("Authorization") !== `Bearer ${options.replayToken}`
+  ) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const after = Number(url.searchParams.get("after") ?? "0");
+  const limit = Math.min(Number(url.searchParams.get("limit") ?? "100"), 1000);
+  if (!Number.isInteger(after) || !Number.isInteger(limit) || after < 0 || limit < 1) {
+    return Response.json({ error: "after and limit must be non-negative integers" }, {
+      status: 400,
+    });
+  }
+
+  const events = await options.store.list({
+    after,
+    limit,
+    memoryId: url.searchParams.get("memory_id") ?? undefined,
+  });
+  return Response.json({
+    events,
+    next: events.length === limit ? events[events.length - 1]!.seq : null,
+  });
+}
+
+async function toStoredEvent(event: WebhookEvent): Promise<StoredWebhookEvent> {
+  const data = event.event_details.data as { memory?: string };
+  return {
+    event_id: event.event_id ?? await contentId(event),
+    event_type: event.event_type,
+    memory_id: event.event_details.id,
+    memory: data.memory ?? null,
+    payload: event,
+    received_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Derives an ID from the event contents, so a retried delivery without
+ * `event_id` is still stored once.
+ */
+async function contentId(event: WebhookEvent): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify([event.event_type, event.event_details])),
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
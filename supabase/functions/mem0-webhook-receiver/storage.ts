@@ -0,0 +1,144 @@
+/**
+ * Event storage for the mem0-webhook-receiver function.
+ *
+ * PostgresEventStore writes to the `mem0_webhook_events` table created by
+ * supabase/migrations, through the PostgREST API every Supabase project
+ * exposes. InMemoryEventStore keeps events in an array for local runs and
+ * tests.
+ */
+
+import type { WebhookEvent, WebhookEventType } from "../../../mod.ts";
+
+/**
+ * One row of the audit trail.
+ */
+export interface StoredWebhookEvent {
+  /** Position in the audit trail, assigned by the store */
+  seq?: number;
+  /** Event ID from the delivery, or a hash of its contents when it has none */
+  event_id: string;
+  /** Event type */
+  event_type: WebhookEventType;
+  /** ID of the memory the event is about */
+  memory_id: string;
+  /** Memory text after the change, when the event carries one */
+  memory: string | null;
+  /** The full verified payload */
+  payload: WebhookEvent;
+  /** When the receiver accepted the delivery */
+  received_at: string;
+}
+
+/**
+ * Options for reading the audit trail back.
+ */
+export interface ListEventsOptions {
+  /** Only events after this `seq` */
+  after?: number;
+  /** Only events about this memory */
+  memoryId?: string;
+  /** Maximum number of events */
+  limit: number;
+}
+
+/**
+ * Storage behind the receiver. Implement it to keep events somewhere other
+ * than Supabase Postgres.
+ */
+export interface WebhookEventStore {
+  /**
+   * Stores an event unless one with the same `event_id` exists.
+   *
+   * @returns Whether the event was new
+   */
+  insert(event: StoredWebhookEvent): Promise<boolean>;
+  /** Lists events in `seq` order */
+  list(options: ListEventsOptions): Promise<Array<StoredWebhookEvent>>;
+}
+
+/**
+ * Keeps events in memory. Everything is lost when the isolate stops.
+ */
+export class InMemoryEventStore implements WebhookEventStore {
+  /** Stored events in `seq` order */
+  readonly events: Array<StoredWebhookEvent> = [];
+
+  insert(event: StoredWebhookEvent): Promise<boolean> {
+    if (this.events.some((stored) => stored.event_id === event.event_id)) {
+      return Promise.resolve(false);
+    }
+    this.events.push({ ...event, seq: this.events.length + 1 });
+    return Promise.resolve(true);
+  }
+
+  list(options: ListEventsOptions): Promise<Array<StoredWebhookEvent>> {
+    return Promise.resolve(
+      this.events
+        .filter((event) => event.seq! > (options.after ?? 0))
+        .filter((event) => !options.memoryId || event.memory_id === options.memoryId)
+        .slice(0, options.limit),
+    );
+  }
+}
+
+/**
+ * Stores events in the `mem0_webhook_events` table via PostgREST.
+ */
+export class PostgresEventStore implements WebhookEventStore {
+  #endpoint: string;
+  #headers: Record<string, string>;
+  #fetch: typeof fetch;
+
+  /**
+   * @param supabaseUrl - Project URL, e.g. SUPABASE_URL
+   * @param serviceRoleKey - Key allowed to bypass row level security, e.g. SUPABASE_SERVICE_ROLE_KEY
+   * @param fetchFn - Fetch implementation, replaceable in tests
+   */
+  constructor(supabaseUrl: string, serviceRoleKey: string, fetchFn: typeof fetch = fetch) {
+    this.#endpoint = `${supabaseUrl.replace(/\/+$/, "")}/rest/v1/mem0_webhook_events`;
+    this.#headers = {
+      "apikey": serviceRoleKey,
+      "Authorization": `Bearer ${serviceRoleKey}`,
+      "Content-Type": "application/json",
+    };
+    this.#fetch = fetchFn;
+  }
+
+  async insert(event: StoredWebhookEvent): Promise<boolean> {
+    const { seq: _seq, ...row } = event;
+    // ignore-duplicates turns the upsert into INSERT ... ON CONFLICT DO NOTHING;
+    // only a new row comes back in the representation.
+    const response = await this.#fetch(`${this.#endpoint}?on_conflict=event_id`, {
+      method: "POST",
+      headers: {
+        ...this.#headers,
+        "Prefer": "resolution=ignore-duplicates,return=representation",
+      },
+      body: JSON.stringify(row),
+    });
+    if (!response.ok) {
+      throw new Error(`Storing event ${event.event_id} failed: ${await response.text()}`);
+    }
+    const inserted = await response.json() as Array<StoredWebhookEvent>;
+    return inserted.length > 0;
+  }
+
+  async list(options: ListEventsOptions): Promise<Array<StoredWebhookEvent>> {
+    const params = new URLSearchParams({
+      select: "*",
+      order: "seq.asc",
+      limit: String(options.limit),
+      seq: `gt.${options.after ?? 0}`,
+    });
+    if (options.memoryId) {
+      params.set("memory_id", `eq.${options.memoryId}`);
+    }
+    const response = await this.#fetch(`${this.#endpoint}?${params}`, {
+      headers: this.#headers,
+    });
+    if (!response.ok) {
+      throw new Error(`Listing events failed: ${await response.text()}`);
+    }
+    return await response.json() as Array<StoredWebhookEvent>;
+  }
+}
@@ -2,7 +2,7 @@
  * Memory Search API - Supabase Edge Function
  *
  * RESTful API for searching user memories.
- * Demonstrates: search(), getAll() methods
+ * Demonstrates: search(), getPage() methods
  *
  * Deploy: supabase functions deploy memory-search-api
  */
@@ -40,18 +40,15 @@ Deno.serve(async (req) => {
       const page = parseInt(url.searchParams.get("page") || "1");
       const pageSize = parseInt(url.searchParams.get("pageSize") || "10");
 
-      const response = await mem0.getAll({
+      const response = await mem0.getPage({
         user_id: userId,
         page,
         page_size: pageSize,
       });
 
-      // Handle both array and paginated response
-      const memories = Array.isArray(response) ? response : response.results || [];
-
       return new Response(
         JSON.stringify({
-          memories: memories.map((m: any) => ({
+          memories: response.results.map((m) => ({
             id: m.id,
             content: m.data?.memory || m.memory,
             created_at: m.created_at,
@@ -59,7 +56,7 @@ Deno.serve(async (req) => {
           })),
           page,
           pageSize,
-          total: memories.length,
+          total: response.count,
         }),
         {
           headers: {
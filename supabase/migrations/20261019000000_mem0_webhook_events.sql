@@ -0,0 +1,17 @@
+-- Audit trail of Mem0 webhook deliveries, written by the mem0-webhook-receiver function.
+
+create table if not exists public.mem0_webhook_events (
+  seq bigint generated always as identity primary key,
+  event_id text not null unique,
+  event_type text not null,
+  memory_id text not null,
+  memory text,
+  payload jsonb not null,
+  received_at timestamptz not null default now()
+);
+
+create index if not exists mem0_webhook_events_memory_id_idx
+  on public.mem0_webhook_events (memory_id, seq);
+
+-- Only the service role used by the function may read or write events.
+alter table public.mem0_webhook_events enable row level security;
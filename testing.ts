@@ -0,0 +1,1024 @@
+/**
+ * @module
+ * In-process fake of the Mem0 REST API for offline tests.
+ *
+ * {@link FakeMem0} implements the routes called by `MemoryClient` on top of an
+ * in-memory store: memories are created verbatim from user messages, search
+ * ranks them by keyword overlap, and v2 filters are evaluated locally. Use it
+ * as an injected `fetch` or serve it over HTTP with `Deno.serve`.
+ *
+ * {@link Cassette} records real API interactions to JSON fixture files and
+ * replays them deterministically.
+ *
+ * @example
+ * ```ts
+ * import { FakeMem0 } from "sdk-deno-mem0/testing";
+ *
+ * // Same as new MemoryClient({ apiKey: "fake-key", ..., fetch: fake.fetch })
+ * const fake = new FakeMem0();
+ * const client = fake.client();
+ *
+ * await client.add([{ role: "user", content: "I love hiking in the Alps" }], { user_id: "alice" });
+ * const results = await client.search("hiking", { user_id: "alice" });
+ * console.log(results[0].memory); // "I love hiking in the Alps"
+ * ```
+ */
+
+// deno-lint-ignore-file camelcase
+// Note: Property names use snake_case to match the Mem0 API payload format exactly.
+
+import { MemoryClient } from "./client.ts";
+import type { Filter } from "./filter.ts";
+import type { ClientOptions, FetchFunction, Messages } from "./types.ts";
+
+export {
+  Cassette,
+  type CassetteInteraction,
+  type CassetteMatchOptions,
+  CassetteMismatchError,
+  type CassetteOptions,
+  type CassetteRequest,
+  type CassetteResponse,
+} from "./cassette.ts";
+
+/**
+ * A memory as stored by the fake server, in its JSON wire format.
+ */
+export interface FakeMemory {
+  /** Unique identifier */
+  id: string;
+  /** Memory text */
+  memory: string;
+  /** User the memory belongs to */
+  user_id?: string;
+  /** Agent the memory belongs to */
+  agent_id?: string;
+  /** App the memory belongs to */
+  app_id?: string;
+  /** Run the memory belongs to */
+  run_id?: string;
+  /** Hash of the memory text */
+  hash: string;
+  /** Custom metadata */
+  metadata: Record<string, unknown> | null;
+  /** Categories assigned to the memory */
+  categories: Array<string>;
+  /** Whether the memory is immutable */
+  immutable: boolean;
+  /** Creation timestamp (ISO 8601) */
+  created_at: string;
+  /** Last update timestamp (ISO 8601) */
+  updated_at: string;
+}
+
+/**
+ * Fields accepted when seeding the fake with existing memories.
+ */
+export type FakeMemorySeed = Partial<Omit<FakeMemory, "created_at" | "updated_at">> & {
+  /** Memory text */
+  memory: string;
+  /** Creation timestamp; defaults to the fake's clock */
+  created_at?: Date | string;
+  /** Last update timestamp; defaults to the creation timestamp */
+  updated_at?: Date | string;
+};
+
+/**
+ * Configuration options for {@link FakeMem0}.
+ */
+export interface FakeMem0Options {
+  /** API key required in the `Authorization` header; any key is accepted when omitted */
+  apiKey?: string;
+  /** Organization ID reported by ping and used in project routes (default: "fake-org") */
+  organizationId?: string;
+  /** Project ID reported by ping and used in project routes (default: "fake-project") */
+  projectId?: string;
+  /** Clock used for timestamps (default: the current time) */
+  now?: () => Date;
+}
+
+/**
+ * A running HTTP server started by {@link FakeMem0.listen}.
+ */
+export interface FakeMem0Server extends AsyncDisposable {
+  /** Base URL to pass as `ClientOptions.host`, e.g. `http://127.0.0.1:54321` */
+  url: string;
+  /** Stops the server */
+  close(): Promise<void>;
+}
+
+interface FakeHistoryEntry {
+  id: string;
+  memory_id: string;
+  input: Array<Messages>;
+  old_memory: string | null;
+  new_memory: string | null;
+  user_id: string | null;
+  categories: Array<string>;
+  event: "ADD" | "UPDATE" | "DELETE";
+  created_at: string;
+  updated_at: string;
+}
+
+interface FakeWebhook {
+  webhook_id: string;
+  name: string;
+  url: string;
+  project: string;
+  is_active: boolean;
+  event_types: Array<string>;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FakeExport {
+  id: string;
+  schema: Record<string, unknown>;
+  filters: Record<string, unknown>;
+  memories: Array<FakeMemory>;
+  created_at: string;
+}
+
+type Json = Record<string, unknown>;
+
+type RouteHandler = (
+  request: Request,
+  params: Record<string, string | undefined>,
+  url: URL,
+) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: URLPattern;
+  handler: RouteHandler;
+}
+
+const ENTITY_KEYS = ["user_id", "agent_id", "app_id", "run_id"] as const;
+
+const ENTITY_TYPES: Record<string, typeof ENTITY_KEYS[number]> = {
+  user: "user_id",
+  agent: "agent_id",
+  app: "app_id",
+  run: "run_id",
+};
+
+/**
+ * Fake Mem0 API server backed by in-memory state.
+ *
+ * Requests are authenticated, validated and answered with the same payload
+ * shapes as the hosted API, so code built on `MemoryClient` can be tested
+ * without network access. Memory text is taken verbatim from user messages
+ * (no LLM extraction), and search scores are the fraction of query words
+ * found in a memory.
+ *
+ * @example
+ * ```ts
+ * import { MemoryClient } from "sdk-deno-mem0";
+ * import { FakeMem0 } from "sdk-deno-mem0/testing";
+ *
+ * const fake = new FakeMem0();
+ * await using server = fake.listen();
+ * const client = new MemoryClient({ apiKey: "test", host: server.url });
+ * await client.ping();
+ * ```
+ */
+export class FakeMem0 {
+  /**
+   * `fetch`-compatible handler to pass as `ClientOptions.fetch`.
+   */
+  readonly fetch: FetchFunction;
+
+  #apiKey: string | undefined;
+  #organizationId: string;
+  #projectId: string;
+  #now: () => Date;
+  #memories = new Map<string, FakeMemory>();
+  #history = new Map<string, Array<FakeHistoryEntry>>();
+  #webhooks = new Map<string, FakeWebhook>();
+  #exports = new Map<string, FakeExport>();
+  #events = new Map<string, Json>();
+  #feedback: Array<Json> = [];
+  #project: Json = { custom_instructions: null, custom_categories: [] };
+  #routes: Array<Route>;
+
+  /**
+   * Creates a new FakeMem0 instance with an empty store.
+   *
+   * @param options - Authentication, project IDs and clock
+   */
+  constructor(options: FakeMem0Options = {}) {
+    this.#apiKey = options.apiKey;
+    this.#organizationId = options.organizationId ?? "fake-org";
+    this.#projectId = options.projectId ?? "fake-project";
+    this.#now = options.now ?? (() => new Date());
+    this.fetch = (input, init) => this.handle(new Request(input, init));
+
+    const route = (method: string, pathname: string, handler: RouteHandler): Route => ({
+      method,
+      pattern: new URLPattern({ pathname }),
+      handler,
+    });
+
+    this.#routes = [
+      route("GET", "/v1/ping/", () => this.#ping()),
+      route("POST", "/v1/memories/", (request) => this.#add(request)),
+      route("GET", "/v1/memories/", (_, __, url) => this.#listV1(url)),
+      route("DELETE", "/v1/memories/", (_, __, url) => this.#deleteAll(url)),
+      route("POST", "/v2/memories/", (request, _, url) => this.#listV2(request, url)),
+      route("POST", "/v1/memories/search/", (request) => this.#search(request, "v1")),
+      route("POST", "/v2/memories/search/", (request) => this.#search(request, "v2")),
+      route("GET", "/v1/memories/:id/history/", (_, params) => this.#getHistory(params.id)),
+      route("GET", "/v1/memories/:id/", (_, params) => this.#get(params.id)),
+      route("PUT", "/v1/memories/:id/", (request, params) => this.#update(request, params.id)),
+      route("DELETE", "/v1/memories/:id/", (_, params) => this.#delete(params.id)),
+      route("GET", "/v1/event/:id/", (_, params) => this.#getEvent(params.id)),
+      route("PUT", "/v1/batch/", (request) => this.#batchUpdate(request)),
+      route("DELETE", "/v1/batch/", (request) => this.#batchDelete(request)),
+      route("GET", "/v1/entities/", (_, __, url) => this.#listEntities(url)),
+      route("DELETE", "/v1/entities/:type/:name/", (_, p) => this.#deleteEntity(p.type, p.name)),
+      route("DELETE", "/v2/entities/:type/:name/", (_, p) => this.#deleteEntity(p.type, p.name)),
+      route(
+        "GET",
+        "/api/v1/orgs/organizations/:org/projects/:project/",
+        (_, params, url) => this.#getProject(params, url),
+      ),
+      route(
+        "PATCH",
+        "/api/v1/orgs/organizations/:org/projects/:project/",
+        (request, params) => this.#updateProject(request, params),
+      ),
+      route("GET", "/api/v1/webhooks/projects/:project/", (_, p) => this.#listWebhooks(p.project)),
+      route(
+        "POST",
+        "/api/v1/webhooks/projects/:project/",
+        (request, params) => this.#createWebhook(request, params.project),
+      ),
+      route("PUT", "/api/v1/webhooks/:id/", (request, p) => this.#updateWebhook(request, p.id)),
+      route("DELETE", "/api/v1/webhooks/:id/", (_, params) => this.#deleteWebhook(params.id)),
+      route("POST", "/v1/feedback/", (request) => this.#submitFeedback(request)),
+      route("POST", "/v1/exports/", (request) => this.#createExport(request)),
+      route("POST", "/v1/exports/get/", (request) => this.#getExport(request)),
+    ];
+  }
+
+  /**
+   * Snapshot of every stored memory, in insertion order.
+   */
+  get memories(): Array<FakeMemory> {
+    return [...this.#memories.values()].map((memory) => structuredClone(memory));
+  }
+
+  /**
+   * Creates a `MemoryClient` whose requests are handled by this fake, using
+   * its API key and project IDs.
+   *
+   * @param options - Client options to override, e.g. `readOnly: true` or another `apiKey`
+   * @returns A client wired to this fake
+   */
+  client(options: Partial<ClientOptions> = {}): MemoryClient {
+    return new MemoryClient({
+      apiKey: this.#apiKey ?? "fake-key",
+      organizationId: this.#organizationId,
+      projectId: this.#projectId,
+      fetch: this.fetch,
+      ...options,
+    });
+  }
+
+  /**
+   * Adds memories to the store directly, bypassing the API.
+   *
+   * @param memories - Memories to store; missing fields get defaults
+   * @returns The stored memories
+   */
+  seed(memories: Array<FakeMemorySeed>): Array<FakeMemory> {
+    return memories.map((seed) => {
+      const created = new Date(seed.created_at ?? this.#now()).toISOString();
+      const memory: FakeMemory = {
+        id: seed.id ?? crypto.randomUUID(),
+        memory: seed.memory,
+        ...entityIds(seed as Json),
+        hash: hash(seed.memory),
+        metadata: seed.metadata ?? null,
+        categories: seed.categories ?? [],
+        immutable: seed.immutable ?? false,
+        created_at: created,
+        updated_at: new Date(seed.updated_at ?? created).toISOString(),
+      };
+      this.#memories.set(memory.id, memory);
+      this.#recordHistory(memory, "ADD", null, memory.memory, []);
+      return structuredClone(memory);
+    });
+  }
+
+  /**
+   * Clears all memories, history, events, webhooks, exports, feedback and project settings.
+   */
+  reset(): void {
+    this.#memories.clear();
+    this.#history.clear();
+    this.#webhooks.clear();
+    this.#exports.clear();
+    this.#events.clear();
+    this.#feedback = [];
+    this.#project = { custom_instructions: null, custom_categories: [] };
+  }
+
+  /**
+   * Answers a single API request. Suitable as a `Deno.serve` handler.
+   *
+   * @param request - Incoming request
+   * @returns JSON response in the Mem0 API format
+   */
+  async handle(request: Request): Promise<Response> {
+    if (request.signal.aborted) {
+      throw request.signal.reason ?? new DOMException("The request was aborted", "AbortError");
+    }
+
+    const authorization = request.headers.get("Authorization") ?? "";
+    const token = authorization.startsWith("Token ") ? authorization.slice(6).trim() : "";
+    if (!token || (this.#apiKey !== undefined && token !== this.#apiKey)) {
+      return error(401, "Invalid API key");
+    }
+
+    const url = new URL(request.url);
+    let methodAllowed = false;
+    for (const route of this.#routes) {
+      const match = route.pattern.exec({ pathname: url.pathname });
+      if (!match) {
+        continue;
+      }
+      if (route.method !== request.method) {
+        methodAllowed = true;
+        continue;
+      }
+      try {
+        return await route.handler(request, match.pathname.groups, url);
+      } catch (cause) {
+        if (cause instanceof SyntaxError) {
+          return error(400, "Request body is not valid JSON");
+        }
+        throw cause;
+      }
+    }
+    return methodAllowed
+      ? error(405, `Method "${request.method}" not allowed.`)
+      : error(404, `No route for ${url.pathname}`);
+  }
+
+  /**
+   * Serves the fake API over HTTP on a local port.
+   *
+   * @param options - Port (default: a free port) and hostname (default: 127.0.0.1)
+   * @returns The server's base URL and a function to stop it
+   */
+  listen(options: { port?: number; hostname?: string } = {}): FakeMem0Server {
+    const server = Deno.serve(
+      {
+        port: options.port ?? 0,
+        hostname: options.hostname ?? "127.0.0.1",
+        onListen: () => {},
+      },
+      (request) => this.handle(request),
+    );
+    const close = (): Promise<void> => server.shutdown();
+    return {
+      url: `http://${server.addr.hostname}:${server.addr.port}`,
+      close,
+      [Symbol.asyncDispose]: close,
+    };
+  }
+
+  // ===========================================================================
+  // Memories
+  // ===========================================================================
+
+  #ping(): Response {
+    return json({
+      status: "ok",
+      message: "API key is valid",
+      org_id: this.#organizationId,
+      project_id: this.#projectId,
+    });
+  }
+
+  async #add(request: Request): Promise<Response> {
+    const body = await readBody(request);
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      return error(400, "messages is required", { messages: ["This field is required."] });
+    }
+    if (!ENTITY_KEYS.some((key) => typeof body[key] === "string")) {
+      return error(400, "One of the filters: app_id, user_id, agent_id, run_id is required!");
+    }
+
+    const messages = body.messages as Array<Messages>;
+    // Without an LLM to extract facts, user messages are stored verbatim.
+    const userMessages = messages.filter((message) => message.role === "user");
+    const texts = (userMessages.length > 0 ? userMessages : messages)
+      .map((message) => typeof message.content === "string" ? message.content.trim() : "")
+      .filter((text) => text !== "");
+
+    const timestamp = typeof body.timestamp === "number"
+      ? new Date(body.timestamp * 1000)
+      : this.#now();
+    const results: Array<Json> = [];
+    for (const text of texts) {
+      const entities = entityIds(body);
+      const duplicate = [...this.#memories.values()].some((memory) =>
+        memory.hash === hash(text) && ENTITY_KEYS.every((key) => memory[key] === entities[key])
+      );
+      if (duplicate) {
+        continue;
+      }
+
+      const memory: FakeMemory = {
+        id: crypto.randomUUID(),
+        memory: text,
+        ...entities,
+        hash: hash(text),
+        metadata: (body.metadata as Json | undefined) ?? null,
+        categories: [],
+        immutable: body.immutable === true,
+        created_at: timestamp.toISOString(),
+        updated_at: timestamp.toISOString(),
+      };
+      this.#memories.set(memory.id, memory);
+      this.#recordHistory(memory, "ADD", null, text, messages);
+      results.push({ id: memory.id, event: "ADD", data: { memory: text } });
+    }
+
+    if (body.async_mode === true) {
+      // Extraction has already run, so the event is complete by the time it is polled.
+      const now = this.#now().toISOString();
+      const event = {
+        id: crypto.randomUUID(),
+        event_type: "ADD",
+        status: "SUCCEEDED",
+        results,
+        created_at: now,
+        updated_at: now,
+      };
+      this.#events.set(event.id, event);
+      return json([{
+        message: "Memory processing has been queued for background execution",
+        status: "PENDING",
+        event_id: event.id,
+      }]);
+    }
+    return json(results);
+  }
+
+  #getEvent(id: string | undefined): Response {
+    const event = this.#events.get(id ?? "");
+    return event ? json(event) : error(404, "Event not found!");
+  }
+
+  #listV1(url: URL): Response {
+    const params = Object.fromEntries(url.searchParams);
+    if (!ENTITY_KEYS.some((key) => params[key])) {
+      return error(400, "One of the filters: app_id, user_id, agent_id, run_id is required!");
+    }
+    const memories = this.#select(params, undefined);
+    return this.#paginate(memories, url);
+  }
+
+  async #listV2(request: Request, url: URL): Promise<Response> {
+    const body = await readBody(request);
+    const filters = body.filters as Filter | undefined;
+    if (filters === undefined && !ENTITY_KEYS.some((key) => body[key])) {
+      return error(400, "filters is required", { filters: ["This field is required."] });
+    }
+    return this.#paginate(this.#select(body, filters), url);
+  }
+
+  async #search(request: Request, version: "v1" | "v2"): Promise<Response> {
+    const body = await readBody(request);
+    if (typeof body.query !== "string" || body.query.trim() === "") {
+      return error(400, "query is required", { query: ["This field is required."] });
+    }
+    const filters = body.filters as Filter | undefined;
+    if (version === "v2" && filters === undefined) {
+      return error(400, "filters is required", { filters: ["This field is required."] });
+    }
+
+    const limit = Number(body.top_k ?? body.limit ?? 10);
+    const threshold = typeof body.threshold === "number" ? body.threshold : 0;
+    const categories = Array.isArray(body.categories) ? body.categories as Array<string> : null;
+    const query = tokenize(body.query);
+
+    const results = this.#select(body, filters)
+      .filter((memory) =>
+        !categories || memory.categories.some((category) => categories.includes(category))
+      )
+      .map((memory) => ({ ...memory, score: score(query, memory.memory) }))
+      .filter((memory) => memory.score > 0 && memory.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+    return json(results);
+  }
+
+  #get(id: string | undefined): Response {
+    const memory = this.#memories.get(id ?? "");
+    return memory ? json(memory) : error(404, "Memory not found!");
+  }
+
+  async #update(request: Request, id: string | undefined): Promise<Response> {
+    const memory = this.#memories.get(id ?? "");
+    if (!memory) {
+      return error(404, "Memory not found!");
+    }
+    if (memory.immutable) {
+      return error(400, "Immutable memories cannot be updated.");
+    }
+    const body = await readBody(request);
+    this.#applyUpdate(memory, body.text, body.metadata);
+    return json(memory);
+  }
+
+  #delete(id: string | undefined): Response {
+    const memory = this.#memories.get(id ?? "");
+    if (!memory) {
+      return error(404, "Memory not found!");
+    }
+    this.#remove(memory);
+    return json({ message: "Memory deleted successfully!" });
+  }
+
+  #deleteAll(url: URL): Response {
+    const params = Object.fromEntries(url.searchParams);
+    if (!ENTITY_KEYS.some((key) => params[key])) {
+      return error(400, "One of the filters: app_id, user_id, agent_id, run_id is required!");
+    }
+    this.#select(params, undefined).forEach((memory) => this.#remove(memory));
+    return json({ message: "Memories deleted successfully!" });
+  }
+
+  #getHistory(id: string | undefined): Response {
+    const history = this.#history.get(id ?? "");
+    return history ? json(history) : error(404, "Memory not found!");
+  }
+
+  async #batchUpdate(request: Request): Promise<Response> {
+    const items = await this.#batchItems(request);
+    if (items instanceof Response) {
+      return items;
+    }
+    for (const item of items) {
+      this.#applyUpdate(item.memory, item.text, undefined);
+    }
+    return json({ message: `Successfully updated ${items.length} memories` });
+  }
+
+  async #batchDelete(request: Request): Promise<Response> {
+    const items = await this.#batchItems(request);
+    if (items instanceof Response) {
+      return items;
+    }
+    items.forEach((item) => this.#remove(item.memory));
+    return json({ message: `Successfully deleted ${items.length} memories` });
+  }
+
+  /**
+   * Validates a batch payload up front, so a bad item leaves the store untouched.
+   */
+  async #batchItems(
+    request: Request,
+  ): Promise<Array<{ memory: FakeMemory; text: unknown }> | Response> {
+    const body = await readBody(request);
+    if (!Array.isArray(body.memories) || body.memories.length === 0) {
+      return error(400, "memories is required", { memories: ["This field is required."] });
+    }
+    if (body.memories.length > 1000) {
+      return error(400, "Maximum of 1000 memories per batch", {
+        memories: ["Ensure this field has no more than 1000 elements."],
+      });
+    }
+
+    const items: Array<{ memory: FakeMemory; text: unknown }> = [];
+    for (const item of body.memories as Array<Json>) {
+      const memory = this.#memories.get(String(item.memory_id));
+      if (!memory) {
+        return error(404, `Memory not found: ${item.memory_id}`);
+      }
+      items.push({ memory, text: item.text });
+    }
+    return items;
+  }
+
+  // ===========================================================================
+  // Entities
+  // ===========================================================================
+
+  #listEntities(url: URL): Response {
+    const entities = new Map<string, Json>();
+    for (const memory of this.#memories.values()) {
+      for (const [type, key] of Object.entries(ENTITY_TYPES)) {
+        const name = memory[key];
+        if (name === undefined) {
+          continue;
+        }
+        const entityKey = `${type}/${name}`;
+        const entity = entities.get(entityKey) ?? {
+          id: name,
+          name,
+          type,
+          owner: this.#organizationId,
+          total_memories: 0,
+          created_at: memory.created_at,
+          updated_at: memory.updated_at,
+        };
+        entity.total_memories = (entity.total_memories as number) + 1;
+        if (memory.updated_at > (entity.updated_at as string)) {
+          entity.updated_at = memory.updated_at;
+        }
+        entities.set(entityKey, entity);
+      }
+    }
+    return this.#paginate([...entities.values()], url, true);
+  }
+
+  #deleteEntity(type: string | undefined, name: string | undefined): Response {
+    const key = ENTITY_TYPES[type ?? ""];
+    if (!key) {
+      return error(400, `Invalid entity type: ${type}`);
+    }
+    const memories = [...this.#memories.values()].filter((memory) => memory[key] === name);
+    if (memories.length === 0) {
+      return error(404, "Entity not found!");
+    }
+    memories.forEach((memory) => this.#remove(memory));
+    return json({ message: "Entity deleted successfully!" });
+  }
+
+  // ===========================================================================
+  // Project, Webhooks, Feedback and Exports
+  // ===========================================================================
+
+  #checkProject(params: Record<string, string | undefined>): Response | null {
+    if (params.org !== this.#organizationId || params.project !== this.#projectId) {
+      return error(404, "Project not found!");
+    }
+    return null;
+  }
+
+  #getProject(params: Record<string, string | undefined>, url: URL): Response {
+    const notFound = this.#checkProject(params);
+    if (notFound) {
+      return notFound;
+    }
+    const fields = url.searchParams.getAll("fields");
+    if (fields.length === 0) {
+      return json(this.#project);
+    }
+    return json(Object.fromEntries(fields.map((field) => [field, this.#project[field] ?? null])));
+  }
+
+  async #updateProject(
+    request: Request,
+    params: Record<string, string | undefined>,
+  ): Promise<Response> {
+    const notFound = this.#checkProject(params);
+    if (notFound) {
+      return notFound;
+    }
+    const body = await readBody(request);
+    this.#project = { ...this.#project, ...body };
+    return json({ message: "Updated custom prompts", ...this.#project });
+  }
+
+  #listWebhooks(project: string | undefined): Response {
+    return json([...this.#webhooks.values()].filter((webhook) => webhook.project === project));
+  }
+
+  async #createWebhook(request: Request, project: string | undefined): Promise<Response> {
+    const body = await readBody(request);
+    if (typeof body.name !== "string" || typeof body.url !== "string") {
+      return error(400, "name and url are required", {
+        ...(typeof body.name === "string" ? {} : { name: ["This field is required."] }),
+        ...(typeof body.url === "string" ? {} : { url: ["This field is required."] }),
+      });
+    }
+    const now = this.#now().toISOString();
+    const webhook: FakeWebhook = {
+      webhook_id: crypto.randomUUID(),
+      name: body.name,
+      url: body.url,
+      project: project ?? this.#projectId,
+      is_active: true,
+      event_types: Array.isArray(body.eventTypes) ? body.eventTypes.map(String) : [],
+      created_at: now,
+      updated_at: now,
+    };
+    this.#webhooks.set(webhook.webhook_id, webhook);
+    return json(webhook, 201);
+  }
+
+  async #updateWebhook(request: Request, id: string | undefined): Promise<Response> {
+    const webhook = this.#webhooks.get(id ?? "");
+    if (!webhook) {
+      return error(404, "Webhook not found!");
+    }
+    const body = await readBody(request);
+    if (typeof body.name === "string") {
+      webhook.name = body.name;
+    }
+    if (typeof body.url === "string") {
+      webhook.url = body.url;
+    }
+    if (Array.isArray(body.eventTypes)) {
+      webhook.event_types = body.eventTypes.map(String);
+    }
+    webhook.updated_at = this.#now().toISOString();
+    return json({ message: "Webhook updated successfully" });
+  }
+
+  #deleteWebhook(id: string | undefined): Response {
+    if (!this.#webhooks.delete(id ?? "")) {
+      return error(404, "Webhook not found!");
+    }
+    return json({ message: "Webhook deleted successfully" });
+  }
+
+  async #submitFeedback(request: Request): Promise<Response> {
+    const body = await readBody(request);
+    if (!this.#memories.has(String(body.memory_id))) {
+      return error(404, "Memory not found!");
+    }
+    this.#feedback.push(body);
+    return json({ message: "Feedback submitted successfully" });
+  }
+
+  async #createExport(request: Request): Promise<Response> {
+    const body = await readBody(request);
+    const filters = body.filters as Json | undefined;
+    if (!filters || !body.schema) {
+      return error(400, "Missing filters or schema");
+    }
+    const job: FakeExport = {
+      id: crypto.randomUUID(),
+      schema: body.schema as Json,
+      filters,
+      memories: this.#select({}, filters as Filter).map((memory) => structuredClone(memory)),
+      created_at: this.#now().toISOString(),
+    };
+    this.#exports.set(job.id, job);
+    return json({ message: "Memory export request received. Processing...", id: job.id }, 201);
+  }
+
+  async #getExport(request: Request): Promise<Response> {
+    const body = await readBody(request);
+    const job = typeof body.memory_export_id === "string"
+      ? this.#exports.get(body.memory_export_id)
+      : [...this.#exports.values()].findLast((candidate) =>
+        JSON.stringify(candidate.filters) === JSON.stringify(body.filters)
+      );
+    if (!job) {
+      return error(404, "Memory export not found!");
+    }
+    return json({ id: job.id, status: "completed", data: { memories: job.memories } });
+  }
+
+  // ===========================================================================
+  // Store helpers
+  // ===========================================================================
+
+  /**
+   * Selects memories by top-level entity IDs and an optional v2 filter, oldest first.
+   */
+  #select(params: Json, filters: Filter | undefined): Array<FakeMemory> {
+    return [...this.#memories.values()]
+      .filter((memory) =>
+        ENTITY_KEYS.every((key) =>
+          params[key] === undefined || params[key] === null || memory[key] === params[key]
+        )
+      )
+      .filter((memory) => filters === undefined || matchesFilter(memory, filters))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  #paginate(items: Array<unknown>, url: URL, alwaysEnvelope = false): Response {
+    const page = url.searchParams.get("page");
+    const pageSize = url.searchParams.get("page_size");
+    if (!alwaysEnvelope && page === null && pageSize === null) {
+      return json(items);
+    }
+
+    const size = Math.max(1, Number(pageSize ?? 100));
+    const number = Math.max(1, Number(page ?? 1));
+    const link = (target: number): string => {
+      const next = new URL(url);
+      next.searchParams.set("page", String(target));
+      next.searchParams.set("page_size", String(size));
+      return next.toString();
+    };
+    return json({
+      count: items.length,
+      next: number * size < items.length ? link(number + 1) : null,
+      previous: number > 1 ? link(number - 1) : null,
+      results: items.slice((number - 1) * size, number * size),
+    });
+  }
+
+  #applyUpdate(memory: FakeMemory, text: unknown, metadata: unknown): void {
+    const previous = memory.memory;
+    if (typeof text === "string") {
+      memory.memory = text;
+      memory.hash = hash(text);
+    }
+    if (metadata !== undefined) {
+      memory.metadata = metadata as Json | null;
+    }
+    memory.updated_at = this.#now().toISOString();
+    this.#recordHistory(memory, "UPDATE", previous, memory.memory, []);
+  }
+
+  #remove(memory: FakeMemory): void {
+    this.#memories.delete(memory.id);
+    this.#recordHistory(memory, "DELETE", memory.memory, null, []);
+  }
+
+  #recordHistory(
+    memory: FakeMemory,
+    event: FakeHistoryEntry["event"],
+    oldMemory: string | null,
+    newMemory: string | null,
+    input: Array<Messages>,
+  ): void {
+    const now = this.#now().toISOString();
+    const history = this.#history.get(memory.id) ?? [];
+    history.push({
+      id: crypto.randomUUID(),
+      memory_id: memory.id,
+      input,
+      old_memory: oldMemory,
+      new_memory: newMemory,
+      user_id: memory.user_id ?? null,
+      categories: [...memory.categories],
+      event,
+      created_at: now,
+      updated_at: now,
+    });
+    this.#history.set(memory.id, history);
+  }
+}
+
+// =============================================================================
+// Filter evaluation
+// =============================================================================
+
+/**
+ * Evaluates a v2 filter expression against a stored memory.
+ */
+function matchesFilter(memory: FakeMemory, filter: Filter): boolean {
+  return Object.entries(filter).every(([key, value]) => {
+    switch (key) {
+      case "AND":
+        return (value as Array<Filter>).every((item) => matchesFilter(memory, item));
+      case "OR":
+        return (value as Array<Filter>).some((item) => matchesFilter(memory, item));
+      case "NOT":
+        return !(value as Array<Filter>).some((item) => matchesFilter(memory, item));
+      case "metadata":
+        return Object.entries(value as Json).every(([name, expected]) =>
+          matchesValue(memory.metadata?.[name], expected)
+        );
+      default:
+        return matchesValue(fieldValue(memory, key), value);
+    }
+  });
+}
+
+function fieldValue(memory: FakeMemory, field: string): unknown {
+  switch (field) {
+    case "text":
+      return memory.memory;
+    case "keywords":
+      return tokenize(memory.memory);
+    case "timestamp":
+      return Math.floor(Date.parse(memory.created_at) / 1000);
+    default:
+      return (memory as unknown as Json)[field];
+  }
+}
+
+function matchesValue(actual: unknown, condition: unknown): boolean {
+  // Array fields such as categories match when any element matches,
+  // except `ne`, which requires that no element equals the value.
+  if (Array.isArray(actual)) {
+    if (condition === "*") {
+      return actual.length > 0;
+    }
+    if (condition !== null && typeof condition === "object" && "ne" in condition) {
+      const { ne, ...rest } = condition as Json;
+      return !actual.includes(ne) &&
+        (Object.keys(rest).length === 0 || actual.some((item) => matchesValue(item, rest)));
+    }
+    return actual.some((item) => matchesValue(item, condition));
+  }
+  if (condition === "*") {
+    return actual !== null && actual !== undefined;
+  }
+  if (condition === null || typeof condition !== "object") {
+    return actual === condition;
+  }
+
+  return Object.entries(condition as Json).every(([operator, expected]) => {
+    switch (operator) {
+      case "in":
+        return Array.isArray(expected) && expected.some((item) => actual === item);
+      case "ne":
+        return actual !== expected;
+      case "gt":
+        return compare(actual, expected) > 0;
+      case "gte":
+        return compare(actual, expected) >= 0;
+      case "lt":
+        return compare(actual, expected) < 0;
+      case "lte":
+        return compare(actual, expected) <= 0;
+      case "contains":
+        return typeof actual === "string" && actual.includes(String(expected));
+      case "icontains":
+        return typeof actual === "string" &&
+          actual.toLowerCase().includes(String(expected).toLowerCase());
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Compares numbers numerically and timestamps chronologically; NaN means "not comparable".
+ */
+function compare(actual: unknown, expected: unknown): number {
+  if (typeof actual === "number" && typeof expected === "number") {
+    return actual - expected;
+  }
+  if (typeof actual === "string" && typeof expected === "string") {
+    return Date.parse(actual) - Date.parse(expected);
+  }
+  return NaN;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Picks the string entity IDs from a payload, leaving absent ones out.
+ */
+function entityIds(record: Json): Pick<FakeMemory, typeof ENTITY_KEYS[number]> {
+  return Object.fromEntries(
+    ENTITY_KEYS.filter((key) => typeof record[key] === "string").map((key) => [key, record[key]]),
+  );
+}
+
+function tokenize(text: string): Array<string> {
+  return [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])];
+}
+
+/**
+ * Fraction of the query's words that appear in the memory text.
+ */
+function score(query: Array<string>, text: string): number {
+  if (query.length === 0) {
+    return 0;
+  }
+  const words = new Set(tokenize(text));
+  return query.filter((word) => words.has(word)).length / query.length;
+}
+
+/**
+ * FNV-1a hash of the memory text, standing in for the API's content hash.
+ */
+function hash(text: string): string {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(16).padStart(8, "0");
+}
+
+async function readBody(request: Request): Promise<Json> {
+  const text = await request.text();
+  if (text === "") {
+    return {};
+  }
+  const body = JSON.parse(text);
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    throw new SyntaxError("Expected a JSON object");
+  }
+  return body as Json;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function error(status: number, detail: string, fieldErrors: Json = {}): Response {
+  return json({ detail, ...fieldErrors }, status);
+}
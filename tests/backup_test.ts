@@ -0,0 +1,147 @@
+/**
+ * Tests for client-side backup and restore.
+ *
+ * Projects are simulated with FakeMem0 instances and archives are written to
+ * a temporary directory.
+ * Run with: deno test --allow-read --allow-write tests/backup_test.ts
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { backup, Mem0Error, type MemoryClient, restore } from "../mod.ts";
+import { FakeMem0 } from "../testing.ts";
+
+function project(): { fake: FakeMem0; client: MemoryClient } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  return { fake, client: fake.client() };
+}
+
+function seedSource(fake: FakeMem0): void {
+  fake.seed([
+    {
+      memory: "Prefers window seats",
+      user_id: "alice",
+      metadata: { source: "chat" },
+      created_at: "2025-01-10T00:00:00Z",
+    },
+    { memory: "Allergic to peanuts", user_id: "alice", agent_id: "planner" },
+    { memory: "Books trains over flights", agent_id: "planner" },
+    { memory: "Lives in Lisbon", user_id: "bob" },
+  ]);
+}
+
+async function readRecords(path: string): Promise<Array<Record<string, unknown>>> {
+  return (await Deno.readTextFile(path)).trimEnd().split("\n").map((line) => JSON.parse(line));
+}
+
+Deno.test("backup - writes every entity and memory once to a versioned archive", async () => {
+  const dir = await Deno.makeTempDir();
+  const { fake, client } = project();
+  seedSource(fake);
+  const [memory] = fake.memories;
+  await client.update(memory!.id, { text: "Prefers aisle seats" });
+
+  const progress: Array<number> = [];
+  const summary = await backup(client, `${dir}/backup.jsonl`, {
+    includeHistory: true,
+    pageSize: 1,
+    onProgress: (current) => progress.push(current.memories),
+  });
+
+  assertEquals(summary, { entities: 3, memories: 4, history: 5 });
+  assertEquals(progress, [1, 2, 3, 4]);
+
+  const records = await readRecords(`${dir}/backup.jsonl`);
+  assertEquals(records[0]?.type, "header");
+  assertEquals(records[0]?.version, 1);
+  assertEquals(records.at(-1), { type: "footer", entities: 3, memories: 4, history: 5 });
+  assertEquals(records.filter((record) => record.type === "memory").length, 4);
+  assertEquals(
+    records.some((record) => record.type === "history" && record.memory_id === memory!.id),
+    true,
+  );
+
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("restore - replays memories verbatim and maps old IDs to new ones", async () => {
+  const dir = await Deno.makeTempDir();
+  const source = project();
+  seedSource(source.fake);
+  await backup(source.client, `${dir}/backup.jsonl`);
+
+  const target = project();
+  const report = await restore(`${dir}/backup.jsonl`, { targetClient: target.client });
+
+  assertEquals(report.restored, 4);
+  assertEquals(report.failed, []);
+  assertEquals(report.archive, { entities: 3, memories: 4, history: 0 });
+
+  for (const original of source.fake.memories) {
+    const restored = await target.client.get(report.idMap[original.id]!);
+    assertEquals(restored.memory, original.memory);
+    assertEquals(restored.user_id, original.user_id);
+    assertEquals(restored.agent_id, original.agent_id);
+    assertEquals(restored.metadata, original.metadata);
+  }
+
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("restore - dry run and idMapping skip memories already restored", async () => {
+  const dir = await Deno.makeTempDir();
+  const source = project();
+  seedSource(source.fake);
+  await backup(source.client, `${dir}/backup.jsonl`);
+  const [first] = source.fake.memories;
+
+  const target = project();
+  const dryRun = await restore(`${dir}/backup.jsonl`, {
+    targetClient: target.client,
+    idMapping: { [first!.id]: "already-restored" },
+    dryRun: true,
+  });
+  assertEquals([dryRun.restored, dryRun.skipped, dryRun.dryRun], [3, 1, true]);
+  assertEquals(target.fake.memories.length, 0);
+
+  const report = await restore(`${dir}/backup.jsonl`, {
+    targetClient: target.client,
+    idMapping: { [first!.id]: "already-restored" },
+  });
+  assertEquals([report.restored, report.skipped], [3, 1]);
+  assertEquals(report.idMap[first!.id], "already-restored");
+  assertEquals(Object.keys(report.idMap).length, 4);
+  assertEquals(target.fake.memories.length, 3);
+
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("restore - rejects truncated and foreign archives before adding anything", async () => {
+  const dir = await Deno.makeTempDir();
+  const source = project();
+  seedSource(source.fake);
+  await backup(source.client, `${dir}/backup.jsonl`);
+
+  const lines = (await Deno.readTextFile(`${dir}/backup.jsonl`)).trimEnd().split("\n");
+  await Deno.writeTextFile(`${dir}/truncated.jsonl`, lines.slice(0, -1).join("\n"));
+  await Deno.writeTextFile(`${dir}/foreign.jsonl`, '{"hello":"world"}\n');
+
+  const target = project();
+  await assertRejects(
+    () => restore(`${dir}/truncated.jsonl`, { targetClient: target.client }),
+    Mem0Error,
+    "truncated",
+  );
+  await assertRejects(
+    () => restore(`${dir}/foreign.jsonl`, { targetClient: target.client }),
+    Mem0Error,
+    "not a Mem0 backup archive",
+  );
+  await assertRejects(
+    () => restore(`${dir}/missing.jsonl`, { targetClient: target.client }),
+    Mem0Error,
+    "could not be read",
+  );
+  assertEquals(target.fake.memories.length, 0);
+
+  await Deno.remove(dir, { recursive: true });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for record-and-replay cassettes.
+ *
+ * Interactions are recorded against FakeMem0 into a temporary directory and
+ * then replayed without it.
+ * Run with: deno test --allow-read --allow-write tests/cassette_test.ts
+ */
+
+import { assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
+import { Mem0Error, MemoryClient } from "../mod.ts";
+import { Cassette, CassetteMismatchError, FakeMem0 } from "../testing.ts";
+
+const API_KEY = "m0-secret-key";
+
+async function record(
+  path: string,
+  scrub: Array<string> = [],
+): Promise<{ memoryId: string }> {
+  const fake = new FakeMem0({ apiKey: API_KEY });
+  const cassette = await Cassette.open(path, {
+    mode: "record",
+    apiKey: API_KEY,
+    scrub,
+    fetch: fake.fetch,
+  });
+  const client = new MemoryClient({ apiKey: API_KEY, fetch: cassette.fetch });
+
+  const [memory] = await client.add([{ role: "user", content: "Likes green tea" }], {
+    user_id: "alice",
+    metadata: { email: "alice@example.com" },
+  });
+  await client.search("tea", { user_id: "alice" });
+  await client.getAll({ user_id: "alice", page: 1, page_size: 10 });
+  await cassette.close();
+  return { memoryId: memory!.id };
+}
+
+Deno.test("Cassette - replays recorded interactions without the network", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/session.json`;
+  const { memoryId } = await record(path);
+
+  const cassette = await Cassette.open(path, { mode: "replay" });
+  const client = new MemoryClient({ apiKey: "replay-key", fetch: cassette.fetch });
+
+  const [added] = await client.add([{ role: "user", content: "Likes green tea" }], {
+    user_id: "alice",
+    metadata: { email: "alice@example.com" },
+  });
+  assertEquals(added?.id, memoryId);
+  const results = await client.search("tea", { user_id: "alice" });
+  assertEquals(results[0]?.memory, "Likes green tea");
+  assertEquals(results[0]?.created_at instanceof Date, true);
+  // Query parameter order does not matter
+  const page = await client.getPage({ page_size: 10, page: 1, user_id: "alice" });
+  assertEquals(page.count, 1);
+
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("Cassette - scrubs the API key and configured fields", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/session.json`;
+  await record(path, ["email"]);
+
+  const text = await Deno.readTextFile(path);
+  assertEquals(text.includes(API_KEY), false);
+  assertEquals(text.includes("alice@example.com"), false);
+
+  const cassette = await Cassette.open(path, { mode: "replay" });
+  assertEquals(cassette.interactions[0]?.request.body, {
+    messages: [{ role: "user", content: "Likes green tea" }],
+    user_id: "alice",
+    metadata: { email: "[REDACTED]" },
+  });
+  assertEquals(Object.keys(cassette.interactions[0]?.response.headers ?? {}), ["content-type"]);
+
+  // Scrubbed fields also match during replay
+  const client = new MemoryClient({ apiKey: "replay-key", fetch: cassette.fetch });
+  await client.add([{ role: "user", content: "Likes green tea" }], {
+    user_id: "alice",
+    metadata: { email: "bob@example.com" },
+  });
+
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("Cassette - unmatched requests fail loudly", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/session.json`;
+  await record(path);
+
+  const cassette = await Cassette.open(path, { mode: "replay" });
+  const client = new MemoryClient({ apiKey: "replay-key", fetch: cassette.fetch });
+
+  const error = await assertRejects(
+    () => client.search("coffee", { user_id: "alice" }),
+    CassetteMismatchError,
+  );
+  assertStringIncludes(error.message, "POST /v1/memories/search/");
+  assertStringIncludes(error.message, "coffee");
+
+  // Each interaction is replayed only once
+  await client.search("tea", { user_id: "alice" });
+  await assertRejects(() => client.search("tea", { user_id: "alice" }), CassetteMismatchError);
+
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("Cassette - body subset matching ignores extra request fields", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/session.json`;
+  await record(path);
+
+  const cassette = await Cassette.open(path, { mode: "replay", match: { body: "subset" } });
+  const client = new MemoryClient({ apiKey: "replay-key", fetch: cassette.fetch });
+  const results = await client.search("tea", { user_id: "alice", limit: 5, rerank: true });
+  assertEquals(results.length, 1);
+
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("Cassette - replay requires an existing cassette", async () => {
+  await assertRejects(
+    () => Cassette.open("./does-not-exist.json", { mode: "replay" }),
+    Mem0Error,
+    "record it first",
+  );
+});
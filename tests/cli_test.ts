@@ -0,0 +1,204 @@
+/**
+ * Tests for the mem0 command-line tool, driven against FakeMem0.
+ *
+ * Run with: deno test --allow-read --allow-write tests/cli_test.ts
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { main } from "../cli.ts";
+import { FakeMem0 } from "../testing.ts";
+
+interface Run {
+  code: number;
+  stdout: string;
+  stderr: string;
+  questions: Array<string>;
+}
+
+function setup(): { fake: FakeMem0; cli: (args: Array<string>, answer?: boolean) => Promise<Run> } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  const env: Record<string, string> = {
+    MEM0_API_KEY: "test-key",
+    MEM0_ORG_ID: "fake-org",
+    MEM0_PROJECT_ID: "fake-project",
+  };
+  const cli = async (args: Array<string>, answer = true): Promise<Run> => {
+    const stdout: Array<string> = [];
+    const stderr: Array<string> = [];
+    const questions: Array<string> = [];
+    const code = await main(args, {
+      env: (name) => env[name],
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      confirm: (question) => {
+        questions.push(question);
+        return answer;
+      },
+      fetch: fake.fetch,
+    });
+    return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n"), questions };
+  };
+  return { fake, cli };
+}
+
+Deno.test("cli - adds, searches and lists memories", async () => {
+  const { cli } = setup();
+
+  assertEquals((await cli(["ping"])).stdout, "ok");
+
+  const added = await cli(["add", "Prefers", "window", "seats", "--user", "alice", "--json"]);
+  assertEquals(added.code, 0);
+  const [memory] = JSON.parse(added.stdout);
+  assertEquals(memory.memory, "Prefers window seats");
+
+  const search = await cli(["search", "window seats", "--user=alice"]);
+  assertEquals(search.stdout.split("\n")[0]!.split(/\s+/), ["ID", "SCORE", "MEMORY"]);
+  assertStringIncludes(search.stdout, "Prefers window seats");
+
+  const list = await cli(["list", "--user", "alice", "--page-size", "10"]);
+  assertStringIncludes(list.stdout, memory.id);
+  assertStringIncludes(list.stdout, "1 total");
+
+  const shown = await cli(["get", memory.id]);
+  assertStringIncludes(shown.stdout, "user_id:");
+  assertStringIncludes((await cli(["history", memory.id])).stdout, "ADD");
+  assertStringIncludes((await cli(["users"])).stdout, "alice");
+});
+
+Deno.test("cli - asks before destructive commands", async () => {
+  const { fake, cli } = setup();
+  const [memory] = fake.seed([
+    { memory: "Likes tea", user_id: "alice" },
+    { memory: "Lives in Lisbon", user_id: "bob" },
+  ]);
+
+  const declined = await cli(["delete", memory!.id], false);
+  assertEquals([declined.code, declined.questions], [1, [`Delete memory ${memory!.id}?`]]);
+  assertEquals(fake.memories.length, 2);
+
+  const preview = await cli(["delete-all", "--user", "alice", "--dry-run"]);
+  assertStringIncludes(preview.stdout, "Would delete 1 memories");
+  assertEquals(preview.questions, []);
+
+  const everything = await cli(["delete-all"]);
+  assertEquals(everything.questions, ["Delete ALL memories in the project?"]);
+  assertEquals(fake.memories.length, 0);
+
+  fake.seed([{ memory: "Likes tea", user_id: "alice" }]);
+  const confirmed = await cli(["delete-all", "--user", "alice", "--yes"]);
+  assertEquals([confirmed.code, confirmed.questions], [0, []]);
+  assertEquals(fake.memories.length, 0);
+});
+
+Deno.test("cli - delete-all removes every entity the dry run listed", async () => {
+  const { fake, cli } = setup();
+  // More entities than fit on one page of /v1/entities/
+  fake.seed(
+    Array.from({ length: 105 }, (_, index) => ({ memory: "Likes tea", user_id: `user-${index}` })),
+  );
+
+  const preview = await cli(["delete-all", "--dry-run"]);
+  assertStringIncludes(preview.stdout, "Would delete 105 memories and 105 entities");
+
+  const result = await cli(["delete-all", "--yes"]);
+  assertEquals(result.code, 0);
+  assertEquals(fake.memories.length, 0);
+});
+
+Deno.test("cli - manages webhooks, project settings and feedback", async () => {
+  const { fake, cli } = setup();
+  const [memory] = fake.seed([{ memory: "Likes tea", user_id: "alice" }]);
+
+  const created = await cli([
+    "webhooks",
+    "create",
+    "--name",
+    "audit",
+    "--url",
+    "https://example.com/hook",
+    "--events",
+    "memory_add,memory_update",
+    "--json",
+  ]);
+  const webhook = JSON.parse(created.stdout);
+  assertEquals(webhook.event_types, ["memory_add", "memory_update"]);
+  assertStringIncludes((await cli(["webhooks", "list"])).stdout, "memory_add, memory_update");
+  assertEquals((await cli(["webhooks", "delete", webhook.webhook_id, "-y"])).code, 0);
+  assertStringIncludes((await cli(["webhooks", "list"])).stdout, "(none)");
+
+  const set = await cli(["project", "set", "--instructions", "Keep it short"]);
+  assertEquals(set.questions, ["Apply these changes?"]);
+  assertStringIncludes(set.stdout, "+ Keep it short");
+  assertStringIncludes((await cli(["project", "get"])).stdout, "Keep it short");
+
+  assertEquals((await cli(["feedback", memory!.id, "very-negative"])).code, 0);
+});
+
+Deno.test("cli - webhooks use the configured project", async () => {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  const env: Record<string, string> = {
+    MEM0_API_KEY: "test-key",
+    MEM0_ORG_ID: "fake-org",
+    MEM0_PROJECT_ID: "fake-project",
+  };
+  const bodies: Array<Record<string, unknown>> = [];
+  const code = await main(
+    ["webhooks", "create", "--name", "audit", "--url", "https://example.com/hook"],
+    {
+      env: (name) => env[name],
+      stdout: () => {},
+      fetch: async (input, init) => {
+        if (init?.method === "POST") {
+          bodies.push(JSON.parse(String(init.body)));
+        }
+        return await fake.fetch(input, init);
+      },
+    },
+  );
+  assertEquals(code, 0);
+  assertEquals(bodies[0]?.projectId, "fake-project");
+  assertEquals("webhookId" in bodies[0]!, false);
+
+  // Without a project there is no webhook endpoint to call
+  delete env.MEM0_PROJECT_ID;
+  delete env.MEM0_ORG_ID;
+  const stderr: Array<string> = [];
+  const unscoped = await main(["webhooks", "list"], {
+    env: (name) => env[name],
+    stderr: (text) => stderr.push(text),
+    fetch: fake.fetch,
+  });
+  assertEquals(unscoped, 1);
+  assertStringIncludes(stderr.join("\n"), "projectId must be set");
+});
+
+Deno.test("cli - reports usage and API errors with exit codes", async () => {
+  const { cli } = setup();
+
+  const unknown = await cli(["frobnicate"]);
+  assertEquals(unknown.code, 2);
+  assertStringIncludes(unknown.stderr, 'Unknown command "frobnicate"');
+
+  assertEquals((await cli(["search"])).code, 2);
+  assertEquals((await cli(["list", "--page"])).code, 2);
+  assertEquals((await cli(["--help"])).code, 0);
+
+  const missing = await cli(["get", "does-not-exist"]);
+  assertEquals(missing.code, 1);
+  assertStringIncludes(missing.stderr, "NotFoundError");
+
+  const requests: Array<string> = [];
+  const badFormat = await main(["export", "--format", "csv"], {
+    env: (name) => (name === "MEM0_API_KEY" ? "test-key" : undefined),
+    stderr: () => {},
+    fetch: (input) => {
+      requests.push(String(input));
+      return Promise.reject(new Error("no request expected"));
+    },
+  });
+  // Rejected before an export job is created on the server
+  assertEquals([badFormat, requests], [2, []]);
+
+  const noKey = await main(["ping"], { env: () => undefined, stderr: () => {} });
+  assertEquals(noKey, 2);
+});
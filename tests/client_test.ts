@@ -7,7 +7,27 @@
  */
 
 import { assertEquals, assertRejects, assertThrows } from "@std/assert";
-import { APIError, Feedback, MemoryClient } from "../mod.ts";
+import {
+  AbortError,
+  APIError,
+  AuthenticationError,
+  BatchError,
+  Feedback,
+  InvalidArgumentError,
+  Mem0Error,
+  MemoryClient,
+  MemoryEventError,
+  MemoryExportError,
+  NetworkError,
+  NotFoundError,
+  OperationBlockedError,
+  RateLimitError,
+  ResponseValidationError,
+  TimeoutError,
+  ValidationError,
+} from "../mod.ts";
+import type { AddManyItem, WebhookSpec } from "../mod.ts";
+import { FakeMem0 } from "../testing.ts";
 
 // Helper to mock fetch
 function mockFetch(
@@ -106,6 +126,21 @@ Deno.test("ping - throws APIError on invalid key", async () => {
   }
 });
 
+Deno.test("ping - reports the request and payload when the response is not an object", async () => {
+  const restore = mockFetch("ok");
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.ping(), ResponseValidationError);
+    assertEquals([error.method, error.url, error.body], [
+      "GET",
+      "https://api.mem0.ai/v1/ping/",
+      "ok",
+    ]);
+  } finally {
+    restore();
+  }
+});
+
 // =============================================================================
 // add() Tests
 // =============================================================================
@@ -269,6 +304,23 @@ Deno.test("update - succeeds with text", async () => {
   }
 });
 
+Deno.test("update - decodes timestamps into Dates", async () => {
+  const restore = mockFetch([{
+    id: "mem_123",
+    memory: "Updated memory",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-02T00:00:00Z",
+  }]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const [updated] = await client.update("mem_123", { text: "Updated memory" });
+    assertEquals(updated!.created_at instanceof Date, true);
+    assertEquals(updated!.updated_at?.getTime(), Date.parse("2024-01-02T00:00:00Z"));
+  } finally {
+    restore();
+  }
+});
+
 // =============================================================================
 // delete() Tests
 // =============================================================================
@@ -362,7 +414,7 @@ Deno.test("APIError - contains status code", async () => {
     } catch (error) {
       if (error instanceof APIError) {
         assertEquals(error.status, 401);
-        assertEquals(error.name, "APIError");
+        assertEquals(error.name, "AuthenticationError");
       }
     }
   } finally {
@@ -387,6 +439,88 @@ Deno.test("APIError - contains error message", async () => {
   }
 });
 
+Deno.test("errors - 404 maps to NotFoundError with request context", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (): Promise<Response> =>
+    Promise.resolve(
+      new Response(JSON.stringify({ detail: "Memory not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json", "X-Request-Id": "req_42" },
+      }),
+    );
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.get("mem_404"), NotFoundError);
+    assertEquals(error instanceof APIError, true);
+    assertEquals(error instanceof Mem0Error, true);
+    assertEquals(error.status, 404);
+    assertEquals(error.body, { detail: "Memory not found" });
+    assertEquals(error.method, "GET");
+    assertEquals(error.url, "https://api.mem0.ai/v1/memories/mem_404/");
+    assertEquals(error.requestId, "req_42");
+    assertEquals(error.message, "API request failed with status 404: Memory not found");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("errors - 400 maps to ValidationError with field errors", async () => {
+  const restore = mockFetch({ user_id: ["This field may not be blank."] }, 400);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.search("q", { user_id: "" }), ValidationError);
+    assertEquals(error.fieldErrors, { user_id: ["This field may not be blank."] });
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("errors - 429 maps to RateLimitError with retry-after", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (): Promise<Response> =>
+    Promise.resolve(
+      new Response("Too many requests", { status: 429, headers: { "Retry-After": "7" } }),
+    );
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.users(), RateLimitError);
+    assertEquals(error.retryAfterMs, 7000);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("errors - fetch failures map to NetworkError", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (): Promise<Response> => Promise.reject(new TypeError("connection refused"));
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.get("mem_123"), NetworkError);
+    assertEquals(error.cause instanceof TypeError, true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("errors - API key is redacted from URLs", async () => {
+  const restore = mockFetchError("Unauthorized", 401);
+  try {
+    const client = new MemoryClient({ apiKey: "secret-key" });
+    const error = await assertRejects(() => client.get("secret-key"), AuthenticationError);
+    assertEquals(error.url, "https://api.mem0.ai/v1/memories/[REDACTED]/");
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("errors - client-side validation throws InvalidArgumentError", async () => {
+  const client = new MemoryClient({ apiKey: "test-key" });
+  const error = await assertRejects(() => client.update("mem_123", {}), InvalidArgumentError);
+  // Nothing was sent, so there is no status to report
+  assertEquals(error instanceof APIError, false);
+  assertEquals("status" in error, false);
+});
+
 // =============================================================================
 // Batch Operations Tests
 // =============================================================================
@@ -399,7 +533,8 @@ Deno.test("batchUpdate - sends correct payload", async () => {
       { memoryId: "mem_1", text: "Updated 1" },
       { memoryId: "mem_2", text: "Updated 2" },
     ]);
-    assertEquals(typeof result.message, "string");
+    assertEquals(result.succeeded, ["mem_1", "mem_2"]);
+    assertEquals(result.chunks[0]?.message, "Batch update successful");
   } finally {
     restore();
   }
@@ -410,7 +545,8 @@ Deno.test("batchDelete - sends correct payload", async () => {
   try {
     const client = new MemoryClient({ apiKey: "test-key" });
     const result = await client.batchDelete(["mem_1", "mem_2", "mem_3"]);
-    assertEquals(typeof result.message, "string");
+    assertEquals(result.succeeded, ["mem_1", "mem_2", "mem_3"]);
+    assertEquals(result.failed, []);
   } finally {
     restore();
   }
@@ -433,3 +569,1399 @@ Deno.test("feedback - sends feedback successfully", async () => {
     restore();
   }
 });
+
+// =============================================================================
+// Retry Tests
+// =============================================================================
+
+// Helper to mock fetch with a sequence of responses, returning the call count
+function mockFetchSequence(
+  responses: Array<() => Response>,
+): { calls: () => number; restore: () => void } {
+  const originalFetch = globalThis.fetch;
+  let count = 0;
+  globalThis.fetch = (): Promise<Response> => {
+    const next = responses[Math.min(count, responses.length - 1)]!;
+    count++;
+    return Promise.resolve(next());
+  };
+  return {
+    calls: () => count,
+    restore: () => {
+      globalThis.fetch = originalFetch;
+    },
+  };
+}
+
+const jsonResponse = (body: unknown, status = 200, headers: HeadersInit = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+Deno.test("retry - does not retry by default", async () => {
+  const mock = mockFetchSequence([() => jsonResponse({ detail: "busy" }, 503)]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    await assertRejects(() => client.get("mem_123"), APIError);
+    assertEquals(mock.calls(), 1);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("retry - retries retryable status codes and calls onRetry", async () => {
+  const mock = mockFetchSequence([
+    () => jsonResponse({ detail: "busy" }, 503),
+    () => jsonResponse({ detail: "busy" }, 502),
+    () => jsonResponse({ id: "mem_123" }),
+  ]);
+  const attempts: Array<number> = [];
+  try {
+    const client = new MemoryClient({
+      apiKey: "test-key",
+      retry: {
+        initialDelayMs: 1,
+        onRetry: ({ attempt }) => {
+          attempts.push(attempt);
+        },
+      },
+    });
+    const result = await client.get("mem_123");
+    assertEquals(result.id, "mem_123");
+    assertEquals(mock.calls(), 3);
+    assertEquals(attempts, [1, 2]);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("retry - gives up after maxAttempts", async () => {
+  const mock = mockFetchSequence([() => jsonResponse({ detail: "busy" }, 500)]);
+  try {
+    const client = new MemoryClient({
+      apiKey: "test-key",
+      retry: { maxAttempts: 2, initialDelayMs: 1 },
+    });
+    await assertRejects(() => client.get("mem_123"), APIError);
+    assertEquals(mock.calls(), 2);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("retry - respects Retry-After header", async () => {
+  const mock = mockFetchSequence([
+    () => jsonResponse({ detail: "slow down" }, 429, { "Retry-After": "0" }),
+    () => jsonResponse([]),
+  ]);
+  const delays: Array<number> = [];
+  try {
+    const client = new MemoryClient({
+      apiKey: "test-key",
+      retry: { initialDelayMs: 5000, onRetry: ({ delayMs }) => void delays.push(delayMs) },
+    });
+    await client.search("query", { user_id: "alice" });
+    assertEquals(delays, [0]);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("retry - gives up when Retry-After exceeds maxDelayMs", async () => {
+  const mock = mockFetchSequence([
+    () => jsonResponse({ detail: "slow down" }, 429, { "Retry-After": "86400" }),
+    () => jsonResponse([]),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key", retry: { maxDelayMs: 1000 } });
+    const error = await assertRejects(
+      () => client.search("query", { user_id: "alice" }),
+      RateLimitError,
+    );
+    assertEquals(error.retryAfterMs, 86_400_000);
+    assertEquals(mock.calls(), 1);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("retry - add() is only retried on 429", async () => {
+  const mock = mockFetchSequence([
+    () => jsonResponse({ detail: "busy" }, 503),
+    () => jsonResponse([]),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key", retry: { initialDelayMs: 1 } });
+    await assertRejects(() => client.add([{ role: "user", content: "hi" }]), APIError);
+    assertEquals(mock.calls(), 1);
+  } finally {
+    mock.restore();
+  }
+
+  const rateLimited = mockFetchSequence([
+    () => jsonResponse({ detail: "slow down" }, 429),
+    () => jsonResponse([]),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key", retry: { initialDelayMs: 1 } });
+    await client.add([{ role: "user", content: "hi" }]);
+    assertEquals(rateLimited.calls(), 2);
+  } finally {
+    rateLimited.restore();
+  }
+});
+
+Deno.test("retry - per-call options override the client policy", async () => {
+  const mock = mockFetchSequence([
+    () => jsonResponse({ detail: "busy" }, 503),
+    () => jsonResponse({ id: "mem_123" }),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key", retry: { initialDelayMs: 1 } });
+    await assertRejects(() => client.get("mem_123", { retry: false }), APIError);
+    assertEquals(mock.calls(), 1);
+  } finally {
+    mock.restore();
+  }
+});
+
+// =============================================================================
+// Cancellation and Timeout Tests
+// =============================================================================
+
+// Helper to mock a fetch that never responds until its signal aborts
+function mockHangingFetch(): () => void {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input, init): Promise<Response> =>
+    new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+    });
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
+
+Deno.test("timeout - client timeoutMs raises TimeoutError", async () => {
+  const restore = mockHangingFetch();
+  try {
+    const client = new MemoryClient({ apiKey: "test-key", timeoutMs: 10 });
+    const error = await assertRejects(() => client.search("q"), TimeoutError);
+    assertEquals(error.timeoutMs, 10);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("timeout - per-call timeoutMs overrides the client timeout", async () => {
+  const restore = mockHangingFetch();
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.get("mem_123", { timeoutMs: 5 }), TimeoutError);
+    assertEquals(error.timeoutMs, 5);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("abort - caller signal raises AbortError, not TimeoutError", async () => {
+  const restore = mockHangingFetch();
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const controller = new AbortController();
+    const pending = client.search("q", { user_id: "alice" }, { signal: controller.signal });
+    controller.abort(new Error("client went away"));
+    const error = await assertRejects(() => pending, AbortError);
+    assertEquals((error.cause as Error).message, "client went away");
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("abort - already aborted signal skips the request", async () => {
+  let called = false;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (): Promise<Response> => {
+    called = true;
+    return Promise.resolve(new Response("[]"));
+  };
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    await assertRejects(() => client.getAll({}, { signal: AbortSignal.abort() }), AbortError);
+    assertEquals(called, false);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("abort - aborting during retry backoff stops retrying", async () => {
+  const mock = mockFetchSequence([() => jsonResponse({ detail: "busy" }, 503)]);
+  try {
+    const controller = new AbortController();
+    const client = new MemoryClient({
+      apiKey: "test-key",
+      retry: { initialDelayMs: 60000, jitter: false, onRetry: () => controller.abort() },
+    });
+    await assertRejects(() => client.get("mem_123", { signal: controller.signal }), AbortError);
+    assertEquals(mock.calls(), 1);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("request options - extra headers are sent", async () => {
+  let headers: Headers | undefined;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input, init): Promise<Response> => {
+    headers = new Headers(init?.headers);
+    return Promise.resolve(jsonResponse({ id: "mem_123" }));
+  };
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    await client.get("mem_123", { headers: { "X-Trace-Id": "trace-1" } });
+    assertEquals(headers?.get("X-Trace-Id"), "trace-1");
+    assertEquals(headers?.get("Authorization"), "Token test-key");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+// =============================================================================
+// Pagination Tests
+// =============================================================================
+
+Deno.test("getAll - sends page and page_size independently", async () => {
+  const urls: Array<string> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input): Promise<Response> => {
+    urls.push(String(input));
+    return Promise.resolve(jsonResponse([]));
+  };
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    await client.getAll({ user_id: "alice", page_size: 25 });
+    assertEquals(new URL(urls[0]!).searchParams.get("page_size"), "25");
+    assertEquals(new URL(urls[0]!).searchParams.get("page"), null);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("getAll - unwraps paginated envelopes", async () => {
+  const restore = mockFetch({ count: 1, next: null, previous: null, results: [{ id: "mem_1" }] });
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const result = await client.getAll({ user_id: "alice", page: 1, page_size: 10 });
+    assertEquals(result.map((m) => m.id), ["mem_1"]);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("getPage - returns typed page and wraps plain arrays", async () => {
+  const restore = mockFetch([{ id: "mem_1" }, { id: "mem_2" }]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const page = await client.getPage({ user_id: "alice" });
+    assertEquals(page.count, 2);
+    assertEquals(page.next, null);
+    assertEquals(page.results.length, 2);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("iterateAll - walks pages until next is null", async () => {
+  const pages: Array<number> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input): Promise<Response> => {
+    const page = Number(new URL(String(input)).searchParams.get("page"));
+    pages.push(page);
+    return Promise.resolve(jsonResponse({
+      count: 3,
+      next: page < 3 ? `https://api.mem0.ai/v1/memories/?page=${page + 1}` : null,
+      previous: null,
+      results: [{ id: `mem_${page}` }],
+    }));
+  };
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const ids: Array<string> = [];
+    for await (const memory of client.iterateAll({ user_id: "alice", page_size: 1 })) {
+      ids.push(memory.id);
+    }
+    assertEquals(ids, ["mem_1", "mem_2", "mem_3"]);
+    assertEquals(pages, [1, 2, 3]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("iterateAll - stops on a short plain-array page", async () => {
+  const mock = mockFetchSequence([
+    () => jsonResponse([{ id: "mem_1" }, { id: "mem_2" }]),
+    () => jsonResponse([{ id: "mem_3" }]),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const ids: Array<string> = [];
+    for await (const memory of client.iterateAll({ page_size: 2 })) {
+      ids.push(memory.id);
+    }
+    assertEquals(ids, ["mem_1", "mem_2", "mem_3"]);
+    assertEquals(mock.calls(), 2);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("iterateUsers - follows next links on the configured host", async () => {
+  const urls: Array<string> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input): Promise<Response> => {
+    const url = String(input);
+    urls.push(url);
+    const second = url.includes("page=2");
+    return Promise.resolve(jsonResponse({
+      count: 2,
+      next: second ? null : "http://internal.mem0:8000/v1/entities/?page=2",
+      previous: null,
+      results: [{ id: second ? "2" : "1", name: second ? "bob" : "alice", type: "user" }],
+    }));
+  };
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const names: Array<string> = [];
+    for await (const user of client.iterateUsers()) {
+      names.push(user.name);
+    }
+    assertEquals(names, ["alice", "bob"]);
+    assertEquals(urls[1], "https://api.mem0.ai/v1/entities/?page=2");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("iterateUsers - does not repeat the path prefix of a proxied host", async () => {
+  const urls: Array<string> = [];
+  const client = new MemoryClient({
+    apiKey: "test-key",
+    host: "https://proxy.example.com/mem0",
+    fetch: (input) => {
+      const url = String(input);
+      urls.push(url);
+      const page = Number(new URL(url).searchParams.get("page") ?? 1);
+      // The proxy rewrites next links to absolute URLs under its own prefix
+      return Promise.resolve(jsonResponse({
+        count: 3,
+        next: page === 1
+          ? "https://proxy.example.com/mem0/v1/entities/?page=2"
+          : page === 2
+          ? "/mem0/v1/entities/?page=3"
+          : null,
+        previous: null,
+        results: [{ id: String(page), name: `user-${page}`, type: "user" }],
+      }));
+    },
+  });
+  const names = (await Array.fromAsync(client.iterateUsers())).map((user) => user.name);
+  assertEquals(names, ["user-1", "user-2", "user-3"]);
+  assertEquals(urls.slice(1), [
+    "https://proxy.example.com/mem0/v1/entities/?page=2",
+    "https://proxy.example.com/mem0/v1/entities/?page=3",
+  ]);
+});
+
+// =============================================================================
+// Fetch and Middleware Tests
+// =============================================================================
+
+Deno.test("fetch - uses the injected fetch instead of the global one", async () => {
+  const urls: Array<string> = [];
+  const client = new MemoryClient({
+    apiKey: "test-key",
+    fetch: (input) => {
+      urls.push(String(input));
+      return Promise.resolve(jsonResponse({ id: "mem_123" }));
+    },
+  });
+  const result = await client.get("mem_123");
+  assertEquals(result.id, "mem_123");
+  assertEquals(urls, ["https://api.mem0.ai/v1/memories/mem_123/"]);
+});
+
+Deno.test("middleware - hooks run in onion order and can rewrite requests", async () => {
+  const order: Array<string> = [];
+  let sentHeader: string | null = null;
+  const client = new MemoryClient({
+    apiKey: "test-key",
+    fetch: (_input, init) => {
+      sentHeader = new Headers(init?.headers).get("X-Trace-Id");
+      return Promise.resolve(jsonResponse({ id: "mem_123" }));
+    },
+    middleware: [
+      {
+        onRequest: ({ request }) => {
+          order.push("a:request");
+          request.headers.set("X-Trace-Id", "trace-1");
+        },
+        onResponse: () => void order.push("a:response"),
+      },
+      {
+        onRequest: () => void order.push("b:request"),
+        onResponse: () => void order.push("b:response"),
+      },
+    ],
+  });
+  await client.get("mem_123");
+  assertEquals(order, ["a:request", "b:request", "b:response", "a:response"]);
+  assertEquals(sentHeader, "trace-1");
+});
+
+Deno.test("middleware - onResponse can replace the response", async () => {
+  const client = new MemoryClient({
+    apiKey: "test-key",
+    fetch: () => Promise.resolve(jsonResponse({ detail: "gone" }, 404)),
+    middleware: [{ onResponse: () => jsonResponse({ id: "cached" }) }],
+  });
+  const result = await client.get("mem_123");
+  assertEquals(result.id, "cached");
+});
+
+Deno.test("middleware - onError can recover from network failures", async () => {
+  const errors: Array<unknown> = [];
+  const client = new MemoryClient({
+    apiKey: "test-key",
+    fetch: () => Promise.reject(new TypeError("offline")),
+    middleware: [
+      { onError: () => jsonResponse([]) },
+      { onError: ({ error }) => void errors.push(error) },
+    ],
+  });
+  const result = await client.search("q");
+  assertEquals(result, []);
+  assertEquals(errors.length, 1);
+});
+
+Deno.test("middleware - runs again on every retry attempt", async () => {
+  const attempts: Array<number> = [];
+  let calls = 0;
+  const client = new MemoryClient({
+    apiKey: "test-key",
+    retry: { initialDelayMs: 1 },
+    fetch: () => {
+      calls++;
+      return Promise.resolve(calls === 1 ? jsonResponse({}, 503) : jsonResponse({ id: "mem_1" }));
+    },
+    middleware: [{ onRequest: ({ attempt }) => void attempts.push(attempt) }],
+  });
+  await client.get("mem_1");
+  assertEquals(attempts, [1, 2]);
+});
+
+// =============================================================================
+// Response Decoding Tests
+// =============================================================================
+
+Deno.test("decoding - converts timestamps to Date objects", async () => {
+  const restore = mockFetch({
+    id: "mem_123",
+    memory: "User prefers dark mode",
+    created_at: "2025-01-02T03:04:05.000Z",
+    updated_at: "2025-01-03T03:04:05.000Z",
+  });
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const result = await client.get("mem_123");
+    assertEquals(result.created_at instanceof Date, true);
+    assertEquals(result.created_at?.getTime(), Date.UTC(2025, 0, 2, 3, 4, 5));
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("decoding - normalizes data.memory into memory", async () => {
+  const restore = mockFetch([{ id: "mem_1", event: "ADD", data: { memory: "Likes tea" } }]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const result = await client.add([{ role: "user", content: "I like tea" }]);
+    assertEquals(result[0]!.memory, "Likes tea");
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("decoding - decodes users, history and webhooks", async () => {
+  const client = new MemoryClient({ apiKey: "test-key", projectId: "p", organizationId: "o" });
+
+  let restore = mockFetch({
+    count: 1,
+    next: null,
+    previous: null,
+    results: [{ id: 7, name: "alice", type: "user", created_at: "2025-01-01T00:00:00Z" }],
+  });
+  try {
+    const users = await client.users();
+    assertEquals(users.results[0]!.id, "7");
+    assertEquals(users.results[0]!.created_at instanceof Date, true);
+  } finally {
+    restore();
+  }
+
+  restore = mockFetch([{ id: "h1", memory_id: "m1", event: "ADD", created_at: "2025-01-01" }]);
+  try {
+    const history = await client.history("m1");
+    assertEquals(history[0]!.created_at instanceof Date, true);
+  } finally {
+    restore();
+  }
+
+  restore = mockFetch([{ name: "hook", url: "https://example.com", created_at: "2025-01-01" }]);
+  try {
+    const webhooks = await client.getWebhooks();
+    assertEquals(webhooks[0]!.created_at instanceof Date, true);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("decoding - throws ResponseValidationError on shape drift", async () => {
+  const restore = mockFetch([{ id: "mem_1" }, { id: 42, memory: "bad id" }]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.search("q"), ResponseValidationError);
+    assertEquals(error.path, "$[1].id");
+    assertEquals(error.url, "https://api.mem0.ai/v1/memories/search/");
+    assertEquals(error.body, [{ id: "mem_1" }, { id: 42, memory: "bad id" }]);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("decoding - rejects unparseable timestamps", async () => {
+  const restore = mockFetch({ id: "mem_1", created_at: "yesterday-ish" });
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.get("mem_1"), ResponseValidationError);
+    assertEquals(error.path, "$.created_at");
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("decoding - decodeResponses: false returns raw payloads", async () => {
+  const restore = mockFetch({ id: "mem_1", created_at: "2025-01-01T00:00:00Z" });
+  try {
+    const client = new MemoryClient({ apiKey: "test-key", decodeResponses: false });
+    const result = await client.get("mem_1");
+    assertEquals(result.created_at as unknown, "2025-01-01T00:00:00Z");
+  } finally {
+    restore();
+  }
+});
+
+// =============================================================================
+// Chunked Batch Tests
+// =============================================================================
+
+function batchFetch(
+  fail: (ids: Array<string>) => boolean = () => false,
+): {
+  fetch: (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+  chunks: Array<Array<string>>;
+  maxInFlight: () => number;
+} {
+  const chunks: Array<Array<string>> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  return {
+    chunks,
+    maxInFlight: () => maxInFlight,
+    fetch: async (_input, init) => {
+      const { memories } = JSON.parse(String(init?.body)) as {
+        memories: Array<{ memory_id: string }>;
+      };
+      const ids = memories.map((memory) => memory.memory_id);
+      chunks.push(ids);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return fail(ids)
+        ? jsonResponse({ detail: "Memory not found" }, 404)
+        : jsonResponse({ message: `Deleted ${ids.length}` });
+    },
+  };
+}
+
+const ids = (count: number): Array<string> => Array.from({ length: count }, (_, i) => `mem_${i}`);
+
+Deno.test("batch - splits large inputs into server-sized chunks", async () => {
+  const mock = batchFetch();
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+
+  const report = await client.batchDelete(ids(2500));
+
+  assertEquals(mock.chunks.map((chunk) => chunk.length).sort(), [1000, 1000, 500]);
+  assertEquals(report.succeeded, ids(2500));
+  assertEquals(report.chunks.map((chunk) => [chunk.index, chunk.ids.length, chunk.status]), [
+    [0, 1000, "succeeded"],
+    [1, 1000, "succeeded"],
+    [2, 500, "succeeded"],
+  ]);
+});
+
+Deno.test("batch - bounds the number of chunks in flight", async () => {
+  const mock = batchFetch();
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+
+  await client.batchUpdate(
+    ids(10).map((memoryId) => ({ memoryId, text: "updated" })),
+    { chunkSize: 1, concurrency: 3 },
+  );
+
+  assertEquals(mock.chunks.length, 10);
+  assertEquals(mock.maxInFlight(), 3);
+});
+
+Deno.test("batch - continueOnError reports failed items with their errors", async () => {
+  const mock = batchFetch((chunk) => chunk.includes("mem_3"));
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+  const progress: Array<[number, number]> = [];
+
+  const report = await client.batchDelete(ids(6), {
+    chunkSize: 2,
+    concurrency: 1,
+    continueOnError: true,
+    onProgress: ({ processed, failed }) => progress.push([processed, failed]),
+  });
+
+  assertEquals(report.succeeded, ["mem_0", "mem_1", "mem_4", "mem_5"]);
+  assertEquals(report.failed.map((item) => item.id), ["mem_2", "mem_3"]);
+  assertEquals(report.failed[0]?.error instanceof NotFoundError, true);
+  assertEquals(report.skipped, []);
+  assertEquals(progress, [[2, 0], [4, 2], [6, 2]]);
+});
+
+Deno.test("batch - stops at the first failed chunk and throws BatchError", async () => {
+  const mock = batchFetch((chunk) => chunk.includes("mem_2"));
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+
+  const error = await assertRejects(
+    () => client.batchDelete(ids(6), { chunkSize: 2, concurrency: 1 }),
+    BatchError,
+  );
+
+  assertEquals(error.report.succeeded, ["mem_0", "mem_1"]);
+  assertEquals(error.report.failed.map((item) => item.id), ["mem_2", "mem_3"]);
+  assertEquals(error.report.skipped, ["mem_4", "mem_5"]);
+  assertEquals(error.cause instanceof NotFoundError, true);
+  assertEquals(mock.chunks.length, 2);
+});
+
+Deno.test("batch - empty input sends no requests and bad options are rejected", async () => {
+  const mock = batchFetch();
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+
+  const report = await client.batchDelete([]);
+  assertEquals(report, { succeeded: [], failed: [], skipped: [], chunks: [] });
+  assertEquals(mock.chunks.length, 0);
+
+  await assertRejects(() => client.batchDelete(ids(2), { chunkSize: 5000 }), InvalidArgumentError);
+  await assertRejects(() => client.batchDelete(ids(2), { concurrency: 0 }), InvalidArgumentError);
+});
+
+// =============================================================================
+// Bulk Add Tests
+// =============================================================================
+
+function addFetch(
+  fail: (content: string) => boolean = () => false,
+): {
+  fetch: (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+  sent: Array<string>;
+  maxInFlight: () => number;
+} {
+  const sent: Array<string> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  return {
+    sent,
+    maxInFlight: () => maxInFlight,
+    fetch: async (_input, init) => {
+      const { messages } = JSON.parse(String(init?.body)) as {
+        messages: Array<{ content: string }>;
+      };
+      const content = messages[0]!.content;
+      sent.push(content);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return fail(content)
+        ? jsonResponse({ detail: "Invalid messages" }, 400)
+        : jsonResponse([{ id: `mem_${content}`, event: "ADD", data: { memory: content } }]);
+    },
+  };
+}
+
+const conversations = (count: number): Array<AddManyItem> =>
+  Array.from({ length: count }, (_, i) => ({
+    messages: [{ role: "user", content: String(i) }],
+    options: { user_id: "alice" },
+  }));
+
+Deno.test("addMany - streams results and collects failures by index", async () => {
+  const mock = addFetch((content) => content === "2" || content === "5");
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+  const progress: Array<number> = [];
+
+  const results = [];
+  for await (
+    const result of client.addMany(conversations(8), {
+      concurrency: 3,
+      onProgress: ({ processed }) => progress.push(processed),
+    })
+  ) {
+    results.push(result);
+  }
+
+  assertEquals(results.length, 8);
+  assertEquals(mock.maxInFlight(), 3);
+  assertEquals(progress, [1, 2, 3, 4, 5, 6, 7, 8]);
+  const failed = results.filter((result) => result.status === "failed");
+  assertEquals(failed.map((result) => result.index).sort(), [2, 5]);
+  assertEquals(failed[0]?.status === "failed" && failed[0].error instanceof ValidationError, true);
+  const first = results.find((result) => result.index === 0);
+  assertEquals(first?.status === "succeeded" && first.memories[0]?.id, "mem_0");
+});
+
+Deno.test("addMany - pulls async iterables lazily", async () => {
+  const mock = addFetch();
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+  let pulled = 0;
+  async function* source(): AsyncGenerator<AddManyItem> {
+    for (const item of conversations(100)) {
+      pulled++;
+      yield item;
+    }
+  }
+
+  let seen = 0;
+  for await (const _ of client.addMany(source(), { concurrency: 2 })) {
+    if (++seen === 3) {
+      break;
+    }
+  }
+
+  assertEquals(pulled <= 5, true);
+});
+
+Deno.test("addMany - rateLimit spaces out requests", async () => {
+  const mock = addFetch();
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+
+  const start = Date.now();
+  for await (const _ of client.addMany(conversations(5), { concurrency: 5, rateLimit: 50 })) {
+    // drain
+  }
+
+  // Five requests at 50/s need at least four 20ms gaps.
+  assertEquals(Date.now() - start >= 75, true);
+});
+
+Deno.test("addMany - resumes from a checkpoint file", async () => {
+  const dir = await Deno.makeTempDir();
+  const checkpoint = `${dir}/ingest.json`;
+  try {
+    const flaky = addFetch((content) => content === "3");
+    const first = new MemoryClient({ apiKey: "test-key", fetch: flaky.fetch });
+    for await (const _ of first.addMany(conversations(6), { checkpoint, concurrency: 2 })) {
+      // drain
+    }
+    assertEquals(JSON.parse(await Deno.readTextFile(checkpoint)).watermark, 3);
+
+    const healthy = addFetch();
+    const second = new MemoryClient({ apiKey: "test-key", fetch: healthy.fetch });
+    let skipped = 0;
+    const indices: Array<number> = [];
+    for await (
+      const result of second.addMany(conversations(6), {
+        checkpoint,
+        onProgress: (progress) => skipped = progress.skipped,
+      })
+    ) {
+      indices.push(result.index);
+    }
+
+    assertEquals(indices, [3]);
+    assertEquals(healthy.sent, ["3"]);
+    assertEquals(skipped, 5);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("addMany - names a corrupt checkpoint file", async () => {
+  const dir = await Deno.makeTempDir();
+  const checkpoint = `${dir}/ingest.json`;
+  const client = new MemoryClient({ apiKey: "test-key", fetch: addFetch().fetch });
+  try {
+    await Deno.writeTextFile(checkpoint, '{"version":1,"water');
+    const truncated = await assertRejects(
+      () => Array.fromAsync(client.addMany(conversations(2), { checkpoint })),
+      Mem0Error,
+      checkpoint,
+    );
+    assertEquals(truncated.cause instanceof SyntaxError, true);
+
+    for (const content of ["null", '{"watermark":-1,"completed":[]}', '{"watermark":0}']) {
+      await Deno.writeTextFile(checkpoint, content);
+      await assertRejects(
+        () => Array.fromAsync(client.addMany(conversations(2), { checkpoint })),
+        Mem0Error,
+        `Checkpoint ${checkpoint} is not a checkpoint file`,
+      );
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("addMany - abort ends the ingest and bad options are rejected", async () => {
+  const mock = addFetch();
+  const client = new MemoryClient({ apiKey: "test-key", fetch: mock.fetch });
+  const controller = new AbortController();
+
+  await assertRejects(async () => {
+    for await (
+      const _ of client.addMany(conversations(20), { concurrency: 1, rateLimit: 10 }, {
+        signal: controller.signal,
+      })
+    ) {
+      controller.abort();
+    }
+  }, AbortError);
+  assertEquals(mock.sent.length < 20, true);
+
+  await assertRejects(async () => {
+    for await (const _ of client.addMany([], { concurrency: 0 })) {
+      // drain
+    }
+  }, InvalidArgumentError);
+});
+
+// =============================================================================
+// Async Add Tests
+// =============================================================================
+
+const queued = (): Response =>
+  jsonResponse([{
+    message: "Memory processing has been queued",
+    status: "PENDING",
+    event_id: "evt_1",
+  }]);
+
+const eventResponse = (status: string, extra: Record<string, unknown> = {}): Response =>
+  jsonResponse({ id: "evt_1", event_type: "ADD", status, ...extra });
+
+Deno.test("async add - returns a job that polls until the event succeeds", async () => {
+  const mock = mockFetchSequence([
+    queued,
+    () => eventResponse("PENDING"),
+    () => eventResponse("RUNNING"),
+    () =>
+      eventResponse("SUCCEEDED", {
+        results: [
+          { id: "mem_1", event: "ADD", data: { memory: "Likes tea" } },
+          { id: "mem_2", event: "UPDATE", memory: "Lives in Lisbon" },
+          { id: "mem_3", event: "DELETE", data: { memory: "Lives in Porto" } },
+        ],
+        created_at: "2025-01-01T00:00:00Z",
+      }),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const job = await client.add([{ role: "user", content: "hi" }], {
+      user_id: "alice",
+      async_mode: true,
+    });
+    assertEquals(job.eventId, "evt_1");
+    assertEquals((await job.status()).status, "PENDING");
+
+    const event = await job.wait({ pollIntervalMs: 1 });
+    assertEquals(event.status, "SUCCEEDED");
+    assertEquals(event.results.map((operation) => [operation.event, operation.memory]), [
+      ["ADD", "Likes tea"],
+      ["UPDATE", "Lives in Lisbon"],
+      ["DELETE", "Lives in Porto"],
+    ]);
+    assertEquals(event.created_at instanceof Date, true);
+    assertEquals(mock.calls(), 4);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("async add - wait throws MemoryEventError when the event fails", async () => {
+  const mock = mockFetchSequence([queued, () => eventResponse("FAILED", { error: "LLM timeout" })]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const job = await client.add([{ role: "user", content: "hi" }], {
+      user_id: "alice",
+      async_mode: true,
+    });
+    const error = await assertRejects(() => job.wait(), MemoryEventError, "LLM timeout");
+    assertEquals(error.event.status, "FAILED");
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("async add - wait times out and can be aborted", async () => {
+  const mock = mockFetchSequence([queued, () => eventResponse("PENDING")]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const job = await client.add([{ role: "user", content: "hi" }], {
+      user_id: "alice",
+      async_mode: true,
+    });
+    await assertRejects(() => job.wait({ timeoutMs: 20, pollIntervalMs: 5 }), TimeoutError);
+
+    const controller = new AbortController();
+    const waiting = job.wait({ pollIntervalMs: 1000 }, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+    await assertRejects(() => waiting, AbortError);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("async add - rejects acknowledgements without an event_id", async () => {
+  const restore = mockFetch([{ message: "queued" }]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    await assertRejects(
+      () => client.add([{ role: "user", content: "hi" }], { user_id: "alice", async_mode: true }),
+      ResponseValidationError,
+      "$[0].event_id",
+    );
+  } finally {
+    restore();
+  }
+});
+
+// =============================================================================
+// Export Job Tests
+// =============================================================================
+
+const exportCreated = (): Response =>
+  jsonResponse({ message: "Memory export request received", id: "exp_1" });
+
+const exportResponse = (status: string, extra: Record<string, unknown> = {}): Response =>
+  jsonResponse({ id: "exp_1", status, ...extra });
+
+const exportData = {
+  memories: [
+    { id: "mem_1", memory: "Likes tea" },
+    { id: "mem_2", memory: "Lives in Lisbon" },
+  ],
+};
+
+const exportSchema = {
+  type: "object",
+  required: ["memories"],
+  properties: {
+    memories: {
+      type: "array",
+      items: { type: "object", required: ["id", "memory"] },
+    },
+  },
+};
+
+Deno.test("export job - polls until the export completes and returns typed data", async () => {
+  const mock = mockFetchSequence([
+    exportCreated,
+    () => exportResponse("PENDING"),
+    () => exportResponse("processing"),
+    () => exportResponse("completed", { data: exportData }),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const job = await client.createMemoryExport<typeof exportData>({
+      filters: { user_id: "alice" },
+      schema: exportSchema,
+    });
+    assertEquals(job.id, "exp_1");
+    assertEquals(job.message, "Memory export request received");
+    assertEquals((await job.status()).status, "pending");
+
+    const completed = await job.wait({ pollIntervalMs: 1 });
+    assertEquals(completed.status, "completed");
+    const result = await job.result();
+    assertEquals(result.memories.map((memory) => memory.memory), ["Likes tea", "Lives in Lisbon"]);
+    // result() reuses the export wait() returned instead of downloading it again
+    assertEquals(mock.calls(), 4);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("export job - wait throws MemoryExportError when the export fails", async () => {
+  const mock = mockFetchSequence([
+    exportCreated,
+    () => exportResponse("failed", { error: "Schema could not be applied" }),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const job = await client.createMemoryExport({ filters: {}, schema: exportSchema });
+    const error = await assertRejects(
+      () => job.wait(),
+      MemoryExportError,
+      "Schema could not be applied",
+    );
+    assertEquals(error.export.status, "failed");
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("export job - result validates the data against the schema", async () => {
+  const mock = mockFetchSequence([
+    exportCreated,
+    () => exportResponse("pending"),
+    () => exportResponse("completed", { data: { memories: [{ id: "mem_1" }] } }),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const job = await client.createMemoryExport({ filters: {}, schema: exportSchema });
+    await assertRejects(() => job.result(), MemoryExportError, "call wait() first");
+    await assertRejects(() => job.result(), ResponseValidationError, "$.memories[0].memory");
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("export job - rejects a status response without a status", async () => {
+  const mock = mockFetchSequence([exportCreated, () => jsonResponse({ id: "exp_1", data: {} })]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const job = await client.createMemoryExport({ filters: {}, schema: exportSchema });
+    await assertRejects(() => job.wait(), ResponseValidationError, "$.status");
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("export job - saveTo writes JSON and JSONL files", async () => {
+  const dir = await Deno.makeTempDir();
+  const mock = mockFetchSequence([
+    exportCreated,
+    ...Array.from({ length: 4 }, () => () => exportResponse("completed", { data: exportData })),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const job = await client.createMemoryExport({ filters: {}, schema: exportSchema });
+
+    const json = await job.saveTo(`${dir}/export.json`);
+    assertEquals(json.records, 1);
+    assertEquals(JSON.parse(await Deno.readTextFile(`${dir}/export.json`)), exportData);
+
+    const jsonl = await job.saveTo(`${dir}/export.jsonl`, { format: "jsonl" });
+    assertEquals(jsonl.records, 2);
+    const lines = (await Deno.readTextFile(`${dir}/export.jsonl`)).trimEnd().split("\n");
+    assertEquals(lines.map((line) => JSON.parse(line)), exportData.memories);
+    // One status check per save: the data wait() returns is the data written
+    assertEquals(mock.calls(), 3);
+  } finally {
+    mock.restore();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("export job - rejects acknowledgements without an id", async () => {
+  const restore = mockFetch({ message: "Memory export request received" });
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    await assertRejects(
+      () => client.createMemoryExport({ filters: {}, schema: {} }),
+      ResponseValidationError,
+      "$.id",
+    );
+  } finally {
+    restore();
+  }
+});
+
+// =============================================================================
+// Safety Guard Tests
+// =============================================================================
+
+Deno.test("safety guard - project-wide deletes require confirmation", async () => {
+  const mock = mockFetchSequence([
+    () => jsonResponse({ message: "Memories deleted successfully!" }),
+    () =>
+      jsonResponse({
+        count: 1,
+        next: null,
+        previous: null,
+        results: [{ id: "1", name: "alice", type: "user" }],
+      }),
+    () => jsonResponse({ message: "Entity deleted" }),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    const error = await assertRejects(() => client.deleteAll(), OperationBlockedError);
+    assertEquals([error.operation, error.reason], ["deleteAll", "confirmation_required"]);
+    await assertRejects(() => client.deleteUsers(), OperationBlockedError, "DELETE_ALL");
+    assertEquals(mock.calls(), 0);
+
+    await client.deleteAll({ confirm: "DELETE_ALL" });
+    await client.deleteUsers({ confirm: "DELETE_ALL" });
+    assertEquals(mock.calls(), 3);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("safety guard - readOnly clients reject writes before sending them", async () => {
+  const mock = mockFetchSequence([() => jsonResponse([])]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key", readOnly: true });
+    const writes: Array<[string, () => Promise<unknown>]> = [
+      ["add", () => client.add([{ role: "user", content: "hi" }], { user_id: "alice" })],
+      ["update", () => client.update("mem_1", { text: "changed" })],
+      ["delete", () => client.delete("mem_1")],
+      ["deleteAll", () => client.deleteAll({ user_id: "alice" })],
+      ["deleteUsers", () => client.deleteUsers({ user_id: "alice" })],
+      ["batchDelete", () => client.batchDelete(["mem_1"])],
+      ["updateProject", () => client.updateProject({ custom_instructions: "x" })],
+      ["deleteWebhook", () => client.deleteWebhook({ webhookId: "wh_1" })],
+      ["addMany", () => Array.fromAsync(client.addMany([]))],
+    ];
+    for (const [operation, write] of writes) {
+      const error = await assertRejects(write, OperationBlockedError);
+      assertEquals([error.operation, error.reason], [operation, "read_only"]);
+    }
+    assertEquals(mock.calls(), 0);
+
+    // Reads still go through
+    await client.getAll({ user_id: "alice" });
+    assertEquals(mock.calls(), 1);
+  } finally {
+    mock.restore();
+  }
+});
+
+Deno.test("safety guard - dryRun previews deletions without deleting", async () => {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  fake.seed([
+    { memory: "Likes tea", user_id: "alice" },
+    { memory: "Plans a trip", user_id: "alice", agent_id: "planner" },
+    { memory: "Lives in Lisbon", user_id: "bob" },
+  ]);
+  const client = fake.client({ readOnly: true });
+
+  const alice = await client.deleteAll({ user_id: "alice", dryRun: true });
+  assertEquals(alice.entities, []);
+  assertEquals(alice.memories.map((memory) => memory.memory), ["Likes tea", "Plans a trip"]);
+
+  const everything = await client.deleteAll({ dryRun: true });
+  assertEquals(everything.entities.map((entity) => entity.name), ["alice", "planner", "bob"]);
+  assertEquals(everything.memories.length, 3);
+
+  const planner = await client.deleteUsers({ agent_id: "planner", dryRun: true });
+  assertEquals(planner.entities.map((entity) => [entity.type, entity.name]), [[
+    "agent",
+    "planner",
+  ]]);
+  assertEquals(planner.memories.map((memory) => memory.memory), ["Plans a trip"]);
+
+  assertEquals((await client.deleteUsers({ dryRun: true })).entities.length, 3);
+  assertEquals(fake.memories.length, 3);
+});
+
+Deno.test("safety guard - confirmed deleteUsers deletes every page of entities", async () => {
+  const deleted: Array<string> = [];
+  const client = new MemoryClient({
+    apiKey: "test-key",
+    fetch: (input, init) => {
+      const url = new URL(String(input));
+      if (init?.method === "DELETE") {
+        deleted.push(url.pathname);
+        return Promise.resolve(jsonResponse({ message: "Entity deleted" }));
+      }
+      const second = url.searchParams.get("page") === "2";
+      return Promise.resolve(jsonResponse({
+        count: 3,
+        next: second ? null : "https://api.mem0.ai/v1/entities/?page=2",
+        previous: null,
+        results: second
+          ? [{ id: "3", name: "planner", type: "agent" }]
+          : [{ id: "1", name: "alice", type: "user" }, { id: "2", name: "bob", type: "user" }],
+      }));
+    },
+  });
+
+  const preview = await client.deleteUsers({ dryRun: true });
+  const result = await client.deleteUsers({ confirm: "DELETE_ALL" });
+
+  assertEquals(result.message, "All users, agents, apps and runs deleted.");
+  assertEquals(
+    deleted,
+    preview.entities.map((entity) => `/v2/entities/${entity.type}/${entity.name}/`),
+  );
+  assertEquals(deleted.length, 3);
+});
+
+// =============================================================================
+// Webhook Sync Tests
+// =============================================================================
+
+function webhookSetup(): { fake: FakeMem0; client: MemoryClient } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  return { fake, client: fake.client() };
+}
+
+Deno.test("syncWebhooks - creates, updates and prunes to match the specs", async () => {
+  const { client } = webhookSetup();
+  for (
+    const [name, url] of [
+      ["audit", "https://old.example.com/audit"],
+      ["search-index", "https://example.com/index"],
+      ["legacy", "https://example.com/legacy"],
+    ]
+  ) {
+    await client.createWebhook({
+      name: name!,
+      url: url!,
+      eventTypes: ["memory_add"],
+      projectId: "fake-project",
+      webhookId: "",
+    });
+  }
+
+  const desired: Array<WebhookSpec> = [
+    // Matched by name, URL and event types changed
+    {
+      name: "audit",
+      url: "https://example.com/audit",
+      eventTypes: ["memory_add", "memory_update"],
+    },
+    // Matched by URL, renamed
+    { name: "indexer", url: "https://example.com/index", eventTypes: ["memory_add"] },
+    { name: "slack", url: "https://example.com/slack", eventTypes: ["memory_delete"] },
+  ];
+
+  const plan = await client.syncWebhooks(desired, { prune: true, dryRun: true });
+  assertEquals(
+    plan.actions.map((action) =>
+      action.action === "delete"
+        ? ["delete", action.webhook.name]
+        : action.action === "update"
+        ? ["update", action.webhook.name, action.changes]
+        : ["create", action.spec.name]
+    ),
+    [
+      ["create", "slack"],
+      ["update", "audit", ["url", "eventTypes"]],
+      ["update", "search-index", ["name"]],
+      ["delete", "legacy"],
+    ],
+  );
+  assertEquals((await client.getWebhooks()).length, 3);
+
+  const applied = await client.syncWebhooks(desired, { prune: true });
+  assertEquals(applied.actions.length, 4);
+  assertEquals(
+    (await client.getWebhooks()).map((webhook) => [webhook.name, webhook.url, webhook.event_types])
+      .sort(),
+    [
+      ["audit", "https://example.com/audit", ["memory_add", "memory_update"]],
+      ["indexer", "https://example.com/index", ["memory_add"]],
+      ["slack", "https://example.com/slack", ["memory_delete"]],
+    ],
+  );
+
+  // A second sync is a no-op
+  const again = await client.syncWebhooks(desired, { prune: true });
+  assertEquals(again.actions, []);
+  assertEquals(again.unchanged.length, 3);
+});
+
+Deno.test("syncWebhooks - keeps unmatched webhooks unless pruning", async () => {
+  const { client } = webhookSetup();
+  await client.createWebhook({
+    name: "manual",
+    url: "https://example.com/manual",
+    eventTypes: ["memory_add"],
+    projectId: "fake-project",
+    webhookId: "",
+  });
+
+  const result = await client.syncWebhooks([]);
+  assertEquals(result.actions, []);
+  assertEquals(result.unmanaged.map((webhook) => webhook.name), ["manual"]);
+
+  await assertRejects(
+    () =>
+      client.syncWebhooks([
+        { name: "a", url: "https://example.com/same", eventTypes: [] },
+        { name: "b", url: "https://example.com/same", eventTypes: [] },
+      ]),
+    InvalidArgumentError,
+    "share the url",
+  );
+
+  const readOnly = new MemoryClient({ apiKey: "test-key", readOnly: true });
+  await assertRejects(() => readOnly.syncWebhooks([]), OperationBlockedError);
+});
+
+Deno.test("createWebhook - posts to the project it is given", async () => {
+  const urls: Array<string> = [];
+  const client = new MemoryClient({
+    apiKey: "test-key",
+    organizationId: "org_1",
+    projectId: "proj_1",
+    fetch: (input) => {
+      urls.push(String(input));
+      return Promise.resolve(jsonResponse({ webhook_id: "wh_1", name: "a", url: "https://a" }));
+    },
+  });
+  await client.createWebhook({ name: "a", url: "https://a", eventTypes: [], projectId: "proj_2" });
+  await client.createWebhook({ name: "a", url: "https://a", eventTypes: [] });
+  assertEquals(urls, [
+    "https://api.mem0.ai/api/v1/webhooks/projects/proj_2/",
+    "https://api.mem0.ai/api/v1/webhooks/projects/proj_1/",
+  ]);
+
+  const unscoped = new MemoryClient({
+    apiKey: "test-key",
+    fetch: () => Promise.reject(new Error("no request expected")),
+  });
+  await assertRejects(() => unscoped.getWebhooks(), Mem0Error, "projectId must be set");
+  await assertRejects(
+    () => unscoped.createWebhook({ name: "a", url: "https://a", eventTypes: [] }),
+    Mem0Error,
+    "projectId must be set",
+  );
+});
+
+Deno.test("syncWebhooks - rejects listed webhooks without a webhook_id", async () => {
+  const mock = mockFetchSequence([
+    () => jsonResponse([{ name: "audit", url: "https://example.com/audit" }]),
+  ]);
+  try {
+    const client = new MemoryClient({ apiKey: "test-key", projectId: "proj_1" });
+    const error = await assertRejects(
+      () => client.syncWebhooks([], { prune: true }),
+      ResponseValidationError,
+      "no webhook_id",
+    );
+    assertEquals(error.path, "$[0].webhook_id");
+    // Nothing was sent to /api/v1/webhooks/undefined/
+    assertEquals(mock.calls(), 1);
+  } finally {
+    mock.restore();
+  }
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the v2 filter builder.
+ *
+ * Run with: deno test tests/filter_test.ts
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { API_VERSION, f, InvalidArgumentError, MemoryClient } from "../mod.ts";
+
+Deno.test("f - builds equality conditions", () => {
+  assertEquals(f.eq("user_id", "alice"), { user_id: "alice" });
+  assertEquals(f.metadata({ plan: "pro" }), { metadata: { plan: "pro" } });
+  assertEquals(f.exists("agent_id"), { agent_id: "*" });
+});
+
+Deno.test("f - builds operator conditions and serializes dates", () => {
+  const date = new Date("2025-01-01T00:00:00.000Z");
+  assertEquals(f.gte("created_at", date), { created_at: { gte: "2025-01-01T00:00:00.000Z" } });
+  assertEquals(f.lt("timestamp", 1700000000), { timestamp: { lt: 1700000000 } });
+  assertEquals(f.ne("run_id", "run_1"), { run_id: { ne: "run_1" } });
+  assertEquals(f.in("categories", ["food", "travel"]), { categories: { in: ["food", "travel"] } });
+  assertEquals(f.icontains("text", "coffee"), { text: { icontains: "coffee" } });
+  assertEquals(
+    f.between("updated_at", "2025-01-01", date),
+    { updated_at: { gte: "2025-01-01", lte: "2025-01-01T00:00:00.000Z" } },
+  );
+});
+
+Deno.test("f - nests logical groups", () => {
+  assertEquals(
+    f.or(f.eq("user_id", "alice"), f.and(f.eq("agent_id", "bot"), f.not(f.eq("app_id", "x")))),
+    {
+      OR: [
+        { user_id: "alice" },
+        { AND: [{ agent_id: "bot" }, { NOT: [{ app_id: "x" }] }] },
+      ],
+    },
+  );
+});
+
+Deno.test("f - rejects invalid fields and operator values at compile time", () => {
+  const invalid = (): Array<unknown> => [
+    // @ts-expect-error unknown field
+    f.eq("user", "alice"),
+    // @ts-expect-error range operators only apply to dates and timestamps
+    f.gte("user_id", "alice"),
+    // @ts-expect-error timestamp values are numbers
+    f.lt("timestamp", "yesterday"),
+    // @ts-expect-error substring matching only applies to text fields
+    f.contains("user_id", "ali"),
+  ];
+  assertEquals(typeof invalid, "function");
+});
+
+Deno.test("f - filters are sent in the v2 search body", async () => {
+  let body: unknown;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input, init): Promise<Response> => {
+    body = JSON.parse(String(init?.body));
+    return Promise.resolve(new Response("[]"));
+  };
+  try {
+    const client = new MemoryClient({ apiKey: "test-key" });
+    await client.search("coffee", {
+      api_version: API_VERSION.V2,
+      filters: f.and(f.eq("user_id", "alice"), f.in("categories", ["food"])),
+    });
+    assertEquals(body, {
+      query: "coffee",
+      filters: { AND: [{ user_id: "alice" }, { categories: { in: ["food"] } }] },
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("f - getAll rejects filters without api_version v2", async () => {
+  const client = new MemoryClient({ apiKey: "test-key" });
+  await assertRejects(
+    () => client.getAll({ filters: f.eq("user_id", "alice") }),
+    InvalidArgumentError,
+    "api_version v2",
+  );
+});
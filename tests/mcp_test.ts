@@ -0,0 +1,216 @@
+/**
+ * Tests for the MCP server, driven end-to-end against FakeMem0 over stdio
+ * streams and HTTP.
+ *
+ * Run with: deno test --allow-net tests/mcp_test.ts
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { McpServer, MemoryClient } from "../mod.ts";
+import type { JsonRpcResponse, McpServerOptions } from "../mod.ts";
+import { FakeMem0 } from "../testing.ts";
+
+function setup(options: McpServerOptions = {}): { fake: FakeMem0; server: McpServer } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  return { fake, server: new McpServer(fake.client(), options) };
+}
+
+/** Sends newline-delimited messages through serveStdio and collects the responses. */
+async function stdio(server: McpServer, messages: Array<unknown>): Promise<Array<JsonRpcResponse>> {
+  const lines = messages.map((message) =>
+    typeof message === "string" ? message : JSON.stringify(message)
+  );
+  const output: Array<string> = [];
+  await server.serveStdio({
+    input: ReadableStream.from([new TextEncoder().encode(`${lines.join("\n")}\n`)]),
+    output: new WritableStream({
+      write: (chunk) => {
+        output.push(new TextDecoder().decode(chunk));
+      },
+    }),
+  });
+  return output.join("").trim().split("\n").map((line) => JSON.parse(line))
+    .sort((a, b) => Number(a.id) - Number(b.id));
+}
+
+function call(id: number, name: string, args: Record<string, unknown>): unknown {
+  return { jsonrpc: "2.0", id, method: "tools/call", params: { name, arguments: args } };
+}
+
+function text(response: JsonRpcResponse | undefined): string {
+  return (response?.result as { content: Array<{ text: string }> }).content[0]!.text;
+}
+
+Deno.test("McpServer - initializes and calls memory tools over stdio", async () => {
+  const { fake, server } = setup();
+
+  const [init, list, added] = await stdio(server, [
+    {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test" } },
+    },
+    { jsonrpc: "2.0", method: "notifications/initialized" },
+    { jsonrpc: "2.0", id: 2, method: "tools/list" },
+    call(3, "add_memory", { messages: "Prefers window seats", user_id: "alice" }),
+  ]);
+  // Requests run concurrently, so reads go in a second session
+  const [found, listed] = await stdio(server, [
+    call(4, "search_memories", { query: "window seats", user_id: "alice", limit: 5 }),
+    call(5, "list_memories", { user_id: "alice", page_size: 10 }),
+  ]);
+
+  assertEquals(init?.result, {
+    protocolVersion: "2025-03-26",
+    capabilities: { tools: { listChanged: false } },
+    serverInfo: { name: "mem0", version: "0.1.0" },
+  });
+  const tools = (list?.result as { tools: Array<{ name: string; inputSchema: unknown }> }).tools;
+  assertEquals(tools.map((tool) => tool.name), [
+    "add_memory",
+    "search_memories",
+    "list_memories",
+    "update_memory",
+    "delete_memory",
+    "memory_history",
+  ]);
+
+  const [memory] = JSON.parse(text(added));
+  assertEquals(fake.memories.map((stored) => [stored.memory, stored.user_id]), [
+    ["Prefers window seats", "alice"],
+  ]);
+  assertEquals(JSON.parse(text(found))[0].id, memory.id);
+  assertEquals(JSON.parse(text(listed)).count, 1);
+});
+
+Deno.test("McpServer - binds a fixed scope the model cannot change", async () => {
+  const { fake, server } = setup({ scope: { user_id: "alice" } });
+  const [theirs] = fake.seed([
+    { memory: "Lives in Lisbon", user_id: "bob" },
+    { memory: "Likes tea", user_id: "alice" },
+  ]);
+
+  const [list, search, spoofed, update] = await stdio(server, [
+    { jsonrpc: "2.0", id: 1, method: "tools/list" },
+    call(2, "search_memories", { query: "Lisbon tea" }),
+    call(3, "search_memories", { query: "Lisbon", user_id: "bob" }),
+    call(4, "update_memory", { memory_id: theirs!.id, text: "Lives in Porto" }),
+  ]);
+
+  const tools =
+    (list?.result as { tools: Array<{ name: string; inputSchema: { properties: object } }> }).tools;
+  const searchSchema = tools.find((tool) => tool.name === "search_memories")!.inputSchema;
+  assertEquals("user_id" in searchSchema.properties, false);
+  assertEquals("agent_id" in searchSchema.properties, true);
+
+  assertEquals(JSON.parse(text(search)).map((memory: { memory: string }) => memory.memory), [
+    "Likes tea",
+  ]);
+  assertEquals((spoofed?.result as { isError: boolean }).isError, true);
+  assertStringIncludes(text(spoofed), "user_id: Unknown field.");
+  assertStringIncludes(text(update), "ScopeError");
+  assertEquals(fake.memories.find((memory) => memory.id === theirs!.id)?.memory, "Lives in Lisbon");
+});
+
+Deno.test("McpServer - read-only mode offers and runs only read tools", async () => {
+  const { fake, server } = setup({ readOnly: true });
+  const [memory] = fake.seed([{ memory: "Likes tea", user_id: "alice" }]);
+
+  const [list, deleted, history] = await stdio(server, [
+    { jsonrpc: "2.0", id: 1, method: "tools/list" },
+    call(2, "delete_memory", { memory_id: memory!.id }),
+    call(3, "memory_history", { memory_id: memory!.id }),
+  ]);
+
+  const tools =
+    (list?.result as { tools: Array<{ name: string; annotations: { readOnlyHint: boolean } }> })
+      .tools;
+  assertEquals(tools.map((tool) => tool.name), [
+    "search_memories",
+    "list_memories",
+    "memory_history",
+  ]);
+  assertEquals(tools.every((tool) => tool.annotations.readOnlyHint), true);
+  assertStringIncludes(text(deleted), "OperationBlockedError");
+  assertEquals(fake.memories.length, 1);
+  assertEquals(JSON.parse(text(history))[0].event, "ADD");
+});
+
+Deno.test("McpServer - reports protocol and argument errors", async () => {
+  const { server } = setup();
+
+  const [parse, missing, unknownTool, invalid, unknownMethod] = await stdio(server, [
+    "{ not json",
+    call(2, "search_memories", { limit: 0 }),
+    call(3, "forget_everything", {}),
+    call(4, "add_memory", { messages: [{ role: "robot", content: "hi" }] }),
+    { jsonrpc: "2.0", id: 5, method: "resources/list" },
+  ]);
+
+  assertEquals(parse?.error?.code, -32700);
+  assertStringIncludes(text(missing), "query: This field is required.");
+  assertStringIncludes(text(missing), "limit: Must be at least 1.");
+  assertEquals(unknownTool?.error?.code, -32602);
+  assertStringIncludes(text(invalid), "messages: Must be one of: string, array.");
+  assertEquals(unknownMethod?.error?.code, -32601);
+});
+
+Deno.test("McpServer - serves streamable HTTP against a running fake", async () => {
+  const fake = new FakeMem0();
+  await using backend = fake.listen();
+  const client = new MemoryClient({ apiKey: "any-key", host: backend.url });
+  const server = new McpServer(client, { scope: { user_id: "alice" } });
+  await using http = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    (request) => server.handleRequest(request),
+  );
+  const post = async (message: unknown): Promise<Response> =>
+    await fetch(`http://127.0.0.1:${http.addr.port}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify(message),
+    });
+
+  const notified = await post({ jsonrpc: "2.0", method: "notifications/initialized" });
+  assertEquals(notified.status, 202);
+  await notified.body?.cancel();
+
+  const added = await post(call(1, "add_memory", { messages: "Enjoys jazz" }));
+  assertEquals((await added.json()).result.isError, false);
+  assertEquals(fake.memories[0]?.user_id, "alice");
+
+  const get = await fetch(`http://127.0.0.1:${http.addr.port}/mcp`);
+  assertEquals(get.status, 405);
+  await get.body?.cancel();
+});
+
+Deno.test("McpServer - rejects browser origins that are not allowed", async () => {
+  const { fake, server } = setup();
+  const ping = (origin?: string): Request =>
+    new Request("http://127.0.0.1:8080/mcp", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(origin ? { Origin: origin } : {}) },
+      body: JSON.stringify(call(1, "add_memory", { messages: "Likes tea", user_id: "alice" })),
+    });
+
+  // A page on another site, e.g. reaching the server through DNS rebinding
+  for (const origin of ["https://evil.example", "null"]) {
+    const rejected = await server.handleRequest(ping(origin));
+    assertEquals(rejected.status, 403);
+    await rejected.body?.cancel();
+  }
+  assertEquals(fake.memories.length, 0);
+
+  assertEquals((await server.handleRequest(ping("http://localhost:5173"))).status, 200);
+  assertEquals((await server.handleRequest(ping())).status, 200);
+
+  const custom = new McpServer(fake.client(), {
+    allowedOrigins: ["https://app.example.com"],
+  });
+  assertEquals((await custom.handleRequest(ping("https://app.example.com"))).status, 200);
+  assertEquals((await custom.handleRequest(ping("http://localhost:5173"))).status, 403);
+});
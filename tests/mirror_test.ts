@@ -0,0 +1,143 @@
+/**
+ * Tests for shadow writes and reconciliation across two projects.
+ *
+ * Both projects are FakeMem0 instances driven through real MemoryClients.
+ * Run with: deno test tests/mirror_test.ts
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  BatchError,
+  InvalidArgumentError,
+  type MemoryClient,
+  MirroredMemoryClient,
+  reconcile,
+} from "../mod.ts";
+import { FakeMem0 } from "../testing.ts";
+
+function project(apiKey = "test-key"): { fake: FakeMem0; client: MemoryClient } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  return { fake, client: fake.client({ apiKey }) };
+}
+
+const texts = (fake: FakeMem0): Array<string> => fake.memories.map((memory) => memory.memory);
+
+Deno.test("MirroredMemoryClient - mirrors writes and reads from the primary", async () => {
+  const primary = project();
+  const secondary = project();
+  const mirror = new MirroredMemoryClient({
+    primary: primary.client,
+    secondary: secondary.client,
+  });
+
+  const [created] = await mirror.add([{ role: "user", content: "Likes green tea" }], {
+    user_id: "alice",
+  });
+  const secondaryId = mirror.idMap[created!.id]!;
+  assertEquals((await secondary.client.get(secondaryId)).memory, "Likes green tea");
+  assertEquals((await mirror.get(created!.id)).id, created!.id);
+
+  await mirror.update(created!.id, { text: "Likes jasmine tea" });
+  assertEquals(texts(secondary.fake), ["Likes jasmine tea"]);
+  assertEquals((await mirror.search("jasmine", { user_id: "alice" })).length, 1);
+
+  await mirror.delete(created!.id);
+  assertEquals([texts(primary.fake), texts(secondary.fake)], [[], []]);
+  assertEquals(mirror.idMap, {});
+  assertEquals(mirror.divergences, []);
+});
+
+Deno.test("MirroredMemoryClient - records secondary failures and unmapped IDs", async () => {
+  const primary = project();
+  const [existing] = primary.fake.seed([{ memory: "Lives in Berlin", user_id: "alice" }]);
+  const seen: Array<string> = [];
+  const mirror = new MirroredMemoryClient({
+    primary: primary.client,
+    secondary: project("wrong-key").client,
+    onDivergence: (divergence) => seen.push(divergence.kind),
+  });
+
+  const created = await mirror.add([{ role: "user", content: "Works remotely" }], {
+    user_id: "alice",
+  });
+  assertEquals(created.length, 1);
+  await mirror.update(existing!.id, { text: "Lives in Munich" });
+  assertEquals(texts(primary.fake), ["Lives in Munich", "Works remotely"]);
+
+  assertEquals(seen, ["secondary_failed", "unmapped"]);
+  const [failed, unmapped] = mirror.divergences;
+  assertEquals(failed?.operation, "add");
+  assertEquals(failed?.error?.name, "AuthenticationError");
+  assertEquals([unmapped?.operation, unmapped?.memoryId], ["update", existing!.id]);
+
+  await assertRejects(
+    () => mirror.add([{ role: "user", content: "hi" }], { user_id: "alice", async_mode: true }),
+    InvalidArgumentError,
+  );
+});
+
+Deno.test("MirroredMemoryClient - batches mirror only the items the primary applied", async () => {
+  const primary = project();
+  const secondary = project();
+  const [one, two, three] = primary.fake.seed([
+    { memory: "one", user_id: "alice" },
+    { memory: "two", user_id: "alice" },
+    { memory: "three", user_id: "alice" },
+  ]);
+  const copies = secondary.fake.seed([
+    { memory: "one", user_id: "alice" },
+    { memory: "two", user_id: "alice" },
+    { memory: "three", user_id: "alice" },
+  ]);
+  const mirror = new MirroredMemoryClient({
+    primary: primary.client,
+    secondary: secondary.client,
+    idMapping: Object.fromEntries(
+      [one, two, three].map((memory, index) => [memory!.id, copies[index]!.id]),
+    ),
+  });
+
+  await mirror.batchUpdate([
+    { memoryId: one!.id, text: "uno" },
+    { memoryId: two!.id, text: "dos" },
+  ]);
+  assertEquals(texts(secondary.fake), ["uno", "dos", "three"]);
+
+  await assertRejects(
+    () => mirror.batchDelete([one!.id, "missing", three!.id], { chunkSize: 1, concurrency: 1 }),
+    BatchError,
+  );
+  assertEquals(texts(primary.fake), ["dos", "three"]);
+  assertEquals(texts(secondary.fake), ["dos", "three"]);
+  assertEquals(Object.keys(mirror.idMap), [two!.id, three!.id]);
+});
+
+Deno.test("reconcile - lists memories missing on each side and mapped mismatches", async () => {
+  const primary = project();
+  const secondary = project();
+  const [mapped] = primary.fake.seed([
+    { memory: "Lives in Berlin", user_id: "alice" },
+    { memory: "Likes tea", user_id: "alice" },
+    { memory: "Only on primary", user_id: "alice" },
+    { memory: "Other user", user_id: "bob" },
+  ]);
+  const [renamed] = secondary.fake.seed([
+    { memory: "Lives in Munich", user_id: "alice" },
+    { memory: "Likes tea", user_id: "alice" },
+    { memory: "Only on secondary", user_id: "alice" },
+  ]);
+
+  const report = await reconcile(primary.client, secondary.client, {
+    user_id: "alice",
+    idMapping: { [mapped!.id]: renamed!.id },
+  });
+  assertEquals(report.matched, 1);
+  assertEquals(report.missingOnSecondary.map((memory) => memory.memory), ["Only on primary"]);
+  assertEquals(report.missingOnPrimary.map((memory) => memory.memory), ["Only on secondary"]);
+  assertEquals(
+    report.mismatched.map(({ primary, secondary }) => [primary.id, secondary.memory]),
+    [[mapped!.id, "Lives in Munich"]],
+  );
+
+  await assertRejects(() => reconcile(primary.client, secondary.client, {}), InvalidArgumentError);
+});
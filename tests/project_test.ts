@@ -0,0 +1,133 @@
+// deno-lint-ignore-file camelcase
+/**
+ * Tests for project settings as code: readProjectConfig, planProject and
+ * applyProject against a FakeMem0 project.
+ *
+ * Run with: deno test --allow-read --allow-write tests/project_test.ts
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  InvalidArgumentError,
+  Mem0Error,
+  type MemoryClient,
+  ProjectConflictError,
+  readProjectConfig,
+} from "../mod.ts";
+import { FakeMem0 } from "../testing.ts";
+
+function setup(): { fake: FakeMem0; client: MemoryClient; patches: Array<unknown> } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  const patches: Array<unknown> = [];
+  const client = fake.client({
+    fetch: async (input, init) => {
+      if (init?.method === "PATCH") {
+        patches.push(JSON.parse(String(init.body)));
+      }
+      return await fake.fetch(input, init);
+    },
+  });
+  return { fake, client, patches };
+}
+
+Deno.test("planProject - diffs instructions and categories", async () => {
+  const { client } = setup();
+  await client.updateProject({
+    custom_instructions: "Store everything",
+    custom_categories: [{ sports: "Teams and matches" }, { food: "Diet" }],
+  });
+
+  const plan = await client.planProject({
+    custom_instructions: "Only store travel facts.\nIgnore small talk.",
+    custom_categories: [{ food: "Diet and allergies" }, { travel: "Trips and bookings" }],
+  });
+
+  assertEquals(plan.hasChanges, true);
+  assertEquals(plan.instructions, {
+    from: "Store everything",
+    to: "Only store travel facts.\nIgnore small talk.",
+  });
+  assertEquals(plan.categories, {
+    added: [{ name: "travel", description: "Trips and bookings" }],
+    removed: [{ name: "sports", description: "Teams and matches" }],
+    changed: [{ name: "food", from: "Diet", to: "Diet and allergies" }],
+  });
+  assertEquals(
+    plan.diff,
+    [
+      "~ custom_instructions",
+      "    - Store everything",
+      "    + Only store travel facts.",
+      "    + Ignore small talk.",
+      '~ category food: "Diet" -> "Diet and allergies"',
+      "+ category travel: Trips and bookings",
+      "- category sports: Teams and matches",
+    ].join("\n"),
+  );
+
+  // Fields left out of the config are not managed
+  const instructionsOnly = await client.planProject({ custom_instructions: "Store everything" });
+  assertEquals(instructionsOnly.hasChanges, false);
+  assertEquals(instructionsOnly.diff, "No changes");
+  assertEquals(instructionsOnly.current, { custom_instructions: "Store everything" });
+});
+
+Deno.test("applyProject - patches only the changed fields", async () => {
+  const { client, patches } = setup();
+  await client.updateProject({ custom_instructions: "Keep it short" });
+  patches.length = 0;
+
+  const config = {
+    custom_instructions: "Keep it short",
+    custom_categories: [{ travel: "Trips and bookings" }],
+  };
+  const applied = await client.applyProject(await client.planProject(config));
+  assertEquals(applied.categories.added.map((category) => category.name), ["travel"]);
+  assertEquals(patches, [{ custom_categories: [{ travel: "Trips and bookings" }] }]);
+
+  // Nothing is sent once the project matches
+  const again = await client.applyProject(config);
+  assertEquals(again.hasChanges, false);
+  assertEquals(patches.length, 1);
+  assertEquals(
+    await client.getProject({ fields: ["custom_instructions", "custom_categories"] }),
+    { custom_instructions: "Keep it short", custom_categories: [{ travel: "Trips and bookings" }] },
+  );
+});
+
+Deno.test("applyProject - refuses a plan the project has drifted from", async () => {
+  const { client, patches } = setup();
+  const plan = await client.planProject({ custom_instructions: "Only travel facts" });
+
+  await client.updateProject({ custom_instructions: "Changed in the dashboard" });
+  patches.length = 0;
+
+  const error = await assertRejects(() => client.applyProject(plan), ProjectConflictError);
+  assertEquals(error.current, { custom_instructions: "Changed in the dashboard" });
+  assertEquals(patches, []);
+
+  // A fresh plan applies cleanly
+  await client.applyProject(await client.planProject(plan.config));
+  assertEquals(patches, [{ custom_instructions: "Only travel facts" }]);
+});
+
+Deno.test("readProjectConfig - reads and validates config files", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    const config = { custom_instructions: null, custom_categories: [{ travel: "Trips" }] };
+    await Deno.writeTextFile(path, JSON.stringify(config));
+    assertEquals(await readProjectConfig(path), config);
+
+    await Deno.writeTextFile(
+      path,
+      JSON.stringify({ custom_categories: [{ travel: "Trips", food: "Diet" }], extra: true }),
+    );
+    const error = await assertRejects(() => readProjectConfig(path), InvalidArgumentError);
+    assertEquals(Object.keys(error.fieldErrors).sort(), ["custom_categories", "extra"]);
+
+    await Deno.writeTextFile(path, "{ not json");
+    await assertRejects(() => readProjectConfig(path), Mem0Error, "could not be read");
+  } finally {
+    await Deno.remove(path);
+  }
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for scoped client views.
+ *
+ * Scoped clients are driven against FakeMem0 holding memories for several entities.
+ * Run with: deno test tests/scope_test.ts
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { API_VERSION, f, InvalidArgumentError, type MemoryClient, ScopeError } from "../mod.ts";
+import { FakeMem0 } from "../testing.ts";
+
+function setup(): { fake: FakeMem0; client: MemoryClient } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  fake.seed([
+    { memory: "Alice likes tea", user_id: "alice", categories: ["food"] },
+    { memory: "Alice plans a trip", user_id: "alice", run_id: "run-1", categories: ["travel"] },
+    { memory: "Bob likes tea too", user_id: "bob" },
+  ]);
+  return { fake, client: fake.client() };
+}
+
+const texts = (memories: Array<{ memory?: string }>): Array<string | undefined> =>
+  memories.map((memory) => memory.memory);
+
+Deno.test("ScopedMemoryClient - injects the scope into add, search, getAll and deleteAll", async () => {
+  const { fake, client } = setup();
+  const alice = client.scope({ user_id: "alice" });
+
+  const [added] = await alice.add([{ role: "user", content: "Alice drinks oat milk" }]);
+  assertEquals((await client.get(added!.id)).user_id, "alice");
+
+  assertEquals(texts(await alice.search("tea")), ["Alice likes tea"]);
+  assertEquals((await alice.getAll()).length, 3);
+  assertEquals(texts(await alice.narrow({ run_id: "run-1" }).getAll()), ["Alice plans a trip"]);
+
+  const v2 = await alice.getAll({
+    api_version: API_VERSION.V2,
+    filters: f.in("categories", ["travel"]),
+  });
+  assertEquals(texts(v2), ["Alice plans a trip"]);
+
+  await alice.deleteAll();
+  assertEquals(texts(fake.memories), ["Bob likes tea too"]);
+});
+
+Deno.test("ScopedMemoryClient - rejects options that override the scope", async () => {
+  const { fake, client } = setup();
+  const alice = client.scope({ user_id: "alice" });
+
+  const error = await assertRejects(
+    () => alice.deleteAll({ user_id: "bob" }),
+    InvalidArgumentError,
+  );
+  assertEquals(Object.keys(error.fieldErrors), ["user_id"]);
+  await assertRejects(() => alice.search("tea", { user_id: "bob" }), InvalidArgumentError);
+  await assertRejects(
+    () => alice.add([{ role: "user", content: "hi" }], { user_id: "bob" }),
+    InvalidArgumentError,
+  );
+  assertThrows(() => alice.narrow({ user_id: "bob" }), InvalidArgumentError);
+  assertEquals(fake.memories.length, 3);
+
+  // Repeating the scoped ID is allowed
+  assertEquals((await alice.getAll({ user_id: "alice" })).length, 2);
+});
+
+Deno.test("ScopedMemoryClient - checks memories addressed by ID belong to the scope", async () => {
+  const { fake, client } = setup();
+  const [own, , other] = fake.memories;
+  const alice = client.scope({ user_id: "alice" });
+
+  assertEquals((await alice.get(own!.id)).memory, "Alice likes tea");
+  const error = await assertRejects(() => alice.get(other!.id), ScopeError);
+  assertEquals([error.memoryId, error.scope], [other!.id, { user_id: "alice" }]);
+  await assertRejects(() => alice.update(other!.id, { text: "changed" }), ScopeError);
+  await assertRejects(() => alice.delete(other!.id), ScopeError);
+  await assertRejects(() => alice.history(other!.id), ScopeError);
+  assertEquals(fake.memories.at(-1)?.memory, "Bob likes tea too");
+
+  await alice.update(own!.id, { text: "Alice likes green tea" });
+  await alice.delete(own!.id);
+  assertEquals(fake.memories.length, 2);
+});
+
+Deno.test("ScopedMemoryClient - deleteUsers only deletes a single-entity scope", async () => {
+  const { fake, client } = setup();
+
+  await assertRejects(
+    () => client.scope({ user_id: "alice", run_id: "run-1" }).deleteUsers(),
+    InvalidArgumentError,
+    "exactly one entity ID",
+  );
+  await assertRejects(
+    () => client.scope({ user_id: "alice" }).deleteUsers({ user_id: "bob" }),
+    InvalidArgumentError,
+  );
+
+  await client.scope({ user_id: "bob" }).deleteUsers();
+  assertEquals(fake.memories.every((memory) => memory.user_id === "alice"), true);
+
+  assertThrows(() => client.scope({}), InvalidArgumentError);
+  assertThrows(() => client.scope({ user_id: "" }), InvalidArgumentError);
+});
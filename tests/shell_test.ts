@@ -0,0 +1,150 @@
+/**
+ * Tests for the interactive mem0 shell, driven by scripted input against FakeMem0.
+ *
+ * Run with: deno test --allow-read --allow-write tests/shell_test.ts
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { main } from "../cli.ts";
+import type { MemoryClient } from "../mod.ts";
+import { runShell } from "../shell.ts";
+import { FakeMem0 } from "../testing.ts";
+
+interface Session {
+  code: number;
+  stdout: string;
+  stderr: string;
+  prompts: Array<string>;
+  questions: Array<string>;
+}
+
+function setup(): {
+  fake: FakeMem0;
+  client: MemoryClient;
+  shell: (lines: Array<string>, answer?: boolean, historyFile?: string) => Promise<Session>;
+} {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  const client = fake.client();
+  const shell = async (
+    lines: Array<string>,
+    answer = true,
+    historyFile?: string,
+  ): Promise<Session> => {
+    const stdout: Array<string> = [];
+    const stderr: Array<string> = [];
+    const prompts: Array<string> = [];
+    const questions: Array<string> = [];
+    const code = await runShell(client, { user_id: "alice" }, {
+      readLine: (prompt) => {
+        prompts.push(prompt);
+        return lines.shift() ?? null;
+      },
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      confirm: (question) => {
+        questions.push(question);
+        return answer;
+      },
+      historyFile: historyFile ?? null,
+    });
+    return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n"), prompts, questions };
+  };
+  return { fake, client, shell };
+}
+
+Deno.test("shell - searches, lists and shows the user's memories", async () => {
+  const { fake, shell } = setup();
+  const [tea] = fake.seed([
+    { memory: "Likes green tea", user_id: "alice", categories: ["food"] },
+    { memory: "Likes black coffee", user_id: "bob" },
+  ]);
+
+  const session = await shell(["search green tea", "ls", `show ${tea!.id}`, "exit", "ls"]);
+  assertEquals(session.code, 0);
+  assertEquals(session.prompts, Array(4).fill("mem0 user alice> "));
+  assertStringIncludes(session.stdout, "ID");
+  assertStringIncludes(session.stdout, "SCORE  CATEGORIES  MEMORY");
+  assertStringIncludes(session.stdout, "food        Likes green tea");
+  assertStringIncludes(session.stdout, "1 memories");
+  assertStringIncludes(session.stdout, `id:`);
+  assertEquals(session.stdout.includes("black coffee"), false);
+});
+
+Deno.test("shell - diffs and forgets memories, and switches users", async () => {
+  const { fake, client, shell } = setup();
+  const [tea, coffee] = fake.seed([
+    { memory: "Likes green tea", user_id: "alice" },
+    { memory: "Likes black coffee", user_id: "bob" },
+  ]);
+  await client.update(tea!.id, { text: "Likes jasmine tea" });
+
+  const diff = await shell([`diff ${tea!.id}`, `history ${tea!.id}`]);
+  assertStringIncludes(diff.stdout, "- Likes green tea\n+ Likes jasmine tea");
+  assertStringIncludes(diff.stdout, "UPDATE");
+
+  // Another user's memory is out of scope until the session switches to them
+  const scoped = await shell([`forget ${coffee!.id}`, "switch-user bob", `forget ${coffee!.id}`]);
+  assertStringIncludes(scoped.stderr, "ScopeError");
+  assertEquals(scoped.questions, ['Forget "Likes black coffee"?']);
+  assertEquals(scoped.prompts.at(-1), "mem0 user bob> ");
+  assertEquals(fake.memories.map((memory) => memory.id), [tea!.id]);
+
+  const kept = await shell([`forget ${tea!.id}`], false);
+  assertStringIncludes(kept.stdout, "Kept");
+  assertEquals(fake.memories.length, 1);
+});
+
+Deno.test("shell - keeps command history across sessions", async () => {
+  const { fake, shell } = setup();
+  fake.seed([{ memory: "Likes green tea", user_id: "alice" }]);
+  const historyFile = await Deno.makeTempFile();
+  try {
+    await shell(["ls", "search tea", "frobnicate", "search"], true, historyFile);
+
+    const session = await shell(["history", "!2", "!99"], true, historyFile);
+    assertStringIncludes(session.stdout, "   1  ls\n   2  search tea\n   3  frobnicate");
+    assertStringIncludes(session.stdout, "Likes green tea");
+    assertStringIncludes(session.stderr, "No command 99 in history");
+    assertEquals(
+      (await Deno.readTextFile(historyFile)).trim().split("\n").slice(-2),
+      ["history", "search tea"],
+    );
+  } finally {
+    await Deno.remove(historyFile);
+  }
+});
+
+Deno.test("shell - trims the history file to the last 500 commands", async () => {
+  const { shell } = setup();
+  const historyFile = await Deno.makeTempFile();
+  try {
+    const old = Array.from({ length: 600 }, (_, index) => `search ${index}`);
+    await Deno.writeTextFile(historyFile, `${old.join("\n")}\n`);
+
+    await shell(["ls"], true, historyFile);
+    const lines = (await Deno.readTextFile(historyFile)).trim().split("\n");
+    assertEquals(lines.length, 501);
+    assertEquals([lines[0], lines.at(-1)], ["search 100", "ls"]);
+  } finally {
+    await Deno.remove(historyFile);
+  }
+});
+
+Deno.test("shell - starts from the command line with an entity", async () => {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  const stdout: Array<string> = [];
+  const stderr: Array<string> = [];
+  const env: Record<string, string> = { MEM0_API_KEY: "test-key" };
+  const options = {
+    env: (name: string) => env[name],
+    stdout: (text: string) => stdout.push(text),
+    stderr: (text: string) => stderr.push(text),
+    readLine: () => null,
+    fetch: fake.fetch,
+  };
+
+  assertEquals(await main(["shell"], options), 2);
+  assertStringIncludes(stderr.join("\n"), "shell needs --user");
+  assertEquals(await main(["shell", "--user", "alice"], options), 0);
+  assertStringIncludes(stdout.join("\n"), "Scoped to user alice");
+});
@@ -0,0 +1,293 @@
+/**
+ * Tests for the FakeMem0 in-process server.
+ *
+ * The fake is exercised through a real MemoryClient, both as an injected
+ * fetch and over HTTP.
+ * Run with: deno test --allow-net tests/testing_test.ts
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  API_VERSION,
+  AuthenticationError,
+  BatchError,
+  f,
+  MemoryClient,
+  NotFoundError,
+  ValidationError,
+} from "../mod.ts";
+import { FakeMem0 } from "../testing.ts";
+
+function setup(): { fake: FakeMem0; client: MemoryClient } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  return { fake, client: fake.client() };
+}
+
+// =============================================================================
+// Memories
+// =============================================================================
+
+Deno.test("FakeMem0 - add stores user messages and get returns them", async () => {
+  const { client } = setup();
+
+  const added = await client.add([
+    { role: "user", content: "I love hiking in the Alps" },
+    { role: "assistant", content: "Sounds fun!" },
+  ], { user_id: "alice", metadata: { source: "chat" } });
+
+  assertEquals(added.length, 1);
+  assertEquals(added[0]?.event, "ADD");
+  assertEquals(added[0]?.memory, "I love hiking in the Alps");
+
+  const memory = await client.get(added[0]!.id);
+  assertEquals(memory.user_id, "alice");
+  assertEquals(memory.metadata, { source: "chat" });
+  assertEquals(memory.created_at instanceof Date, true);
+
+  // Adding the same fact again is a no-op
+  const again = await client.add([{ role: "user", content: "I love hiking in the Alps" }], {
+    user_id: "alice",
+  });
+  assertEquals(again, []);
+});
+
+Deno.test("FakeMem0 - async_mode adds complete through the event endpoint", async () => {
+  const { client } = setup();
+
+  const job = await client.add([{ role: "user", content: "Drinks oat milk" }], {
+    user_id: "alice",
+    async_mode: true,
+  });
+  const event = await job.wait();
+
+  assertEquals(event.results.map((operation) => [operation.event, operation.memory]), [
+    ["ADD", "Drinks oat milk"],
+  ]);
+  assertEquals((await client.get(event.results[0]!.id)).memory, "Drinks oat milk");
+});
+
+Deno.test("FakeMem0 - search ranks memories by keyword overlap", async () => {
+  const { fake, client } = setup();
+  fake.seed([
+    { memory: "Prefers window seats on flights", user_id: "alice" },
+    { memory: "Allergic to peanuts", user_id: "alice" },
+    { memory: "Books flights with window seats and extra legroom", user_id: "alice" },
+    { memory: "Prefers window seats on flights", user_id: "bob" },
+  ]);
+
+  const results = await client.search("window seats flights legroom", { user_id: "alice" });
+
+  assertEquals(results.map((memory) => memory.memory), [
+    "Books flights with window seats and extra legroom",
+    "Prefers window seats on flights",
+  ]);
+  assertEquals(results[0]?.score, 1);
+  assertEquals(results[1]?.score, 0.75);
+
+  const limited = await client.search("flights", { user_id: "alice", limit: 1 });
+  assertEquals(limited.length, 1);
+});
+
+Deno.test("FakeMem0 - v2 search and getAll evaluate filters", async () => {
+  const { fake, client } = setup();
+  fake.seed([
+    {
+      memory: "Trip to Tokyo in March",
+      user_id: "alice",
+      categories: ["travel"],
+      created_at: "2025-01-10T00:00:00Z",
+    },
+    {
+      memory: "Trip to Paris in June",
+      user_id: "alice",
+      categories: ["travel"],
+      metadata: { priority: "high" },
+      created_at: "2025-03-10T00:00:00Z",
+    },
+    {
+      memory: "Likes sushi",
+      user_id: "alice",
+      categories: ["food"],
+      created_at: "2025-02-10T00:00:00Z",
+    },
+    { memory: "Trip to Rome", agent_id: "planner", created_at: "2025-02-01T00:00:00Z" },
+  ]);
+
+  const trips = await client.search("trip", {
+    api_version: API_VERSION.V2,
+    filters: f.and(f.eq("user_id", "alice"), f.gte("created_at", new Date("2025-02-01"))),
+  });
+  assertEquals(trips.map((memory) => memory.memory), ["Trip to Paris in June"]);
+
+  const all = await client.getAll({
+    api_version: API_VERSION.V2,
+    filters: f.or(
+      f.and(f.in("categories", ["food"]), f.not(f.eq("agent_id", "planner"))),
+      f.metadata({ priority: "high" }),
+      f.exists("agent_id"),
+    ),
+  });
+  assertEquals(all.map((memory) => memory.memory), [
+    "Trip to Rome",
+    "Likes sushi",
+    "Trip to Paris in June",
+  ]);
+
+  const text = await client.getAll({
+    api_version: API_VERSION.V2,
+    filters: f.icontains("text", "TOKYO"),
+  });
+  assertEquals(text.length, 1);
+});
+
+Deno.test("FakeMem0 - update, history, delete and deleteAll", async () => {
+  const { fake, client } = setup();
+  const [memory] = fake.seed([
+    { memory: "Lives in Berlin", user_id: "alice" },
+    { memory: "Works remotely", user_id: "alice" },
+    { memory: "Lives in Lisbon", user_id: "bob" },
+  ]);
+
+  await client.update(memory!.id, { text: "Lives in Munich" });
+  const history = await client.history(memory!.id);
+  assertEquals(history.map((entry) => entry.event), ["ADD", "UPDATE"]);
+  assertEquals(history[1]?.old_memory, "Lives in Berlin");
+  assertEquals(history[1]?.new_memory, "Lives in Munich");
+
+  await client.delete(memory!.id);
+  await assertRejects(() => client.get(memory!.id), NotFoundError);
+
+  await client.deleteAll({ user_id: "alice" });
+  assertEquals(fake.memories.map((item) => item.memory), ["Lives in Lisbon"]);
+});
+
+Deno.test("FakeMem0 - batch operations validate every item first", async () => {
+  const { fake, client } = setup();
+  const [first, second] = fake.seed([
+    { memory: "one", user_id: "alice" },
+    { memory: "two", user_id: "alice" },
+  ]);
+
+  await assertRejects(
+    () => client.batchDelete([first!.id, "missing"]),
+    BatchError,
+  );
+  assertEquals(fake.memories.length, 2);
+
+  await client.batchUpdate([{ memoryId: first!.id, text: "uno" }]);
+  await client.batchDelete([second!.id]);
+  assertEquals(fake.memories.map((item) => item.memory), ["uno"]);
+});
+
+Deno.test("FakeMem0 - paginates memories and entities", async () => {
+  const { fake, client } = setup();
+  fake.seed(
+    Array.from({ length: 5 }, (_, index) => ({
+      memory: `memory ${index}`,
+      user_id: "alice",
+      created_at: new Date(Date.UTC(2025, 0, index + 1)),
+    })),
+  );
+  fake.seed([{ memory: "agent memory", agent_id: "planner" }]);
+
+  const page = await client.getPage({ user_id: "alice", page: 2, page_size: 2 });
+  assertEquals(page.count, 5);
+  assertEquals(page.results.map((memory) => memory.memory), ["memory 2", "memory 3"]);
+
+  const walked: Array<string> = [];
+  for await (const memory of client.iterateAll({ user_id: "alice", page_size: 2 })) {
+    walked.push(memory.memory!);
+  }
+  assertEquals(walked.length, 5);
+
+  const users = await client.users();
+  assertEquals(
+    users.results.map((user) => [user.type, user.name, user.total_memories]),
+    [["user", "alice", 5], ["agent", "planner", 1]],
+  );
+
+  await client.deleteUsers({ agent_id: "planner" });
+  assertEquals((await client.users()).count, 1);
+});
+
+Deno.test("FakeMem0 - rejects bad keys and invalid requests", async () => {
+  const fake = new FakeMem0({ apiKey: "right-key" });
+  const client = fake.client({ apiKey: "wrong-key" });
+  await assertRejects(() => client.ping(), AuthenticationError);
+
+  const { client: valid } = setup();
+  const error = await assertRejects(
+    () => valid.search("", { user_id: "alice" }),
+    ValidationError,
+  );
+  assertEquals(error.fieldErrors, { query: ["This field is required."] });
+  await assertRejects(() => valid.getAll(), ValidationError);
+});
+
+// =============================================================================
+// Project, Webhooks, Feedback and Exports
+// =============================================================================
+
+Deno.test("FakeMem0 - project settings, webhooks, feedback and exports", async () => {
+  const { fake, client } = setup();
+  const [memory] = fake.seed([{ memory: "Likes tea", user_id: "alice" }]);
+
+  await client.updateProject({ custom_instructions: "Keep it short" });
+  const project = await client.getProject({ fields: ["custom_instructions"] });
+  assertEquals(project, { custom_instructions: "Keep it short" });
+
+  const webhook = await client.createWebhook({
+    name: "hook",
+    url: "https://example.com/hook",
+    eventTypes: ["memory_add"],
+    projectId: "fake-project",
+    webhookId: "",
+  });
+  await client.updateWebhook({
+    webhookId: webhook.webhook_id!,
+    name: "renamed",
+    url: "https://example.com/hook",
+    eventTypes: ["memory_add", "memory_delete"],
+    projectId: "fake-project",
+  });
+  const webhooks = await client.getWebhooks();
+  assertEquals(webhooks.map((item) => [item.name, item.event_types]), [
+    ["renamed", ["memory_add", "memory_delete"]],
+  ]);
+  await client.deleteWebhook({ webhookId: webhook.webhook_id! });
+  assertEquals(await client.getWebhooks(), []);
+
+  await client.feedback({ memory_id: memory!.id });
+
+  const job = await client.createMemoryExport({
+    filters: { user_id: "alice" },
+    schema: { type: "object" },
+  });
+  const exported = await job.wait();
+  assertEquals(exported.status, "completed");
+  const { memories } = await job.result() as { memories: Array<{ memory: string }> };
+  assertEquals(memories.map((item) => item.memory), ["Likes tea"]);
+});
+
+Deno.test("FakeMem0 - client() is wired to the fake's key and project", async () => {
+  const fake = new FakeMem0({ apiKey: "test-key", projectId: "proj_1" });
+  await fake.client().createWebhook({ name: "a", url: "https://example.com/a", eventTypes: [] });
+  assertEquals((await fake.client().getWebhooks())[0]?.project, "proj_1");
+
+  await assertRejects(() => fake.client({ apiKey: "wrong-key" }).ping(), AuthenticationError);
+});
+
+// =============================================================================
+// HTTP Server
+// =============================================================================
+
+Deno.test("FakeMem0 - serves the API over HTTP", async () => {
+  const fake = new FakeMem0();
+  await using server = fake.listen();
+  const client = new MemoryClient({ apiKey: "any-key", host: server.url });
+
+  await client.ping();
+  await client.add([{ role: "user", content: "Enjoys jazz" }], { user_id: "alice" });
+  const results = await client.search("jazz", { user_id: "alice" });
+  assertEquals(results[0]?.memory, "Enjoys jazz");
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for client.toolDefinitions: dialects, operation filters, argument
+ * validation and scope injection, dispatched against FakeMem0.
+ *
+ * Run with: deno test tests/tools_test.ts
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  InvalidArgumentError,
+  type MemoryClient,
+  OperationBlockedError,
+  ScopeError,
+} from "../mod.ts";
+import { FakeMem0 } from "../testing.ts";
+
+function setup(): { fake: FakeMem0; client: MemoryClient } {
+  const fake = new FakeMem0({ apiKey: "test-key" });
+  return { fake, client: fake.client() };
+}
+
+Deno.test("toolDefinitions - formats the included tools for each dialect", () => {
+  const { client } = setup();
+  const include: Array<"search" | "add" | "delete"> = ["search", "add", "delete"];
+
+  const openai = client.toolDefinitions({ include, dialect: "openai" }).tools;
+  assertEquals(openai.map((tool) => tool.function.name), [
+    "add_memory",
+    "search_memories",
+    "delete_memory",
+  ]);
+  assertEquals(openai[2], {
+    type: "function",
+    function: {
+      name: "delete_memory",
+      description: "Permanently deletes a memory.",
+      parameters: {
+        type: "object",
+        properties: {
+          memory_id: { type: "string", minLength: 1, description: "ID of the memory" },
+        },
+        additionalProperties: false,
+        required: ["memory_id"],
+      },
+    },
+  });
+
+  const anthropic = client.toolDefinitions({ include: ["search"], dialect: "anthropic" }).tools;
+  assertEquals(Object.keys(anthropic[0]!), ["name", "description", "input_schema"]);
+  assertEquals(anthropic[0]!.input_schema.required, ["query"]);
+
+  const plain = client.toolDefinitions().tools;
+  assertEquals(plain.map((tool) => tool.operation), [
+    "add",
+    "search",
+    "list",
+    "update",
+    "delete",
+    "history",
+  ]);
+  assertEquals(
+    Object.keys(plain[1]!.inputSchema.properties!),
+    [
+      "query",
+      "user_id",
+      "agent_id",
+      "app_id",
+      "run_id",
+      "limit",
+      "threshold",
+      "categories",
+      "keyword_search",
+      "rerank",
+    ],
+  );
+  assertEquals(client.toolDefinitions({ readOnly: true }).tools.map((tool) => tool.name), [
+    "search_memories",
+    "list_memories",
+    "memory_history",
+  ]);
+});
+
+Deno.test("toolDefinitions - executes validated calls", async () => {
+  const { fake, client } = setup();
+  const { executeToolCall } = client.toolDefinitions({
+    include: ["search", "add", "delete"],
+    dialect: "openai",
+  });
+
+  // OpenAI returns arguments as a JSON string
+  const added = await executeToolCall(
+    "add_memory",
+    JSON.stringify({ messages: "Allergic to peanuts", user_id: "alice", metadata: { a: 1 } }),
+  ) as Array<{ id: string }>;
+  assertEquals(fake.memories[0]?.metadata, { a: 1 });
+
+  const results = await executeToolCall("search_memories", { query: "peanuts", user_id: "alice" });
+  assertEquals((results as Array<{ id: string }>)[0]?.id, added[0]!.id);
+
+  const invalid = await assertRejects(
+    () => executeToolCall("search_memories", { query: "", limit: 2.5, rerank: "yes" }),
+    InvalidArgumentError,
+  );
+  assertEquals(invalid.fieldErrors, {
+    query: ["Must not be empty."],
+    limit: ["Must be a whole number."],
+    rerank: ["Must be true or false."],
+  });
+
+  await assertRejects(() => executeToolCall("add_memory", "{ nope"), InvalidArgumentError, "JSON");
+  const excluded = await assertRejects(
+    () => executeToolCall("update_memory", { memory_id: added[0]!.id, text: "x" }),
+    InvalidArgumentError,
+  );
+  assertEquals(excluded.fieldErrors.name, [
+    "Must be one of add_memory, search_memories, delete_memory.",
+  ]);
+
+  await executeToolCall("delete_memory", { memory_id: added[0]!.id });
+  assertEquals(fake.memories, []);
+});
+
+Deno.test("toolDefinitions - injects a fixed scope the model cannot choose", async () => {
+  const { fake, client } = setup();
+  const [bobs] = fake.seed([{ memory: "Lives in Lisbon", user_id: "bob" }]);
+  const { tools, executeToolCall } = client.toolDefinitions({
+    dialect: "anthropic",
+    scope: { user_id: "alice" },
+  });
+
+  for (const tool of tools) {
+    assertEquals("user_id" in (tool.input_schema.properties ?? {}), false);
+  }
+
+  await executeToolCall("add_memory", { messages: [{ role: "user", content: "Likes tea" }] });
+  assertEquals(fake.memories.find((memory) => memory.memory === "Likes tea")?.user_id, "alice");
+
+  const spoofed = await assertRejects(
+    () => executeToolCall("search_memories", { query: "Lisbon", user_id: "bob" }),
+    InvalidArgumentError,
+  );
+  assertEquals(spoofed.fieldErrors.user_id, ["Unknown field."]);
+  await assertRejects(
+    () => executeToolCall("delete_memory", { memory_id: bobs!.id }),
+    ScopeError,
+  );
+  assertEquals(fake.memories.length, 2);
+
+  const readOnly = client.toolDefinitions({ readOnly: true });
+  await assertRejects(
+    () => readOnly.executeToolCall("delete_memory", { memory_id: bobs!.id }),
+    OperationBlockedError,
+  );
+  assertThrows(() => client.toolDefinitions({ scope: {} }), InvalidArgumentError);
+});
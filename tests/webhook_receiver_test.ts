@@ -0,0 +1,146 @@
+// deno-lint-ignore-file camelcase
+/**
+ * Tests for the mem0-webhook-receiver Supabase Edge Function.
+ *
+ * The receiver runs against InMemoryEventStore; PostgresEventStore is checked
+ * against the PostgREST requests it sends.
+ * Run with: deno test tests/webhook_receiver_test.ts
+ */
+
+import { assertEquals } from "@std/assert";
+import { signWebhook } from "../mod.ts";
+import { createReceiver } from "../supabase/functions/mem0-webhook-receiver/receiver.ts";
+import {
+  InMemoryEventStore,
+  PostgresEventStore,
+} from "../supabase/functions/mem0-webhook-receiver/storage.ts";
+
+const SECRET = "whsec_test";
+const URL_BASE = "https://project.supabase.co/functions/v1/mem0-webhook-receiver";
+
+async function delivery(payload: unknown): Promise<Request> {
+  const body = JSON.stringify(payload);
+  return new Request(URL_BASE, {
+    method: "POST",
+    headers: await signWebhook(body, SECRET),
+    body,
+  });
+}
+
+function setup(): { store: InMemoryEventStore; receiver: (req: Request) => Promise<Response> } {
+  const store = new InMemoryEventStore();
+  const receiver = createReceiver({ secret: SECRET, store, replayToken: "replay-token" });
+  return { store, receiver };
+}
+
+Deno.test("mem0-webhook-receiver - stores each event once", async () => {
+  const { store, receiver } = setup();
+  const added = {
+    event_id: "evt-1",
+    event_type: "memory_add",
+    event_details: { id: "mem-1", event: "ADD", data: { memory: "Likes tea" } },
+  };
+
+  for (const payload of [added, added]) {
+    const response = await receiver(await delivery(payload));
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+  }
+
+  // Without an event_id, retries are recognised by their contents
+  const updated = {
+    event_details: { id: "mem-1", event: "UPDATE", data: { memory: "Likes coffee" } },
+  };
+  await (await receiver(await delivery(updated))).body?.cancel();
+  await (await receiver(await delivery(updated))).body?.cancel();
+
+  assertEquals(
+    store.events.map((event) => [event.seq, event.event_type, event.memory_id, event.memory]),
+    [[1, "memory_add", "mem-1", "Likes tea"], [2, "memory_update", "mem-1", "Likes coffee"]],
+  );
+
+  const forged = await receiver(
+    new Request(URL_BASE, { method: "POST", body: JSON.stringify(added) }),
+  );
+  assertEquals(forged.status, 401);
+  await forged.body?.cancel();
+  assertEquals(store.events.length, 2);
+});
+
+Deno.test("mem0-webhook-receiver - replays stored events page by page", async () => {
+  const { receiver } = setup();
+  for (const [index, memory] of ["one", "two", "three"].entries()) {
+    await (await receiver(
+      await delivery({
+        event_id: `evt-${index}`,
+        event_details: { id: `mem-${index % 2}`, event: "ADD", data: { memory } },
+      }),
+    )).body?.cancel();
+  }
+
+  const replay = (query: string, token = "replay-token"): Promise<Response> =>
+    receiver(
+      new Request(`${URL_BASE}/replay?${query}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+    );
+
+  const unauthorized = await replay("", "wrong");
+  assertEquals(unauthorized.status, 401);
+  await unauthorized.body?.cancel();
+
+  const first = await (await replay("limit=2")).json();
+  assertEquals(first.events.map((event: { memory: string }) => event.memory), ["one", "two"]);
+  assertEquals(first.next, 2);
+
+  const second = await (await replay(`after=${first.next}&limit=2`)).json();
+  assertEquals(second.events.map((event: { memory: string }) => event.memory), ["three"]);
+  assertEquals(second.next, null);
+
+  const forMemory = await (await replay("memory_id=mem-0")).json();
+  assertEquals(forMemory.events.map((event: { memory: string }) => event.memory), [
+    "one",
+    "three",
+  ]);
+});
+
+Deno.test("mem0-webhook-receiver - PostgresEventStore upserts through PostgREST", async () => {
+  const requests: Array<Request> = [];
+  const responses = [[{ seq: 1 }], []];
+  const store = new PostgresEventStore(
+    "https://project.supabase.co/",
+    "service-key",
+    (input, init) => {
+      requests.push(new Request(input, init));
+      return Promise.resolve(Response.json(responses.shift() ?? []));
+    },
+  );
+  const event = {
+    event_id: "evt-1",
+    event_type: "memory_add",
+    memory_id: "mem-1",
+    memory: "Likes tea",
+    payload: {},
+    received_at: "2026-10-19T12:00:00.000Z",
+  } as Parameters<typeof store.insert>[0];
+
+  assertEquals(await store.insert(event), true);
+  assertEquals(await store.insert(event), false);
+  await store.list({ after: 5, memoryId: "mem-1", limit: 10 });
+
+  assertEquals(
+    requests[0]!.url,
+    "https://project.supabase.co/rest/v1/mem0_webhook_events?on_conflict=event_id",
+  );
+  assertEquals(
+    requests[0]!.headers.get("Prefer"),
+    "resolution=ignore-duplicates,return=representation",
+  );
+  assertEquals(requests[0]!.headers.get("Authorization"), "Bearer service-key");
+  assertEquals(await requests[0]!.json(), event);
+
+  const listed = new URL(requests[2]!.url);
+  assertEquals(listed.searchParams.get("seq"), "gt.5");
+  assertEquals(listed.searchParams.get("memory_id"), "eq.mem-1");
+  assertEquals(listed.searchParams.get("order"), "seq.asc");
+});
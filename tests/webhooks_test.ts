@@ -0,0 +1,160 @@
+// deno-lint-ignore-file camelcase
+/**
+ * Tests for webhook signature verification and event dispatch.
+ *
+ * Run with: deno test tests/webhooks_test.ts
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  createWebhookHandler,
+  signWebhook,
+  verifyAndParse,
+  type WebhookEvent,
+  WebhookEventType,
+  WebhookVerificationError,
+} from "../mod.ts";
+
+const SECRET = "whsec_test";
+
+async function delivery(
+  payload: unknown,
+  options: { secret?: string; timestamp?: number; method?: string } = {},
+): Promise<Request> {
+  const body = JSON.stringify(payload);
+  const headers = await signWebhook(body, options.secret ?? SECRET, options.timestamp);
+  return new Request("https://example.com/hooks/mem0", {
+    method: options.method ?? "POST",
+    headers,
+    body,
+  });
+}
+
+// =============================================================================
+// verifyAndParse
+// =============================================================================
+
+Deno.test("verifyAndParse - returns typed events for signed deliveries", async () => {
+  const event = await verifyAndParse(
+    await delivery({
+      event_type: "memory_update",
+      event_details: {
+        id: "mem-1",
+        event: "UPDATE",
+        data: { memory: "Lives in Munich", old_memory: "Lives in Berlin" },
+      },
+    }),
+    SECRET,
+  );
+
+  assertEquals(event.event_type, WebhookEventType.MEMORY_UPDATE);
+  if (event.event_type === WebhookEventType.MEMORY_UPDATE) {
+    assertEquals(event.event_details.data.old_memory, "Lives in Berlin");
+  }
+
+  // Deliveries without event_type are typed by their memory operation
+  const added = await verifyAndParse(
+    await delivery({ event_details: { id: "mem-2", event: "ADD", data: { memory: "Likes tea" } } }),
+    SECRET,
+  );
+  assertEquals(added.event_type, WebhookEventType.MEMORY_ADD);
+});
+
+Deno.test("verifyAndParse - rejects forged, unsigned and replayed deliveries", async () => {
+  const payload = { event_details: { id: "mem-1", event: "ADD", data: { memory: "x" } } };
+
+  const forged = await assertRejects(
+    async () => verifyAndParse(await delivery(payload, { secret: "wrong" }), SECRET),
+    WebhookVerificationError,
+  );
+  assertEquals(forged.reason, "invalid_signature");
+
+  const unsigned = await assertRejects(
+    () =>
+      verifyAndParse(
+        new Request("https://example.com", { method: "POST", body: JSON.stringify(payload) }),
+        SECRET,
+      ),
+    WebhookVerificationError,
+  );
+  assertEquals(unsigned.reason, "missing_signature");
+
+  const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600;
+  const replayed = await assertRejects(
+    async () => verifyAndParse(await delivery(payload, { timestamp: tenMinutesAgo }), SECRET),
+    WebhookVerificationError,
+  );
+  assertEquals(replayed.reason, "expired");
+  await verifyAndParse(await delivery(payload, { timestamp: tenMinutesAgo }), SECRET, {
+    toleranceSeconds: 900,
+  });
+
+  const malformed = await assertRejects(
+    async () => verifyAndParse(await delivery({ event_type: "memory_add" }), SECRET),
+    WebhookVerificationError,
+  );
+  assertEquals(malformed.reason, "invalid_payload");
+});
+
+// =============================================================================
+// createWebhookHandler
+// =============================================================================
+
+Deno.test("createWebhookHandler - dispatches events to their callbacks", async () => {
+  const added: Array<string> = [];
+  const seen: Array<WebhookEvent> = [];
+  const handler = createWebhookHandler({
+    secret: SECRET,
+    onMemoryAdd: (event) => {
+      added.push(event.event_details.data.memory);
+    },
+    onEvent: (event) => {
+      seen.push(event);
+    },
+  });
+
+  const response = await handler(
+    await delivery({ event_details: { id: "mem-1", event: "ADD", data: { memory: "Likes tea" } } }),
+  );
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), { received: true });
+
+  // Event types without a callback are still acknowledged
+  const deleted = await handler(
+    await delivery({ event_details: { id: "mem-1", event: "DELETE", data: {} } }),
+  );
+  assertEquals(deleted.status, 200);
+  await deleted.body?.cancel();
+
+  assertEquals(added, ["Likes tea"]);
+  assertEquals(seen.map((event) => event.event_type), ["memory_add", "memory_delete"]);
+});
+
+Deno.test("createWebhookHandler - maps failures to status codes", async () => {
+  const errors: Array<unknown> = [];
+  const handler = createWebhookHandler({
+    secret: SECRET,
+    onMemoryAdd: () => {
+      throw new Error("database down");
+    },
+    onError: (error) => errors.push(error),
+  });
+  const payload = { event_details: { id: "mem-1", event: "ADD", data: { memory: "x" } } };
+
+  const statuses: Array<number> = [];
+  for (
+    const request of [
+      await delivery(payload, { method: "PUT" }),
+      await delivery(payload, { secret: "wrong" }),
+      await delivery({ hello: "world" }),
+      await delivery(payload),
+    ]
+  ) {
+    const response = await handler(request);
+    await response.body?.cancel();
+    statuses.push(response.status);
+  }
+
+  assertEquals(statuses, [405, 401, 400, 500]);
+  assertEquals(errors.length, 3);
+});
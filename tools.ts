@@ -0,0 +1,570 @@
+/**
+ * @module
+ * Memory operations described as tools for LLM agents: a JSON Schema for
+ * each tool's arguments, argument validation and dispatch to a
+ * {@link MemoryClient}, optionally bound to a fixed scope.
+ */
+
+import { InvalidArgumentError, OperationBlockedError } from "./error.ts";
+import type { MemoryClient } from "./client.ts";
+import type {
+  Memory,
+  MemoryHistory,
+  MemoryOptions,
+  MemoryScope,
+  Message,
+  Page,
+  SearchOptions,
+} from "./types.ts";
+
+/**
+ * The subset of JSON Schema used to describe tool arguments.
+ */
+export interface JsonSchema {
+  /** Value type */
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  /** What the value means, for the model */
+  description?: string;
+  /** Object properties */
+  properties?: Record<string, JsonSchema>;
+  /** Object properties that must be present */
+  required?: Array<string>;
+  /** Whether an object may have properties not listed */
+  additionalProperties?: boolean;
+  /** Schema of each array item */
+  items?: JsonSchema;
+  /** Allowed values */
+  enum?: Array<string>;
+  /** Smallest allowed number */
+  minimum?: number;
+  /** Largest allowed number */
+  maximum?: number;
+  /** Shortest allowed string */
+  minLength?: number;
+  /** Schemas of which the value must match at least one */
+  anyOf?: Array<JsonSchema>;
+}
+
+/**
+ * Memory operations that can be offered as tools.
+ */
+export type MemoryToolOperation = "add" | "search" | "list" | "update" | "delete" | "history";
+
+/**
+ * A memory tool as listed to an agent.
+ */
+export interface MemoryToolDefinition {
+  /** Operation the tool performs */
+  operation: MemoryToolOperation;
+  /** Tool name, e.g. `search_memories` */
+  name: string;
+  /** Short human-readable title */
+  title: string;
+  /** What the tool does, for the model */
+  description: string;
+  /** Schema of the tool's arguments; scoped entity IDs are left out */
+  inputSchema: JsonSchema;
+  /** Whether the tool only reads memories */
+  readOnly: boolean;
+  /** Whether the tool removes or overwrites memories */
+  destructive: boolean;
+}
+
+/**
+ * Scope and guards applied when listing and calling memory tools.
+ */
+export interface MemoryToolOptions {
+  /**
+   * Entity IDs applied to every call. The tools' schemas leave these fields
+   * out, so the model cannot choose them, and memories outside the scope
+   * cannot be read or changed.
+   */
+  scope?: MemoryScope;
+  /** Only list read tools and reject calls to the others (default: false) */
+  readOnly?: boolean;
+  /** Operations to offer (default: all of them) */
+  include?: Array<MemoryToolOperation>;
+}
+
+/**
+ * Tool formats accepted by LLM APIs.
+ *
+ * - `openai`: `{ type: "function", function: { name, description, parameters } }`
+ * - `anthropic`: `{ name, description, input_schema }`
+ * - `json-schema`: {@link MemoryToolDefinition}, with the schema as `inputSchema`
+ */
+export type ToolDialect = "openai" | "anthropic" | "json-schema";
+
+/**
+ * A function tool in the OpenAI chat completions format.
+ */
+export interface OpenAITool {
+  /** Tool kind, always "function" */
+  type: "function";
+  /** The function the model may call */
+  function: {
+    /** Function name */
+    name: string;
+    /** What the function does */
+    description: string;
+    /** Schema of the arguments */
+    parameters: JsonSchema;
+  };
+}
+
+/**
+ * A tool in the Anthropic messages format.
+ */
+export interface AnthropicTool {
+  /** Tool name */
+  name: string;
+  /** What the tool does */
+  description: string;
+  /** Schema of the input */
+  "input_schema": JsonSchema;
+}
+
+/**
+ * Tool shape produced by each {@link ToolDialect}.
+ */
+export interface ToolDialects {
+  /** OpenAI function tools */
+  openai: OpenAITool;
+  /** Anthropic tools */
+  anthropic: AnthropicTool;
+  /** Plain JSON Schema definitions */
+  "json-schema": MemoryToolDefinition;
+}
+
+/**
+ * Options for {@link MemoryClient.toolDefinitions}.
+ */
+export interface ToolDefinitionOptions<Dialect extends ToolDialect = ToolDialect>
+  extends MemoryToolOptions {
+  /** Format of the tool specs (default: "json-schema") */
+  dialect?: Dialect;
+}
+
+/**
+ * Tool specs for an LLM together with the dispatcher that runs the model's calls.
+ */
+export interface MemoryToolset<Tool> {
+  /** Tool specs to send with the model request */
+  tools: Array<Tool>;
+  /**
+   * Validates the arguments of a tool call and runs the matching client method.
+   *
+   * @param name - Tool name chosen by the model
+   * @param args - Arguments as an object, or as the JSON string some APIs return
+   * @returns What the client method returned
+   * @throws {InvalidArgumentError} When the tool is not offered or the arguments do not match its schema
+   */
+  executeToolCall(name: string, args: unknown): Promise<unknown>;
+}
+
+/** Methods the tools call, shared by {@link MemoryClient} and its scoped views. */
+interface ToolTarget {
+  add(
+    messages: Array<Message>,
+    options?: MemoryOptions & { async_mode?: false },
+  ): Promise<Array<Memory>>;
+  search(query: string, options?: SearchOptions): Promise<Array<Memory>>;
+  getPage(options?: SearchOptions): Promise<Page<Memory>>;
+  update(
+    memoryId: string,
+    data: { text?: string; metadata?: Record<string, unknown> },
+  ): Promise<Array<Memory>>;
+  delete(memoryId: string): Promise<{ message: string }>;
+  history(memoryId: string): Promise<Array<MemoryHistory>>;
+}
+
+interface MemoryTool extends Omit<MemoryToolDefinition, "inputSchema"> {
+  /** Argument properties, including the entity ID fields */
+  properties: Record<string, JsonSchema>;
+  /** Required arguments */
+  required: Array<string>;
+  run: (target: ToolTarget, args: Record<string, unknown>) => Promise<unknown>;
+}
+
+/** Entity ID fields the add, search and list tools accept unless a scope fixes them. */
+const ENTITY_FIELDS = ["user_id", "agent_id", "app_id", "run_id"] as const;
+
+/**
+ * Schemas for the {@link MemoryOptions} and {@link SearchOptions} fields the
+ * tools accept. The key constraint keeps them in step with those types.
+ */
+const OPTION_SCHEMAS = {
+  user_id: { type: "string", minLength: 1, description: "User ID to filter/associate memories" },
+  agent_id: {
+    type: "string",
+    minLength: 1,
+    description: "Agent ID to filter/associate memories",
+  },
+  app_id: { type: "string", minLength: 1, description: "App ID to filter/associate memories" },
+  run_id: { type: "string", minLength: 1, description: "Run ID to filter/associate memories" },
+  metadata: { type: "object", description: "Custom metadata to attach" },
+  infer: {
+    type: "boolean",
+    description:
+      "Whether to extract facts from the messages (true, the default) or store them as-is",
+  },
+  immutable: { type: "boolean", description: "Make memories immutable" },
+  limit: {
+    type: "integer",
+    minimum: 1,
+    maximum: 100,
+    description: "Maximum number of results to return",
+  },
+  threshold: {
+    type: "number",
+    minimum: 0,
+    maximum: 1,
+    description: "Minimum similarity threshold for results",
+  },
+  categories: {
+    type: "array",
+    items: { type: "string" },
+    description: "Categories to filter by",
+  },
+  keyword_search: { type: "boolean", description: "Enable keyword-based search" },
+  rerank: { type: "boolean", description: "Enable result reranking" },
+  page: { type: "integer", minimum: 1, description: "Page number for pagination" },
+  page_size: {
+    type: "integer",
+    minimum: 1,
+    maximum: 100,
+    description: "Page size for pagination",
+  },
+  start_date: { type: "string", description: "Filter by start date (YYYY-MM-DD)" },
+  end_date: { type: "string", description: "Filter by end date (YYYY-MM-DD)" },
+} satisfies { [Field in keyof SearchOptions]?: JsonSchema };
+
+const ENTITY_SCHEMAS: Record<string, JsonSchema> = Object.fromEntries(
+  ENTITY_FIELDS.map((field) => [field, OPTION_SCHEMAS[field]]),
+);
+
+const MEMORY_ID: JsonSchema = { type: "string", minLength: 1, description: "ID of the memory" };
+
+const MESSAGES: JsonSchema = {
+  description: "Text to remember, or the conversation to extract memories from",
+  anyOf: [
+    { type: "string", minLength: 1 },
+    {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          role: { type: "string", enum: ["user", "assistant"] },
+          content: { type: "string" },
+        },
+        required: ["role", "content"],
+        additionalProperties: false,
+      },
+    },
+  ],
+};
+
+const TOOLS: Array<MemoryTool> = [
+  {
+    operation: "add",
+    name: "add_memory",
+    title: "Add memory",
+    description:
+      "Stores new memories from text or a conversation and returns the memories created.",
+    readOnly: false,
+    destructive: false,
+    properties: {
+      messages: MESSAGES,
+      ...ENTITY_SCHEMAS,
+      metadata: OPTION_SCHEMAS.metadata,
+      infer: OPTION_SCHEMAS.infer,
+      immutable: OPTION_SCHEMAS.immutable,
+    },
+    required: ["messages"],
+    run: async (target, { messages, ...options }) =>
+      await target.add(
+        typeof messages === "string"
+          ? [{ role: "user", content: messages }]
+          : messages as Array<Message>,
+        options,
+      ),
+  },
+  {
+    operation: "search",
+    name: "search_memories",
+    title: "Search memories",
+    description: "Finds the memories most relevant to a query, with similarity scores.",
+    readOnly: true,
+    destructive: false,
+    properties: {
+      query: { type: "string", minLength: 1, description: "What to search for" },
+      ...ENTITY_SCHEMAS,
+      limit: OPTION_SCHEMAS.limit,
+      threshold: OPTION_SCHEMAS.threshold,
+      categories: OPTION_SCHEMAS.categories,
+      keyword_search: OPTION_SCHEMAS.keyword_search,
+      rerank: OPTION_SCHEMAS.rerank,
+    },
+    required: ["query"],
+    run: async (target, { query, ...options }) => await target.search(query as string, options),
+  },
+  {
+    operation: "list",
+    name: "list_memories",
+    title: "List memories",
+    description: "Lists stored memories one page at a time, with the total count.",
+    readOnly: true,
+    destructive: false,
+    properties: {
+      ...ENTITY_SCHEMAS,
+      page: OPTION_SCHEMAS.page,
+      page_size: OPTION_SCHEMAS.page_size,
+      start_date: OPTION_SCHEMAS.start_date,
+      end_date: OPTION_SCHEMAS.end_date,
+    },
+    required: [],
+    run: async (target, options) => await target.getPage(options),
+  },
+  {
+    operation: "update",
+    name: "update_memory",
+    title: "Update memory",
+    description: "Replaces the text and/or metadata of a memory.",
+    readOnly: false,
+    destructive: true,
+    properties: {
+      memory_id: MEMORY_ID,
+      text: { type: "string", minLength: 1, description: "New memory text" },
+      metadata: { type: "object", description: "New metadata, replacing the old" },
+    },
+    required: ["memory_id"],
+    run: async (target, { memory_id, ...data }) => await target.update(memory_id as string, data),
+  },
+  {
+    operation: "delete",
+    name: "delete_memory",
+    title: "Delete memory",
+    description: "Permanently deletes a memory.",
+    readOnly: false,
+    destructive: true,
+    properties: { memory_id: MEMORY_ID },
+    required: ["memory_id"],
+    run: async (target, { memory_id }) => await target.delete(memory_id as string),
+  },
+  {
+    operation: "history",
+    name: "memory_history",
+    title: "Memory history",
+    description: "Lists the changes made to a memory, oldest first.",
+    readOnly: true,
+    destructive: false,
+    properties: { memory_id: MEMORY_ID },
+    required: ["memory_id"],
+    run: async (target, { memory_id }) => await target.history(memory_id as string),
+  },
+];
+
+/**
+ * Lists the memory tools available under the given options.
+ *
+ * @param options - Scope whose entity IDs are left out of the schemas, operations and read-only mode
+ * @returns Tool definitions in a fixed order
+ */
+export function listMemoryTools(options: MemoryToolOptions = {}): Array<MemoryToolDefinition> {
+  return offered(options).filter((tool) => !options.readOnly || tool.readOnly).map((tool) => {
+    const { properties, required, run: _run, ...definition } = tool;
+    const inputSchema: JsonSchema = {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(properties).filter(([field]) =>
+          options.scope?.[field as keyof MemoryScope] === undefined
+        ),
+      ),
+      additionalProperties: false,
+    };
+    if (required.length > 0) {
+      inputSchema.required = required;
+    }
+    return { ...definition, inputSchema };
+  });
+}
+
+/**
+ * Validates a tool call's arguments and runs it against the client.
+ *
+ * @param client - Client to call
+ * @param name - Tool name from {@link listMemoryTools}
+ * @param args - Arguments chosen by the model
+ * @param options - Scope, operations and read-only mode; must match those the tools were listed with
+ * @returns What the client method returned
+ * @throws {InvalidArgumentError} When the tool is not offered or the arguments do not match its schema
+ * @throws {OperationBlockedError} When a write tool is called in read-only mode
+ */
+export async function callMemoryTool(
+  client: MemoryClient,
+  name: string,
+  args: unknown,
+  options: MemoryToolOptions = {},
+): Promise<unknown> {
+  const tools = offered(options);
+  const tool = tools.find((candidate) => candidate.name === name);
+  if (!tool) {
+    throw new InvalidArgumentError(`Unknown tool "${name}"`, {
+      fieldErrors: { name: [`Must be one of ${tools.map((known) => known.name).join(", ")}.`] },
+    });
+  }
+  if (options.readOnly && !tool.readOnly) {
+    throw new OperationBlockedError(name, "read_only");
+  }
+
+  const schema = listMemoryTools({ scope: options.scope }).find((listed) => listed.name === name)!
+    .inputSchema;
+  const fieldErrors: Record<string, Array<string>> = {};
+  validate(schema, args ?? {}, "", fieldErrors);
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new InvalidArgumentError(`Invalid arguments for ${name}`, { fieldErrors });
+  }
+
+  const target: ToolTarget = options.scope ? client.scope(options.scope) : client;
+  return await tool.run(target, { ...args as Record<string, unknown> });
+}
+
+/**
+ * Builds tool specs in an LLM API's format, with a dispatcher for the calls
+ * the model makes. Prefer {@link MemoryClient.toolDefinitions}.
+ */
+export function createMemoryToolset<Dialect extends ToolDialect = "json-schema">(
+  client: MemoryClient,
+  options: ToolDefinitionOptions<Dialect> = {},
+): MemoryToolset<ToolDialects[Dialect]> {
+  const { dialect = "json-schema", ...toolOptions } = options;
+  const tools = listMemoryTools(toolOptions).map((tool): ToolDialects[ToolDialect] => {
+    switch (dialect) {
+      case "openai":
+        return {
+          type: "function",
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.inputSchema,
+          },
+        };
+      case "anthropic":
+        return { name: tool.name, description: tool.description, "input_schema": tool.inputSchema };
+      default:
+        return tool;
+    }
+  });
+
+  return {
+    tools: tools as Array<ToolDialects[Dialect]>,
+    executeToolCall: async (name, args) => {
+      if (typeof args === "string") {
+        try {
+          args = args.trim() === "" ? {} : JSON.parse(args);
+        } catch {
+          throw new InvalidArgumentError(`Arguments for ${name} are not valid JSON`, {
+            fieldErrors: { arguments: ["Must be a JSON object."] },
+          });
+        }
+      }
+      return await callMemoryTool(client, name, args, toolOptions);
+    },
+  };
+}
+
+/** Tools selected by `include`, in their fixed order. */
+function offered(options: MemoryToolOptions): Array<MemoryTool> {
+  return TOOLS.filter((tool) => !options.include || options.include.includes(tool.operation));
+}
+
+/** Lists mismatches between a value and a schema, keyed by the value's path. */
+function validate(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  errors: Record<string, Array<string>>,
+): void {
+  const fail = (message: string): void => {
+    (errors[path || "arguments"] ??= []).push(message);
+  };
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some((option) => {
+      const optionErrors: Record<string, Array<string>> = {};
+      validate(option, value, path, optionErrors);
+      return Object.keys(optionErrors).length === 0;
+    });
+    if (!matches) {
+      fail(`Must be one of: ${schema.anyOf.map((option) => option.type).join(", ")}.`);
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        return fail("Must be a string.");
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return fail("Must not be empty.");
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return fail(`Must be one of ${schema.enum.join(", ")}.`);
+      }
+      return;
+
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return fail("Must be a number.");
+      }
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        return fail("Must be a whole number.");
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return fail(`Must be at least ${schema.minimum}.`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return fail(`Must be at most ${schema.maximum}.`);
+      }
+      return;
+
+    case "boolean":
+      if (typeof value !== "boolean") {
+        fail("Must be true or false.");
+      }
+      return;
+
+    case "array":
+      if (!Array.isArray(value)) {
+        return fail("Must be an array.");
+      }
+      value.forEach((item, index) =>
+        validate(schema.items ?? {}, item, `${path}[${index}]`, errors)
+      );
+      return;
+
+    case "object": {
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return fail("Must be an object.");
+      }
+      const record = value as Record<string, unknown>;
+      const child = (key: string): string => path ? `${path}.${key}` : key;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          (errors[child(key)] ??= []).push("This field is required.");
+        }
+      }
+      for (const [key, item] of Object.entries(record)) {
+        const property = schema.properties?.[key];
+        if (property) {
+          validate(property, item, child(key), errors);
+        } else if (schema.additionalProperties === false) {
+          (errors[child(key)] ??= []).push("Unknown field.");
+        }
+      }
+      return;
+    }
+  }
+}
@@ -8,6 +8,9 @@
 // deno-lint-ignore-file camelcase
 // Note: Property names use snake_case to match the Mem0 API response format exactly.
 
+import type { Filter } from "./filter.ts";
+import type { WebhookEventType } from "./webhooks.ts";
+
 // =============================================================================
 // Enums
 // =============================================================================
@@ -195,8 +198,8 @@ export interface MemoryOptions {
   run_id?: string;
   /** Custom metadata to attach */
   metadata?: Record<string, unknown>;
-  /** Filters for querying (v2 API) */
-  filters?: Record<string, unknown>;
+  /** Filters for querying (v2 API); build them with `f` from the filter module */
+  filters?: Filter;
   /** Organization name (deprecated) */
   org_name?: string | null;
   /** Project name (deprecated) */
@@ -269,6 +272,266 @@ export interface ProjectOptions {
   fields?: string[];
 }
 
+// =============================================================================
+// Pagination Types
+// =============================================================================
+
+/**
+ * A single page of results from a paginated endpoint.
+ */
+export interface Page<T> {
+  /** Total number of results across all pages */
+  count: number;
+  /** Results on this page */
+  results: Array<T>;
+  /** URL for next page */
+  next: string | null;
+  /** URL for previous page */
+  previous: string | null;
+}
+
+// =============================================================================
+// Event Types
+// =============================================================================
+
+/**
+ * Processing state of a background event, such as an `async_mode` add.
+ */
+export type MemoryEventStatus = "PENDING" | "RUNNING" | "SUCCEEDED" | "FAILED";
+
+/**
+ * A change applied to the memory store while processing an event.
+ */
+export interface MemoryOperation {
+  /** ID of the affected memory */
+  id: string;
+  /** What was done to the memory */
+  event: "ADD" | "UPDATE" | "DELETE" | "NOOP";
+  /** Memory text after the operation, or the deleted text for DELETE */
+  memory: string | null;
+}
+
+/**
+ * Status and outcome of a background event.
+ */
+export interface MemoryEvent {
+  /** Event ID */
+  id: string;
+  /** Kind of event, e.g. "ADD" */
+  event_type: string;
+  /** Processing state */
+  status: MemoryEventStatus;
+  /** Operations applied, once the event has succeeded */
+  results: Array<MemoryOperation>;
+  /** Failure reason, when the event failed */
+  error?: string | null;
+  /** When the event was queued */
+  created_at?: Date;
+  /** When the event last changed state */
+  updated_at?: Date;
+}
+
+/**
+ * Polling options for waiting on a background job.
+ */
+export interface WaitOptions {
+  /** Maximum time to wait in milliseconds (default: 60000) */
+  timeoutMs?: number;
+  /** Delay between status checks in milliseconds (default: 1000) */
+  pollIntervalMs?: number;
+}
+
+// =============================================================================
+// Batch Types
+// =============================================================================
+
+/**
+ * Options for chunked batch operations.
+ */
+export interface BatchOptions {
+  /** Maximum number of items sent per request (default: 1000, the server limit) */
+  chunkSize?: number;
+  /** Maximum number of chunk requests in flight at once (default: 4) */
+  concurrency?: number;
+  /**
+   * Keep sending the remaining chunks after a chunk fails and return the report
+   * instead of throwing (default: false)
+   */
+  continueOnError?: boolean;
+  /** Called after each chunk completes, successfully or not */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Outcome of a single chunk request.
+ */
+export interface BatchChunk {
+  /** Position of the chunk in the input (0-based) */
+  index: number;
+  /** IDs of the memories in the chunk */
+  ids: Array<string>;
+  /** Whether the chunk request succeeded */
+  status: "succeeded" | "failed";
+  /** Server confirmation message, for successful chunks */
+  message?: string;
+  /** Error raised by the chunk request, for failed chunks */
+  error?: Error;
+}
+
+/**
+ * Progress of a batch operation, reported after each chunk.
+ */
+export interface BatchProgress {
+  /** The chunk that just completed */
+  chunk: BatchChunk;
+  /** Number of items processed so far */
+  processed: number;
+  /** Total number of items in the batch */
+  total: number;
+  /** Number of items that succeeded so far */
+  succeeded: number;
+  /** Number of items that failed so far */
+  failed: number;
+}
+
+/**
+ * Per-item report of a batch operation.
+ */
+export interface BatchReport {
+  /** IDs of the memories that were updated or deleted */
+  succeeded: Array<string>;
+  /** IDs that failed, with the error of their chunk */
+  failed: Array<{ id: string; error: Error }>;
+  /** IDs that were never sent because an earlier chunk failed */
+  skipped: Array<string>;
+  /** Every chunk that was sent, in input order */
+  chunks: Array<BatchChunk>;
+}
+
+// =============================================================================
+// Bulk Add Types
+// =============================================================================
+
+/**
+ * One conversation to add with {@link MemoryClient.addMany}.
+ */
+export interface AddManyItem {
+  /** Conversation messages */
+  messages: Array<Message>;
+  /** Options for this conversation, e.g. user_id and metadata */
+  options?: MemoryOptions;
+}
+
+/**
+ * Options for bulk adds.
+ */
+export interface AddManyOptions {
+  /** Maximum number of add requests in flight at once (default: 4) */
+  concurrency?: number;
+  /** Maximum number of add requests started per second (default: unlimited) */
+  rateLimit?: number;
+  /**
+   * Path of a JSON file recording completed items. Items completed in an
+   * earlier run are skipped, so an interrupted ingest can be resumed by
+   * running it again with the same input and checkpoint.
+   */
+  checkpoint?: string;
+  /** Called after each item completes, successfully or not */
+  onProgress?: (progress: AddManyProgress) => void;
+}
+
+/**
+ * Progress of a bulk add, reported after each item.
+ */
+export interface AddManyProgress {
+  /** Number of items added or failed in this run */
+  processed: number;
+  /** Number of items added in this run */
+  succeeded: number;
+  /** Number of items that failed in this run */
+  failed: number;
+  /** Number of items skipped because the checkpoint marks them complete */
+  skipped: number;
+}
+
+/**
+ * Outcome of one item of a bulk add, identified by its position in the input.
+ */
+export type AddManyResult =
+  | {
+    /** Position of the item in the input (0-based) */
+    index: number;
+    /** The item was added */
+    status: "succeeded";
+    /** Memories returned by the API */
+    memories: Array<Memory>;
+  }
+  | {
+    /** Position of the item in the input (0-based) */
+    index: number;
+    /** The item could not be added */
+    status: "failed";
+    /** Error raised by the add request */
+    error: Error;
+  };
+
+// =============================================================================
+// Scope Types
+// =============================================================================
+
+/**
+ * Entity IDs a {@link ScopedMemoryClient} is bound to. At least one is required.
+ */
+export interface MemoryScope {
+  /** User the scope is bound to */
+  user_id?: string;
+  /** Agent the scope is bound to */
+  agent_id?: string;
+  /** App the scope is bound to */
+  app_id?: string;
+  /** Run the scope is bound to */
+  run_id?: string;
+}
+
+// =============================================================================
+// Deletion Types
+// =============================================================================
+
+/**
+ * Safety options accepted by `deleteAll` and `deleteUsers`.
+ */
+export interface DeletionGuardOptions {
+  /**
+   * Must be `"DELETE_ALL"` when no user_id, agent_id, app_id or run_id is
+   * given, since the call then affects the whole project.
+   */
+  confirm?: "DELETE_ALL";
+  /** Report the entities and memories that would be deleted without deleting them */
+  dryRun?: boolean;
+}
+
+/**
+ * Options for `deleteAll`.
+ */
+export interface DeleteAllOptions extends MemoryOptions, DeletionGuardOptions {}
+
+/**
+ * Options for `deleteUsers`.
+ */
+export interface DeleteUsersOptions extends MemoryScope, DeletionGuardOptions {}
+
+/**
+ * What a `deleteAll` or `deleteUsers` call with `dryRun: true` would delete.
+ */
+export interface DeletionPreview {
+  /** Always true; nothing was deleted */
+  dryRun: true;
+  /** Entities that would be deleted; empty for a `deleteAll` limited to one entity */
+  entities: Array<User>;
+  /** Memories that would be deleted */
+  memories: Array<Memory>;
+}
+
 // =============================================================================
 // User Types
 // =============================================================================
@@ -296,16 +559,7 @@ export interface User {
 /**
  * Paginated list of users/entities.
  */
-export interface AllUsers {
-  /** Total count of entities */
-  count: number;
-  /** Array of user entities */
-  results: Array<User>;
-  /** URL for next page */
-  next: string | null;
-  /** URL for previous page */
-  previous: string | null;
-}
+export interface AllUsers extends Page<User> {}
 
 // =============================================================================
 // Project Types
@@ -335,6 +589,56 @@ export interface PromptUpdatePayload {
   [key: string]: unknown;
 }
 
+/**
+ * Project settings kept in version control, as read by `readProjectConfig`.
+ *
+ * A field that is left out is not managed: plans ignore it and applies never
+ * change it.
+ *
+ * @example
+ * ```json
+ * {
+ *   "custom_instructions": "Only store facts about the user's travel plans.",
+ *   "custom_categories": [
+ *     { "travel": "Trips, bookings and destinations" },
+ *     { "preferences": "Seat, meal and hotel preferences" }
+ *   ]
+ * }
+ * ```
+ */
+export interface ProjectConfig {
+  /** Custom instructions; `null` clears them */
+  custom_instructions?: string | null;
+  /** Custom categories, each an object mapping one name to its description */
+  custom_categories?: Array<Record<string, string>>;
+}
+
+/**
+ * Difference between a {@link ProjectConfig} and the live project, returned
+ * by `planProject` and accepted by `applyProject`.
+ */
+export interface ProjectPlan {
+  /** The desired settings */
+  config: ProjectConfig;
+  /** Live values of the managed fields when the plan was made */
+  current: ProjectConfig;
+  /** Old and new instructions, or null when unchanged or unmanaged */
+  instructions: { from: string | null; to: string | null } | null;
+  /** Category changes, by name */
+  categories: {
+    /** Categories to add */
+    added: Array<{ name: string; description: string }>;
+    /** Categories to remove */
+    removed: Array<{ name: string; description: string | null }>;
+    /** Categories whose description changes */
+    changed: Array<{ name: string; from: string; to: string }>;
+  };
+  /** Whether applying the plan would change anything */
+  hasChanges: boolean;
+  /** Human-readable diff, one change per line */
+  diff: string;
+}
+
 // =============================================================================
 // Webhook Types
 // =============================================================================
@@ -367,16 +671,66 @@ export interface Webhook {
 export interface WebhookPayload {
   /** Event types to subscribe to */
   eventTypes: string[];
-  /** Project ID */
-  projectId: string;
-  /** Webhook ID (for updates) */
-  webhookId: string;
+  /** Project ID (default: the client's configured project) */
+  projectId?: string;
+  /** Webhook ID; required by `updateWebhook`, ignored when creating */
+  webhookId?: string;
   /** Display name */
   name: string;
   /** Target URL */
   url: string;
 }
 
+/**
+ * Desired state of one webhook, for `syncWebhooks`.
+ */
+export interface WebhookSpec {
+  /** Display name; matched against existing webhooks first */
+  name: string;
+  /** Target URL; matched against existing webhooks when no name matches */
+  url: string;
+  /** Event types to subscribe to */
+  eventTypes: Array<`${WebhookEventType}`>;
+}
+
+/**
+ * Options for `syncWebhooks`.
+ */
+export interface SyncWebhooksOptions {
+  /** Delete existing webhooks that match no spec (default: false) */
+  prune?: boolean;
+  /** Return the plan without applying it (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * One change planned by `syncWebhooks`.
+ */
+export type WebhookSyncAction =
+  | { action: "create"; spec: WebhookSpec }
+  | {
+    action: "update";
+    webhook: Webhook;
+    spec: WebhookSpec;
+    /** Fields that differ from the spec */
+    changes: Array<"name" | "url" | "eventTypes">;
+  }
+  | { action: "delete"; webhook: Webhook };
+
+/**
+ * Outcome of `syncWebhooks`.
+ */
+export interface WebhookSyncResult {
+  /** Whether the plan was only computed */
+  dryRun: boolean;
+  /** Changes applied, or that would be applied in a dry run, in order */
+  actions: Array<WebhookSyncAction>;
+  /** Existing webhooks that already match their spec */
+  unchanged: Array<Webhook>;
+  /** Existing webhooks that match no spec and were kept because `prune` is off */
+  unmanaged: Array<Webhook>;
+}
+
 // =============================================================================
 // Feedback Types
 // =============================================================================
@@ -429,6 +783,39 @@ export interface GetMemoryExportPayload extends ExportCommon {
   memory_export_id?: string;
 }
 
+/**
+ * Processing state of a memory export.
+ */
+export type MemoryExportStatus = "pending" | "processing" | "completed" | "failed";
+
+/**
+ * A memory export as returned by `getMemoryExport`.
+ */
+export interface MemoryExport {
+  /** Export ID */
+  id?: string;
+  /** Processing state */
+  status: MemoryExportStatus;
+  /** Status message from the API */
+  message?: string;
+  /** Failure reason, when the export failed */
+  error?: string | null;
+  /** Exported data, shaped by the export schema once completed */
+  data?: unknown;
+}
+
+/**
+ * Options for {@link ExportJob.saveTo}.
+ */
+export interface SaveExportOptions extends WaitOptions {
+  /**
+   * File format (default: "json"). `"jsonl"` writes one record per line: the
+   * elements of an array result, or of the single array property of an object
+   * result such as `{ memories: [...] }`.
+   */
+  format?: "json" | "jsonl";
+}
+
 // =============================================================================
 // Client Options
 // =============================================================================
@@ -449,4 +836,136 @@ export interface ClientOptions {
   organizationId?: string;
   /** Project ID */
   projectId?: string;
+  /** Request timeout in milliseconds (default: 60000) */
+  timeoutMs?: number;
+  /** Retry policy applied to every request (default: no retries) */
+  retry?: RetryOptions | false;
+  /** Validate responses and convert timestamps to `Date` objects (default: true) */
+  decodeResponses?: boolean;
+  /** Fetch implementation used for every request (default: global `fetch`) */
+  fetch?: FetchFunction;
+  /** Middleware run around every request attempt, in order */
+  middleware?: Array<Middleware>;
+  /**
+   * Reject every call that would add, change or delete data with an
+   * `OperationBlockedError` before it is sent (default: false). Reads,
+   * searches, exports and dry runs still work.
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Signature of a `fetch`-compatible function.
+ */
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * A request as seen by middleware. Mutate it or return a replacement.
+ */
+export interface MiddlewareRequest {
+  /** Full request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Request headers, including authorization */
+  headers: Headers;
+  /** JSON-encoded request body, if any */
+  body?: string;
+  /** Combined caller and timeout signal */
+  signal: AbortSignal;
+}
+
+/**
+ * Hooks run around every request attempt, including retries.
+ *
+ * `onRequest` hooks run in registration order; `onResponse` and `onError`
+ * hooks run in reverse order, so the first middleware wraps all others.
+ */
+export interface Middleware {
+  /** Inspect or rewrite the outgoing request */
+  onRequest?: (context: {
+    request: MiddlewareRequest;
+    attempt: number;
+  }) => MiddlewareRequest | void | Promise<MiddlewareRequest | void>;
+  /** Inspect or replace the response, before error handling */
+  onResponse?: (context: {
+    request: MiddlewareRequest;
+    response: Response;
+    attempt: number;
+  }) => Response | void | Promise<Response | void>;
+  /** Observe a failed fetch; returning a response recovers from the failure */
+  onError?: (context: {
+    request: MiddlewareRequest;
+    error: unknown;
+    attempt: number;
+  }) => Response | void | Promise<Response | void>;
+}
+
+/**
+ * Details about a retry that is about to be scheduled.
+ */
+export interface RetryAttempt {
+  /** Number of the attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** The failure that triggered the retry */
+  error: unknown;
+  /** HTTP method of the request */
+  method: string;
+  /** Request URL */
+  url: string;
+}
+
+/**
+ * Retry policy for failed requests.
+ *
+ * Requests that fail with a retryable status code, a network failure or a
+ * timeout are retried with exponential backoff. Non-idempotent calls such as
+ * `add()` are only retried on `429 Too Many Requests`, since the server has
+ * rejected those before processing them.
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for a single delay in milliseconds (default: 30000). A longer
+   * Retry-After is not waited out: the error is thrown instead.
+   */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  backoffFactor?: number;
+  /** Randomize backoff delays to spread out concurrent retries (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Retry when the request fails before a response arrives (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Retry when a request times out (default: true) */
+  retryOnTimeout?: boolean;
+  /** Wait for the duration given by a Retry-After header when present (default: true) */
+  respectRetryAfter?: boolean;
+  /** Retry non-idempotent calls on every retryable failure, not just 429 (default: false) */
+  retryNonIdempotent?: boolean;
+  /** Called before each retry is scheduled, e.g. for logging */
+  onRetry?: (attempt: RetryAttempt) => void | Promise<void>;
+}
+
+/**
+ * Per-call options accepted by every MemoryClient method.
+ */
+export interface RequestOptions {
+  /** Signal to cancel the call; combined with the timeout signal */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds, overriding `ClientOptions.timeoutMs` */
+  timeoutMs?: number;
+  /** Extra headers sent with this call */
+  headers?: Record<string, string>;
+  /** Retry policy for this call, merged over the client policy. `false` disables retries */
+  retry?: RetryOptions | false;
 }
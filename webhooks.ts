@@ -0,0 +1,381 @@
+/**
+ * @module
+ * Receiving side of Mem0 webhooks: signature verification, typed event
+ * payloads and a request handler for `Deno.serve`.
+ *
+ * Every delivery carries two headers: `x-mem0-timestamp`, the Unix time in
+ * seconds at which it was sent, and `x-mem0-signature`, the hex HMAC-SHA256
+ * of `<timestamp>.<raw body>` keyed with the webhook secret. A request is
+ * accepted only if the signature matches and the timestamp is within the
+ * tolerance, so captured deliveries cannot be replayed later.
+ *
+ * @example
+ * ```ts
+ * import { createWebhookHandler } from "sdk-deno-mem0";
+ *
+ * Deno.serve(createWebhookHandler({
+ *   secret: Deno.env.get("MEM0_WEBHOOK_SECRET")!,
+ *   onMemoryAdd: (event) => console.log(`added ${event.event_details.data.memory}`),
+ *   onMemoryUpdate: (event) => console.log(`updated ${event.event_details.id}`),
+ * }));
+ * ```
+ */
+
+// deno-lint-ignore-file camelcase
+// Note: Property names use snake_case to match the Mem0 API payload format exactly.
+
+import { WebhookVerificationError } from "./error.ts";
+
+/** Header holding the hex HMAC-SHA256 signature of a delivery. */
+export const SIGNATURE_HEADER = "x-mem0-signature";
+
+/** Header holding the Unix time in seconds at which a delivery was signed. */
+export const TIMESTAMP_HEADER = "x-mem0-timestamp";
+
+/**
+ * Event types a webhook can subscribe to.
+ */
+export enum WebhookEventType {
+  /** A memory was created */
+  MEMORY_ADD = "memory_add",
+  /** A memory's text was changed */
+  MEMORY_UPDATE = "memory_update",
+  /** A memory was deleted */
+  MEMORY_DELETE = "memory_delete",
+  /** A memory was assigned categories */
+  MEMORY_CATEGORIZE = "memory_categorize",
+}
+
+/** Memory operation reported in `event_details.event` for each event type. */
+const OPERATIONS: Record<WebhookEventType, string> = {
+  [WebhookEventType.MEMORY_ADD]: "ADD",
+  [WebhookEventType.MEMORY_UPDATE]: "UPDATE",
+  [WebhookEventType.MEMORY_DELETE]: "DELETE",
+  [WebhookEventType.MEMORY_CATEGORIZE]: "CATEGORIZE",
+};
+
+/**
+ * Details of the memory an event is about.
+ */
+export interface WebhookEventDetails<Operation extends string, Data> {
+  /** ID of the memory */
+  id: string;
+  /** Memory operation that triggered the event */
+  event: Operation;
+  /** Operation-specific data */
+  data: Data;
+}
+
+/**
+ * Payload of a `memory_add` event.
+ */
+export interface MemoryAddWebhookEvent {
+  /** Event type */
+  event_type: WebhookEventType.MEMORY_ADD;
+  /** Unique ID of the event, repeated when a delivery is retried */
+  event_id?: string;
+  /** The added memory */
+  event_details: WebhookEventDetails<"ADD", { memory: string }>;
+}
+
+/**
+ * Payload of a `memory_update` event.
+ */
+export interface MemoryUpdateWebhookEvent {
+  /** Event type */
+  event_type: WebhookEventType.MEMORY_UPDATE;
+  /** Unique ID of the event, repeated when a delivery is retried */
+  event_id?: string;
+  /** The updated memory, with its previous text when the API sends it */
+  event_details: WebhookEventDetails<"UPDATE", { memory: string; old_memory?: string }>;
+}
+
+/**
+ * Payload of a `memory_delete` event.
+ */
+export interface MemoryDeleteWebhookEvent {
+  /** Event type */
+  event_type: WebhookEventType.MEMORY_DELETE;
+  /** Unique ID of the event, repeated when a delivery is retried */
+  event_id?: string;
+  /** The deleted memory, with its last text when the API sends it */
+  event_details: WebhookEventDetails<"DELETE", { memory?: string }>;
+}
+
+/**
+ * Payload of a `memory_categorize` event.
+ */
+export interface MemoryCategorizeWebhookEvent {
+  /** Event type */
+  event_type: WebhookEventType.MEMORY_CATEGORIZE;
+  /** Unique ID of the event, repeated when a delivery is retried */
+  event_id?: string;
+  /** The categorized memory and its categories */
+  event_details: WebhookEventDetails<"CATEGORIZE", { memory?: string; categories: Array<string> }>;
+}
+
+/**
+ * A verified webhook delivery, discriminated by `event_type`.
+ */
+export type WebhookEvent =
+  | MemoryAddWebhookEvent
+  | MemoryUpdateWebhookEvent
+  | MemoryDeleteWebhookEvent
+  | MemoryCategorizeWebhookEvent;
+
+/**
+ * Options for {@link verifyAndParse}.
+ */
+export interface VerifyWebhookOptions {
+  /** Maximum age of a delivery, and clock skew, in seconds (default: 300) */
+  toleranceSeconds?: number;
+}
+
+/**
+ * Options for {@link createWebhookHandler}.
+ */
+export interface WebhookHandlerOptions extends VerifyWebhookOptions {
+  /** Webhook secret shared with Mem0 */
+  secret: string;
+  /** Called for `memory_add` events */
+  onMemoryAdd?: (event: MemoryAddWebhookEvent, request: Request) => void | Promise<void>;
+  /** Called for `memory_update` events */
+  onMemoryUpdate?: (event: MemoryUpdateWebhookEvent, request: Request) => void | Promise<void>;
+  /** Called for `memory_delete` events */
+  onMemoryDelete?: (event: MemoryDeleteWebhookEvent, request: Request) => void | Promise<void>;
+  /** Called for `memory_categorize` events */
+  onMemoryCategorize?: (
+    event: MemoryCategorizeWebhookEvent,
+    request: Request,
+  ) => void | Promise<void>;
+  /** Called for every verified event, after the type-specific callback */
+  onEvent?: (event: WebhookEvent, request: Request) => void | Promise<void>;
+  /**
+   * Called when verification or a callback fails. The handler still answers
+   * 400/401 for rejected deliveries and 500 for failed callbacks.
+   */
+  onError?: (error: unknown, request: Request) => void;
+}
+
+/**
+ * Checks the signature and timestamp of a webhook delivery and parses its body.
+ *
+ * The body is read from the request, so the request cannot be read again.
+ *
+ * @param request - Incoming webhook request
+ * @param secret - Webhook secret shared with Mem0
+ * @param options - Timestamp tolerance
+ * @returns The typed event
+ * @throws {WebhookVerificationError} When a header is missing, the signature
+ * does not match, the timestamp is outside the tolerance or the body is not a
+ * Mem0 event
+ *
+ * @example
+ * ```ts
+ * Deno.serve(async (request) => {
+ *   const event = await verifyAndParse(request, Deno.env.get("MEM0_WEBHOOK_SECRET")!);
+ *   if (event.event_type === WebhookEventType.MEMORY_ADD) {
+ *     console.log(event.event_details.data.memory);
+ *   }
+ *   return new Response(null, { status: 204 });
+ * });
+ * ```
+ */
+export async function verifyAndParse(
+  request: Request,
+  secret: string,
+  options: VerifyWebhookOptions = {},
+): Promise<WebhookEvent> {
+  const details = { method: request.method, url: request.url };
+  const signature = request.headers.get(SIGNATURE_HEADER);
+  const timestamp = request.headers.get(TIMESTAMP_HEADER);
+  if (!signature || !timestamp) {
+    throw new WebhookVerificationError(
+      `Webhook request is missing the ${!signature ? SIGNATURE_HEADER : TIMESTAMP_HEADER} header`,
+      "missing_signature",
+      details,
+    );
+  }
+
+  const body = await request.text();
+  const expected = hexToBytes(signature.replace(/^sha256=/, ""));
+  const key = await importKey(secret);
+  const valid = expected !== null && await crypto.subtle.verify(
+    "HMAC",
+    key,
+    expected,
+    new TextEncoder().encode(`${timestamp}.${body}`),
+  );
+  if (!valid) {
+    throw new WebhookVerificationError(
+      "Webhook signature does not match",
+      "invalid_signature",
+      details,
+    );
+  }
+
+  // Checked after the signature so the timestamp itself is known to be authentic.
+  const toleranceSeconds = options.toleranceSeconds ?? 300;
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+    throw new WebhookVerificationError(
+      `Webhook timestamp ${timestamp} is outside the ${toleranceSeconds}s tolerance`,
+      "expired",
+      details,
+    );
+  }
+
+  return parseEvent(body, details);
+}
+
+/**
+ * Builds the headers for a signed webhook delivery, for testing receivers
+ * and for relaying events between services.
+ *
+ * @param body - Raw request body
+ * @param secret - Webhook secret
+ * @param timestamp - Unix time in seconds to sign with (default: now)
+ * @returns The signature and timestamp headers
+ */
+export async function signWebhook(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): Promise<Record<string, string>> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    new TextEncoder().encode(`${timestamp}.${body}`),
+  );
+  return {
+    [SIGNATURE_HEADER]: Array.from(
+      new Uint8Array(signature),
+      (byte) => byte.toString(16).padStart(2, "0"),
+    ).join(""),
+    [TIMESTAMP_HEADER]: String(timestamp),
+  };
+}
+
+/**
+ * Creates a request handler that verifies deliveries and dispatches them to
+ * the callback for their event type. It can be passed straight to `Deno.serve`.
+ *
+ * The handler answers 405 to anything but POST, 401 to unsigned, forged or
+ * expired deliveries, 400 to bodies that are not Mem0 events, 500 when a
+ * callback throws, and 200 otherwise, including for event types without a
+ * callback.
+ *
+ * @param options - Secret, tolerance and event callbacks
+ * @returns A `(request) => Promise<Response>` handler
+ */
+export function createWebhookHandler(
+  options: WebhookHandlerOptions,
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    if (request.method !== "POST") {
+      return Response.json({ error: "Method not allowed" }, {
+        status: 405,
+        headers: { allow: "POST" },
+      });
+    }
+
+    let event: WebhookEvent;
+    try {
+      event = await verifyAndParse(request, options.secret, options);
+    } catch (error) {
+      options.onError?.(error, request);
+      const invalid = error instanceof WebhookVerificationError &&
+        error.reason === "invalid_payload";
+      return Response.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: invalid ? 400 : 401 },
+      );
+    }
+
+    try {
+      switch (event.event_type) {
+        case WebhookEventType.MEMORY_ADD:
+          await options.onMemoryAdd?.(event, request);
+          break;
+        case WebhookEventType.MEMORY_UPDATE:
+          await options.onMemoryUpdate?.(event, request);
+          break;
+        case WebhookEventType.MEMORY_DELETE:
+          await options.onMemoryDelete?.(event, request);
+          break;
+        case WebhookEventType.MEMORY_CATEGORIZE:
+          await options.onMemoryCategorize?.(event, request);
+          break;
+      }
+      await options.onEvent?.(event, request);
+    } catch (error) {
+      options.onError?.(error, request);
+      return Response.json({ error: "Webhook handler failed" }, { status: 500 });
+    }
+    return Response.json({ received: true });
+  };
+}
+
+/**
+ * Parses and checks a verified body. Deliveries without `event_type` take it
+ * from the memory operation in `event_details.event`.
+ */
+function parseEvent(body: string, details: { method: string; url: string }): WebhookEvent {
+  const fail = (message: string, cause?: unknown): never => {
+    throw new WebhookVerificationError(message, "invalid_payload", { ...details, cause });
+  };
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch (cause) {
+    fail("Webhook body is not valid JSON", cause);
+  }
+  if (!isRecord(payload) || !isRecord(payload.event_details)) {
+    return fail("Webhook body has no event_details object");
+  }
+
+  const eventDetails = payload.event_details;
+  if (typeof eventDetails.id !== "string") {
+    fail("Webhook event_details.id is not a string");
+  }
+  if (!isRecord(eventDetails.data)) {
+    fail("Webhook event_details.data is not an object");
+  }
+
+  const eventType = payload.event_type ??
+    Object.entries(OPERATIONS).find(([, operation]) => operation === eventDetails.event)?.[0];
+  if (!Object.values(WebhookEventType).includes(eventType as WebhookEventType)) {
+    fail(`Unknown webhook event type ${JSON.stringify(eventType)}`);
+  }
+  return {
+    ...payload,
+    event_type: eventType,
+    event_details: { ...eventDetails, event: OPERATIONS[eventType as WebhookEventType] },
+  } as WebhookEvent;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let index = 0; index < bytes.length; index++) {
+    bytes[index] = parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+  }
+  return bytes;
+}